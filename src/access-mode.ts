@@ -0,0 +1,149 @@
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+// What each tool can change, used for the MCP tool annotations and to limit the tools
+// offered with SIIGO_ACCESS_MODE: read-only for analysts querying the books, no-delete to
+// keep deletions and annulments out of reach, full (the default) for everything.
+
+export const ACCESS_MODES = ['read-only', 'no-delete', 'full'] as const;
+
+export type AccessMode = typeof ACCESS_MODES[number];
+
+// read: queries only. create/update: write documents. delete: deletes or annuls them
+type ToolEffect = 'read' | 'create' | 'update' | 'delete';
+
+const TOOL_EFFECTS: Record<string, ToolEffect> = {
+  siigo_authenticate: 'read',
+  siigo_list_companies: 'read',
+  siigo_set_default_company: 'read',
+  siigo_get_rate_limit_status: 'read',
+  siigo_audit_search: 'read',
+  siigo_coverage_report: 'read',
+  siigo_list_products: 'read',
+  siigo_get_product: 'read',
+  siigo_create_product: 'create',
+  siigo_update_product: 'update',
+  siigo_delete_product: 'delete',
+  siigo_get_account_groups: 'read',
+  siigo_create_account_group: 'create',
+  siigo_update_account_group: 'update',
+  siigo_list_customers: 'read',
+  siigo_get_customer: 'read',
+  siigo_create_customer: 'create',
+  siigo_update_customer: 'update',
+  siigo_validate_identification: 'read',
+  siigo_search_city: 'read',
+  siigo_list_invoices: 'read',
+  siigo_get_invoice: 'read',
+  siigo_create_invoice: 'create',
+  siigo_update_invoice: 'update',
+  siigo_delete_invoice: 'delete',
+  siigo_annul_invoice: 'delete',
+  siigo_get_invoice_pdf: 'read',
+  siigo_get_invoice_xml: 'read',
+  siigo_send_invoice_email: 'create',
+  siigo_get_invoice_stamp_errors: 'read',
+  siigo_create_invoice_batch: 'create',
+  siigo_list_quotations: 'read',
+  siigo_get_quotation: 'read',
+  siigo_create_quotation: 'create',
+  siigo_update_quotation: 'update',
+  siigo_delete_quotation: 'delete',
+  siigo_list_credit_notes: 'read',
+  siigo_get_credit_note: 'read',
+  siigo_create_credit_note: 'create',
+  siigo_get_credit_note_pdf: 'read',
+  siigo_list_purchases: 'read',
+  siigo_get_purchase: 'read',
+  siigo_create_purchase: 'create',
+  siigo_update_purchase: 'update',
+  siigo_delete_purchase: 'delete',
+  siigo_list_vouchers: 'read',
+  siigo_get_voucher: 'read',
+  siigo_create_voucher: 'create',
+  siigo_list_payment_receipts: 'read',
+  siigo_get_payment_receipt: 'read',
+  siigo_create_payment_receipt: 'create',
+  siigo_delete_payment_receipt: 'delete',
+  siigo_list_journals: 'read',
+  siigo_create_journal: 'create',
+  siigo_test_balance_report: 'read',
+  siigo_test_balance_by_thirdparty: 'read',
+  siigo_accounts_payable: 'read',
+  siigo_get_taxes: 'read',
+  siigo_get_users: 'read',
+  siigo_get_document_types: 'read',
+  siigo_get_payment_types: 'read',
+  siigo_get_warehouses: 'read',
+  siigo_get_cost_centers: 'read',
+  siigo_get_price_lists: 'read',
+  siigo_get_fixed_assets: 'read',
+  siigo_refresh_catalogs: 'read',
+  siigo_calculate_taxes: 'read',
+  siigo_list_webhooks: 'read',
+  siigo_create_webhook: 'create',
+  siigo_update_webhook: 'update',
+  siigo_delete_webhook: 'delete',
+};
+
+// Creates sent with an Idempotency-Key (given or derived), so repeating one returns the original document
+const IDEMPOTENT_CREATES = [
+  'siigo_create_invoice',
+  'siigo_create_invoice_batch',
+  'siigo_create_credit_note',
+  'siigo_create_voucher',
+  'siigo_create_payment_receipt',
+  'siigo_create_journal',
+];
+
+// Tools answered by this server without calling Siigo
+const LOCAL_TOOLS = [
+  'siigo_list_companies',
+  'siigo_set_default_company',
+  'siigo_get_rate_limit_status',
+  'siigo_audit_search',
+  'siigo_coverage_report',
+  'siigo_refresh_catalogs',
+  'siigo_validate_identification',
+  'siigo_search_city',
+];
+
+/**
+ * Access mode from SIIGO_ACCESS_MODE, full when unset
+ */
+export function parseAccessMode(value: string | undefined): AccessMode {
+  const mode = value || 'full';
+  if (!(ACCESS_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid SIIGO_ACCESS_MODE "${mode}". Use one of: ${ACCESS_MODES.join(', ')}`);
+  }
+  return mode as AccessMode;
+}
+
+// Unclassified tools are treated as the most dangerous kind
+function effectOf(name: string): ToolEffect {
+  return TOOL_EFFECTS[name] ?? 'delete';
+}
+
+export function isToolAllowed(name: string, mode: AccessMode): boolean {
+  switch (mode) {
+    case 'read-only':
+      return effectOf(name) === 'read';
+    case 'no-delete':
+      return effectOf(name) !== 'delete';
+    default:
+      return true;
+  }
+}
+
+export function toolAnnotations(name: string): ToolAnnotations {
+  const effect = effectOf(name);
+  const openWorldHint = !LOCAL_TOOLS.includes(name);
+  if (effect === 'read') {
+    return { readOnlyHint: true, openWorldHint };
+  }
+  return {
+    readOnlyHint: false,
+    destructiveHint: effect !== 'create',
+    idempotentHint: effect !== 'create' || IDEMPOTENT_CREATES.includes(name),
+    openWorldHint,
+  };
+}
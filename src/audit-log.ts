@@ -0,0 +1,181 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { HttpCallRecord } from './siigo-client.js';
+
+// Append-only JSONL audit trail. Every tool call is written with its arguments, company
+// profile, outcome and duration, and every Siigo API request it caused is written with
+// the same call_id, so a document can be traced back to the call and payload that created it.
+
+export interface ToolAuditEntry {
+  type: 'tool';
+  timestamp: string;
+  call_id: string;
+  tool: string;
+  company: string | null;
+  arguments: unknown;
+  outcome: 'success' | 'error';
+  duration_ms: number;
+  document?: { id?: string | null; name?: string | null };
+  error?: string;
+  error_codes?: string[];
+}
+
+export interface HttpAuditEntry extends HttpCallRecord {
+  type: 'http';
+  timestamp: string;
+  call_id: string | null;
+  company: string;
+}
+
+export type AuditEntry = ToolAuditEntry | HttpAuditEntry;
+
+export interface AuditSearchFilters {
+  date_start?: string;
+  date_end?: string;
+  tool?: string;
+  document_id?: string;
+  error_code?: string;
+  company?: string;
+  // Profiles the caller may see; entries of other profiles are left out
+  companies?: string[];
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = join(homedir(), '.mcp-server-siigo', 'audit.jsonl');
+
+const DEFAULT_SEARCH_LIMIT = 100;
+const REDACTED = '[REDACTED]';
+const SECRET_FIELDS = /^(access_key|access_token|authorization|password|secret|token)$/i;
+const BEARER_TOKEN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/g;
+
+/**
+ * Copy of a value with credential fields and bearer tokens replaced
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(BEARER_TOKEN, `Bearer ${REDACTED}`);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_FIELDS.test(key) ? REDACTED : redact(field)])
+    );
+  }
+  return value;
+}
+
+export class AuditLog {
+  private context = new AsyncLocalStorage<string>();
+
+  constructor(private readonly path: string = DEFAULT_AUDIT_LOG_PATH) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  /**
+   * Run a tool call so the HTTP requests it makes are tagged with its call_id
+   */
+  runTool<T>(tool: string, company: string | null, args: unknown, run: () => Promise<T>): Promise<T> {
+    const callId = randomUUID();
+    const startedAt = Date.now();
+    const entry = (outcome: 'success' | 'error'): ToolAuditEntry => ({
+      type: 'tool',
+      timestamp: new Date(startedAt).toISOString(),
+      call_id: callId,
+      tool,
+      company,
+      arguments: redact(args),
+      outcome,
+      duration_ms: Date.now() - startedAt,
+    });
+
+    return this.context.run(callId, async () => {
+      try {
+        const result = await run();
+        this.append({ ...entry('success'), document: documentOf(result) });
+        return result;
+      } catch (error) {
+        const codes = (error as { codes?: string[] }).codes;
+        this.append({
+          ...entry('error'),
+          error: String(redact(error instanceof Error ? error.message : String(error))),
+          error_codes: codes && codes.length > 0 ? codes : undefined,
+        });
+        throw error;
+      }
+    });
+  }
+
+  recordHttp(company: string, call: HttpCallRecord): void {
+    this.append({
+      type: 'http',
+      timestamp: new Date().toISOString(),
+      call_id: this.context.getStore() ?? null,
+      company,
+      ...call,
+      params: redact(call.params) as HttpCallRecord['params'],
+    });
+  }
+
+  /**
+   * Matching entries, newest first. A document filter also returns the HTTP requests
+   * of the tool calls that created or touched the document.
+   */
+  search(filters: AuditSearchFilters = {}): AuditEntry[] {
+    const entries = this.read().filter(entry =>
+      (!filters.date_start || entry.timestamp.slice(0, 10) >= filters.date_start) &&
+      (!filters.date_end || entry.timestamp.slice(0, 10) <= filters.date_end) &&
+      (!filters.company || entry.company === filters.company) &&
+      (!filters.companies || (entry.company !== null && filters.companies.includes(entry.company))));
+
+    let matches = entries.filter(entry =>
+      (!filters.tool || (entry.type === 'tool' && entry.tool === filters.tool)) &&
+      (!filters.error_code || (entry.error_codes ?? []).includes(filters.error_code)) &&
+      (!filters.document_id || mentionsDocument(entry, filters.document_id)));
+
+    if (filters.document_id && !filters.tool) {
+      const callIds = new Set(matches.filter(entry => entry.type === 'tool').map(entry => entry.call_id));
+      matches = entries.filter(entry => matches.includes(entry) || (entry.call_id !== null && callIds.has(entry.call_id)));
+    }
+
+    return matches.reverse().slice(0, filters.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  private append(entry: AuditEntry): void {
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+
+  private read(): AuditEntry[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as AuditEntry);
+  }
+}
+
+function documentOf(result: unknown): ToolAuditEntry['document'] {
+  if (result && typeof result === 'object' && ('id' in result || 'name' in result)) {
+    const { id, name } = result as { id?: unknown; name?: unknown };
+    return {
+      id: typeof id === 'string' ? id : undefined,
+      name: typeof name === 'string' ? name : undefined,
+    };
+  }
+  return undefined;
+}
+
+function mentionsDocument(entry: AuditEntry, document: string): boolean {
+  if (entry.type === 'http') {
+    return entry.endpoint.split('/').includes(document);
+  }
+  return entry.document?.id === document ||
+    entry.document?.name === document ||
+    JSON.stringify(entry.arguments ?? null).includes(JSON.stringify(document));
+}
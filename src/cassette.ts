@@ -0,0 +1,247 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { redact } from './audit-log.js';
+
+// Record/replay of Siigo API traffic. A cassette holds every HTTP interaction made by
+// SiigoClient plus the tool calls that caused them, so a failing session can be attached
+// to a ticket and re-run without network access or credentials.
+
+export const CASSETTE_MODES = ['record', 'replay'] as const;
+
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface Interaction {
+  company: string;
+  request: RecordedRequest;
+  response?: RecordedResponse;
+  error?: { code?: string; message: string };
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  recorded_at: string;
+  tool_calls: ToolCall[];
+  interactions: Interaction[];
+}
+
+const REDACTED = '[REDACTED]';
+
+export function parseCassetteMode(value: string | undefined): CassetteMode {
+  const mode = value || 'record';
+  if (!(CASSETTE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid SIIGO_CASSETTE_MODE "${mode}". Use one of: ${CASSETTE_MODES.join(', ')}`);
+  }
+  return mode as CassetteMode;
+}
+
+export class Cassette {
+  private data: CassetteFile;
+  private used = new Set<number>();
+
+  constructor(
+    private readonly path: string,
+    readonly mode: CassetteMode
+  ) {
+    if (mode === 'replay') {
+      if (!existsSync(path)) {
+        throw new Error(`Cassette not found: ${path}`);
+      }
+      this.data = JSON.parse(readFileSync(path, 'utf8'));
+    } else {
+      this.data = { version: 1, recorded_at: new Date().toISOString(), tool_calls: [], interactions: [] };
+    }
+  }
+
+  get toolCalls(): ToolCall[] {
+    return this.data.tool_calls;
+  }
+
+  /**
+   * Companies that appear in the recorded traffic, used to build placeholder profiles on replay
+   */
+  get companies(): string[] {
+    return [...new Set(this.data.interactions.map(interaction => interaction.company))];
+  }
+
+  /**
+   * Axios adapter that records through the default adapter or serves recorded responses
+   */
+  adapter(company: string): AxiosAdapter {
+    if (this.mode === 'replay') {
+      return config => this.replay(company, config);
+    }
+
+    const network = axios.getAdapter(axios.defaults.adapter);
+    return async config => {
+      const request = this.redactRequest(config);
+      try {
+        const response = await network(config);
+        this.append({ company, request, response: this.redactResponse(config, response) });
+        return response;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        this.append({
+          company,
+          request,
+          response: axiosError.response ? this.redactResponse(config, axiosError.response) : undefined,
+          error: axiosError.response ? undefined : { code: axiosError.code, message: axiosError.message },
+        });
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Append a tool call with its credentials redacted, like the /auth traffic: the result of
+   * siigo_authenticate carries the access token
+   */
+  recordToolCall(call: ToolCall): void {
+    if (this.mode === 'record') {
+      this.data.tool_calls.push(redactToolCall(call));
+      this.save();
+    }
+  }
+
+  private append(interaction: Interaction): void {
+    this.data.interactions.push(interaction);
+    this.save();
+  }
+
+  // Written after every interaction so a crash still leaves a usable cassette
+  private save(): void {
+    writeFileSync(this.path, JSON.stringify(this.data, null, 2));
+  }
+
+  private async replay(company: string, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const request = this.redactRequest(config);
+    const index = this.findInteraction(company, request);
+    if (index === -1) {
+      throw new Error(`Cassette has no recorded response for ${request.method} ${request.url} (company ${company})`);
+    }
+    this.used.add(index);
+
+    const interaction = this.data.interactions[index];
+    if (!interaction.response) {
+      throw new AxiosError(interaction.error?.message ?? 'Network Error', interaction.error?.code, config);
+    }
+
+    const response: AxiosResponse = {
+      data: interaction.response.body,
+      status: interaction.response.status,
+      statusText: '',
+      headers: interaction.response.headers,
+      config,
+    };
+    const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      const code = response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+      throw new AxiosError(`Request failed with status code ${response.status}`, code, config, undefined, response);
+    }
+    return response;
+  }
+
+  /**
+   * First unused interaction with the same method, URL, params and body, falling back
+   * to the same method and URL so payloads with volatile fields still replay in order
+   */
+  private findInteraction(company: string, request: RecordedRequest): number {
+    const candidates = this.data.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) =>
+        !this.used.has(index) &&
+        interaction.company === company &&
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url);
+
+    const exact = candidates.find(({ interaction }) =>
+      JSON.stringify(interaction.request.params ?? null) === JSON.stringify(request.params ?? null) &&
+      JSON.stringify(interaction.request.body ?? null) === JSON.stringify(request.body ?? null));
+
+    return (exact ?? candidates[0])?.index ?? -1;
+  }
+
+  private redactRequest(config: InternalAxiosRequestConfig): RecordedRequest {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers?.toJSON() ?? {})) {
+      headers[name] = name.toLowerCase() === 'authorization' ? REDACTED : String(value);
+    }
+
+    let body: unknown = config.data;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Keep non-JSON bodies as sent
+      }
+    }
+    if (this.isAuth(config) && body && typeof body === 'object') {
+      body = { ...body, username: REDACTED, access_key: REDACTED };
+    }
+
+    return {
+      method: (config.method ?? 'get').toUpperCase(),
+      url: config.url ?? '',
+      params: config.params,
+      headers,
+      body,
+    };
+  }
+
+  private redactResponse(config: InternalAxiosRequestConfig, response: AxiosResponse): RecordedResponse {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers ?? {})) {
+      headers[name] = String(value);
+    }
+
+    let body: unknown = response.data;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Keep non-JSON bodies as received
+      }
+    }
+    if (this.isAuth(config) && body && typeof body === 'object' && 'access_token' in body) {
+      body = { ...body, access_token: REDACTED };
+    }
+
+    return { status: response.status, headers, body };
+  }
+
+  private isAuth(config: InternalAxiosRequestConfig): boolean {
+    return (config.url ?? '').replace(/\/+$/, '').endsWith('/auth');
+  }
+}
+
+/**
+ * Copy of a tool call with credential fields and bearer tokens replaced, as it is recorded
+ */
+export function redactToolCall(call: ToolCall): ToolCall {
+  return {
+    name: call.name,
+    arguments: redact(call.arguments) as Record<string, unknown>,
+    ...('result' in call ? { result: redact(call.result) } : {}),
+    ...(call.error !== undefined ? { error: String(redact(call.error)) } : {}),
+  };
+}
@@ -0,0 +1,83 @@
+// In-memory cache for Siigo catalogs (taxes, document types, warehouses...). They rarely
+// change, so serving them from memory keeps them from spending the per-company request budget.
+
+export const CATALOGS = [
+  'taxes',
+  'users',
+  'document-types',
+  'payment-types',
+  'warehouses',
+  'cost-centers',
+  'price-lists',
+  'fixed-assets',
+  'account-groups',
+] as const;
+
+export type Catalog = typeof CATALOGS[number];
+
+const MINUTE_MS = 60 * 1000;
+
+// Catalogs that are only edited from the Siigo Nube UI live longer than those
+// that change with day-to-day operation (new users, assets, account groups)
+const CATALOG_TTL_MS: Record<Catalog, number> = {
+  'taxes': 60 * MINUTE_MS,
+  'users': 15 * MINUTE_MS,
+  'document-types': 60 * MINUTE_MS,
+  'payment-types': 60 * MINUTE_MS,
+  'warehouses': 30 * MINUTE_MS,
+  'cost-centers': 30 * MINUTE_MS,
+  'price-lists': 30 * MINUTE_MS,
+  'fixed-assets': 15 * MINUTE_MS,
+  'account-groups': 15 * MINUTE_MS,
+};
+
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+export class CatalogCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Cached value for a catalog and its parameters, loading it on a miss or after the TTL.
+   * Concurrent misses share one request; failed loads are not cached.
+   */
+  get<T>(catalog: Catalog, params: Record<string, unknown> | undefined, load: () => Promise<T>): Promise<T> {
+    const key = this.key(catalog, params);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    this.entries.set(key, { expiresAt: Date.now() + CATALOG_TTL_MS[catalog], value });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Drop every cached variant of the given catalogs, or of all catalogs when omitted
+   */
+  invalidate(catalogs: readonly Catalog[] = CATALOGS): Catalog[] {
+    for (const key of [...this.entries.keys()]) {
+      if (catalogs.some(catalog => key.startsWith(`${catalog}?`))) {
+        this.entries.delete(key);
+      }
+    }
+    return [...catalogs];
+  }
+
+  private key(catalog: Catalog, params?: Record<string, unknown>): string {
+    const query = Object.keys(params ?? {})
+      .filter(name => params![name] !== undefined)
+      .sort()
+      .map(name => `${name}=${String(params![name])}`)
+      .join('&');
+    return `${catalog}?${query}`;
+  }
+}
@@ -0,0 +1,113 @@
+import { COLOMBIA_COUNTRY_CODE, DEPARTMENTS, Department, MUNICIPALITIES } from './divipola.js';
+
+// City search over the bundled DIVIPOLA codes, for siigo_search_city and for customer
+// addresses given by city name. Matching ignores case, accents and punctuation and
+// tolerates small typos ("Medelin"); "Armenia, Quindio" limits the search to a department.
+// An address takes only an exact name, so a typo never picks a different municipality.
+
+export interface CityMatch {
+  country_code: string;
+  state_code: string;
+  state_name: string;
+  city_code: string;
+  city_name: string;
+  // 1 for an exact name, lower for prefixes, partial names and typos
+  score: number;
+}
+
+export interface CitySearchOptions {
+  // Department name or code
+  state?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 10;
+// Least similarity for a name with typos to count as a match
+const MIN_SIMILARITY = 0.75;
+
+/**
+ * Municipalities matching the query, best first
+ */
+export function searchCities(query: string, options: CitySearchOptions = {}): CityMatch[] {
+  const [cityPart, statePart] = query.split(',', 2);
+  const wanted = simplify(cityPart);
+  const stateQuery = options.state ?? statePart;
+  const states = stateQuery?.trim() ? matchDepartments(stateQuery) : DEPARTMENTS;
+  if (!wanted) {
+    return [];
+  }
+
+  return MUNICIPALITIES
+    .map(municipality => {
+      const state = states.find(department => department.code === municipality.code.slice(0, 2));
+      const score = state ? Math.max(...[municipality.name, ...municipality.aliases ?? []].map(name => nameScore(wanted, simplify(name)))) : 0;
+      return {
+        country_code: COLOMBIA_COUNTRY_CODE,
+        state_code: municipality.code.slice(0, 2),
+        state_name: state?.name ?? '',
+        city_code: municipality.code,
+        city_name: municipality.name,
+        score,
+      };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.city_code.localeCompare(b.city_code))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * The municipality a name refers to: its only exact match, by name or alias. Otherwise the
+ * exact matches in several departments or, without any, the closest approximate ones, to
+ * choose from
+ */
+export function findCity(name: string, state?: string): { city?: CityMatch; matches: CityMatch[] } {
+  const matches = searchCities(name, { state, limit: MUNICIPALITIES.length });
+  const exact = matches.filter(match => match.score === 1);
+  if (exact.length === 1) {
+    return { city: exact[0], matches: exact };
+  }
+  return { matches: exact.length > 0 ? exact : matches.slice(0, DEFAULT_LIMIT) };
+}
+
+// Best matching departments only, so "Cauca" does not also select Valle del Cauca
+function matchDepartments(query: string): Department[] {
+  const wanted = simplify(query);
+  const scored = DEPARTMENTS.map(department => ({
+    department,
+    score: department.code === query.trim() ? 1 : nameScore(wanted, simplify(department.name)),
+  }));
+  const best = Math.max(...scored.map(({ score }) => score));
+  return best > 0 ? scored.filter(({ score }) => score === best).map(({ department }) => department) : [];
+}
+
+function nameScore(wanted: string, name: string): number {
+  if (name === wanted) {
+    return 1;
+  }
+  if (name.startsWith(wanted)) {
+    return 0.9;
+  }
+  if (` ${name} `.includes(` ${wanted} `)) {
+    return 0.8;
+  }
+  const similarity = 1 - distance(wanted, name) / Math.max(wanted.length, name.length);
+  return similarity >= MIN_SIMILARITY ? Math.round(similarity * 0.75 * 100) / 100 : 0;
+}
+
+// Lowercase words without accents or punctuation
+function simplify(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Levenshtein edit distance
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,372 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+// Generates src/generated/apib.ts from the "Data Structures" section (MSON) of siigoapi.apib:
+// one TypeScript interface and one zod schema per documented structure.
+//
+//   npm run generate                         regenerate from ./siigoapi.apib
+//   npm run generate -- other.apib out.ts    use another blueprint or output file
+//   npm run generate -- --check              fail when the generated file is out of date
+
+const SECTION_START = /^# Data Structures\s*$/;
+const SECTION_END = /^# Group\b/;
+const HEADING = /^#{1,2}\s+([A-Za-z_]\w*)\s*(?:\((object|enum)\))?\s*$/;
+// Type attributes in parentheses, e.g. "(number,required)" or "(array[TaxIn], required)"
+const TYPE_ATTRIBUTES = /\(\s*([A-Za-z]\w*(?:\[[A-Za-z]\w*\])?)((?:\s*,\s*[a-z]+)*)\s*\)/;
+const PRIMITIVES = ['string', 'number', 'boolean'];
+
+export interface FieldType {
+  kind: 'primitive' | 'reference' | 'array' | 'object' | 'union' | 'unknown';
+  name?: string;
+  items?: FieldType;
+  fields?: Field[];
+  variants?: FieldType[];
+}
+
+export interface Field {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  description?: string;
+}
+
+export interface Structure {
+  name: string;
+  source: string;
+  kind: 'object' | 'enum';
+  fields: Field[];
+  values: string[];
+}
+
+interface Line {
+  indent: number;
+  text: string;
+}
+
+/**
+ * Structures of the "Data Structures" section, in document order
+ */
+export function parseDataStructures(apib: string): Structure[] {
+  const lines = apib.split(/\r?\n/);
+  const start = lines.findIndex(line => SECTION_START.test(line));
+  if (start === -1) {
+    throw new Error('siigoapi.apib has no "# Data Structures" section');
+  }
+  const end = lines.findIndex((line, index) => index > start && SECTION_END.test(line));
+
+  const structures: Structure[] = [];
+  let current: { structure: Structure; body: Line[] } | null = null;
+  const flush = () => {
+    if (current) {
+      parseBody(current.structure, current.body);
+      structures.push(current.structure);
+    }
+  };
+
+  for (const raw of lines.slice(start + 1, end === -1 ? undefined : end)) {
+    const heading = raw.match(HEADING);
+    if (heading) {
+      flush();
+      current = {
+        structure: { name: typeName(heading[1]), source: heading[1], kind: heading[2] === 'enum' ? 'enum' : 'object', fields: [], values: [] },
+        body: [],
+      };
+    } else if (current && raw.trim()) {
+      current.body.push({ indent: raw.length - raw.trimStart().length, text: raw.trim() });
+    }
+  }
+  flush();
+  return structures;
+}
+
+function parseBody(structure: Structure, body: Line[]): void {
+  if (structure.kind === 'enum') {
+    for (const line of body) {
+      const value = line.text.match(/^\+\s+`([^`]+)`/);
+      if (value) {
+        structure.values.push(value[1]);
+      }
+    }
+    return;
+  }
+  structure.fields = parseFields(body, 0);
+}
+
+/**
+ * Member lines at the given indentation, with the more indented lines below each one
+ * describing its nested object or array items
+ */
+function parseFields(lines: Line[], indent: number): Field[] {
+  const fields: Field[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.indent !== indent || !line.text.startsWith('+')) {
+      continue;
+    }
+    const children: Line[] = [];
+    while (index + 1 < lines.length && lines[index + 1].indent > indent) {
+      children.push(lines[++index]);
+    }
+    const field = parseField(line.text, children);
+    if (field) {
+      fields.push(field);
+    }
+  }
+  return fields;
+}
+
+function parseField(text: string, children: Line[]): Field | null {
+  const member = text.match(/^\+\s+(`?)([A-Za-z_]\w*)\1\s*(:?)\s*(.*)$/);
+  if (!member) {
+    return null;
+  }
+  const [, , name, hasSample, rest] = member;
+  const attributes = rest.match(TYPE_ATTRIBUTES);
+  const flags = attributes ? attributes[2].split(',').map(flag => flag.trim()) : [];
+  const description = (attributes ? rest.slice(rest.indexOf(attributes[0]) + attributes[0].length) : '')
+    .replace(/^\s*-\s*/, '')
+    .trim();
+
+  let type: FieldType;
+  if (attributes?.[1] === 'enum') {
+    // Inline enums list no values; the sample still tells the member type
+    type = { kind: 'primitive', name: inferType(rest.slice(0, rest.indexOf(attributes[0]))) };
+  } else if (attributes) {
+    type = parseType(attributes[1], children);
+  } else if (hasSample) {
+    type = { kind: 'primitive', name: inferType(rest) };
+  } else {
+    type = { kind: 'unknown' };
+  }
+
+  return { name, type, required: flags.includes('required'), description: description || undefined };
+}
+
+function parseType(declared: string, children: Line[]): FieldType {
+  const array = declared.match(/^array(?:\[(\w+)\])?$/);
+  if (array) {
+    if (array[1]) {
+      return { kind: 'array', items: parseType(array[1], []) };
+    }
+    // "+ (object)" children describe the shapes the array items can take
+    const indent = children[0]?.indent ?? 0;
+    const variants = children
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => line.indent === indent && /^\+\s+\(object\)/.test(line.text))
+      .map(({ index }, position, all) => {
+        const end = all[position + 1]?.index ?? children.length;
+        const nested = children.slice(index + 1, end);
+        return { kind: 'object', fields: parseFields(nested, nested[0]?.indent ?? 0) } as FieldType;
+      });
+    const items: FieldType = variants.length === 0
+      ? { kind: 'unknown' }
+      : variants.length === 1 ? variants[0] : { kind: 'union', variants };
+    return { kind: 'array', items };
+  }
+  if (PRIMITIVES.includes(declared)) {
+    return { kind: 'primitive', name: declared };
+  }
+  if (declared === 'object') {
+    return { kind: 'unknown' };
+  }
+  return { kind: 'reference', name: typeName(declared) };
+}
+
+// MSON members without a type are strings unless the sample says otherwise
+function inferType(sample: string): string {
+  const value = sample.replace(/[`",]/g, '').trim();
+  if (/^(true|false)$/.test(value)) {
+    return 'boolean';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return 'number';
+  }
+  return 'string';
+}
+
+function typeName(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// ==================== OUTPUT ====================
+
+/**
+ * Source of src/generated/apib.ts for the given structures
+ */
+export function render(structures: Structure[]): string {
+  const known = new Set(structures.map(structure => structure.name));
+  const out: string[] = [
+    '// Generated by src/codegen/generate-apib.ts from the "Data Structures" section of siigoapi.apib.',
+    '// Do not edit by hand: update siigoapi.apib and run `npm run generate`.',
+    '',
+    "import { z } from 'zod';",
+    '',
+    '// ==================== TYPES ====================',
+  ];
+
+  for (const structure of structures) {
+    out.push('');
+    if (structure.kind === 'enum') {
+      out.push(`export type ${structure.name} = ${structure.values.map(value => `'${value}'`).join(' | ') || 'never'};`);
+    } else {
+      out.push(`export interface ${structure.name} ${tsObject(structure.fields, known, '')}`);
+    }
+  }
+
+  out.push('', '// ==================== SCHEMAS ====================');
+  for (const structure of sortByDependencies(structures, known)) {
+    out.push('');
+    if (structure.kind === 'enum') {
+      out.push(`export const ${structure.name}Schema = z.enum([${structure.values.map(value => `'${value}'`).join(', ')}]);`);
+    } else {
+      out.push(`export const ${structure.name}Schema = ${zodObject(structure.fields, known, '')};`);
+    }
+  }
+  out.push('');
+  return out.join('\n');
+}
+
+function tsObject(fields: Field[], known: Set<string>, indent: string): string {
+  if (fields.length === 0) {
+    return '{}';
+  }
+  const lines = ['{'];
+  for (const field of fields) {
+    if (field.description) {
+      lines.push(`${indent}  /** ${field.description.replace(/\*\//g, '* /')} */`);
+    }
+    lines.push(`${indent}  ${key(field.name)}${field.required ? '' : '?'}: ${tsType(field.type, known, `${indent}  `)};`);
+  }
+  lines.push(`${indent}}`);
+  return lines.join('\n');
+}
+
+function tsType(type: FieldType, known: Set<string>, indent: string): string {
+  switch (type.kind) {
+    case 'primitive':
+      return type.name!;
+    case 'reference':
+      return known.has(type.name!) ? type.name! : 'unknown';
+    case 'array': {
+      const items = tsType(type.items!, known, indent);
+      return /^\w+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+    }
+    case 'object':
+      return tsObject(type.fields!, known, indent);
+    case 'union':
+      return type.variants!.map(variant => tsType(variant, known, indent)).join(' | ');
+    default:
+      return 'unknown';
+  }
+}
+
+function zodObject(fields: Field[], known: Set<string>, indent: string): string {
+  if (fields.length === 0) {
+    return 'z.object({})';
+  }
+  const lines = ['z.object({'];
+  for (const field of fields) {
+    const schema = zodType(field.type, known, `${indent}  `);
+    lines.push(`${indent}  ${key(field.name)}: ${schema}${field.required ? '' : '.optional()'},`);
+  }
+  lines.push(`${indent}})`);
+  return lines.join('\n');
+}
+
+function zodType(type: FieldType, known: Set<string>, indent: string): string {
+  switch (type.kind) {
+    case 'primitive':
+      return `z.${type.name}()`;
+    case 'reference':
+      return known.has(type.name!) ? `${type.name}Schema` : 'z.unknown()';
+    case 'array':
+      return `z.array(${zodType(type.items!, known, indent)})`;
+    case 'object':
+      return zodObject(type.fields!, known, indent);
+    case 'union':
+      return `z.union([${type.variants!.map(variant => zodType(variant, known, indent)).join(', ')}])`;
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Schemas are constants, so each one must come after the schemas it references
+ */
+function sortByDependencies(structures: Structure[], known: Set<string>): Structure[] {
+  const byName = new Map(structures.map(structure => [structure.name, structure]));
+  const sorted: Structure[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (structure: Structure) => {
+    if (done.has(structure.name)) {
+      return;
+    }
+    if (visiting.has(structure.name)) {
+      throw new Error(`Circular data structure reference at ${structure.source}`);
+    }
+    visiting.add(structure.name);
+    for (const dependency of dependencies(structure.fields.map(field => field.type))) {
+      if (known.has(dependency)) {
+        visit(byName.get(dependency)!);
+      }
+    }
+    visiting.delete(structure.name);
+    done.add(structure.name);
+    sorted.push(structure);
+  };
+
+  structures.forEach(visit);
+  return sorted;
+}
+
+function dependencies(types: FieldType[]): string[] {
+  return types.flatMap(type => {
+    switch (type.kind) {
+      case 'reference':
+        return [type.name!];
+      case 'array':
+        return dependencies([type.items!]);
+      case 'object':
+        return dependencies(type.fields!.map(field => field.type));
+      case 'union':
+        return dependencies(type.variants!);
+      default:
+        return [];
+    }
+  });
+}
+
+function key(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const [input = 'siigoapi.apib', output = 'src/generated/apib.ts'] = args.filter(arg => arg !== '--check');
+
+  const source = render(parseDataStructures(readFileSync(resolve(input), 'utf8')));
+  if (check) {
+    let current = '';
+    try {
+      current = readFileSync(resolve(output), 'utf8');
+    } catch {
+      // Missing output counts as out of date
+    }
+    if (current !== source) {
+      console.error(`${output} is out of date with ${input}. Run npm run generate.`);
+      process.exit(1);
+    }
+    console.error(`${output} is up to date`);
+    return;
+  }
+
+  writeFileSync(resolve(output), source);
+  console.error(`Wrote ${output}`);
+}
+
+if (require.main === module) {
+  main();
+}
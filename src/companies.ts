@@ -0,0 +1,165 @@
+import { readFileSync } from 'fs';
+import { SiigoClient } from './siigo-client.js';
+import { Cassette } from './cassette.js';
+import { AuditLog } from './audit-log.js';
+
+// Credential profiles for the Siigo Nube companies served by this process.
+// Each profile gets its own SiigoClient, so tokens and rate-limit budgets never mix.
+
+export interface CompanyProfile {
+  username: string;
+  access_key: string;
+  name?: string;
+  requests_per_minute?: number;
+  base_url?: string;
+}
+
+export interface CompaniesConfig {
+  default?: string;
+  base_url?: string;
+  companies: Record<string, CompanyProfile>;
+}
+
+export interface CompanySummary {
+  company: string;
+  name?: string;
+  username: string;
+  is_default: boolean;
+}
+
+// Profile name used for the single SIIGO_USERNAME/SIIGO_ACCESS_KEY pair
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Build the profile configuration from SIIGO_COMPANIES_FILE, SIIGO_COMPANIES (inline JSON)
+ * or the legacy SIIGO_USERNAME/SIIGO_ACCESS_KEY pair
+ */
+export function loadCompaniesConfig(env: NodeJS.ProcessEnv = process.env): CompaniesConfig {
+  let config: CompaniesConfig = { companies: {} };
+
+  if (env.SIIGO_COMPANIES_FILE) {
+    config = parseConfig(readFileSync(env.SIIGO_COMPANIES_FILE, 'utf8'), env.SIIGO_COMPANIES_FILE);
+  } else if (env.SIIGO_COMPANIES) {
+    config = parseConfig(env.SIIGO_COMPANIES, 'SIIGO_COMPANIES');
+  }
+
+  if (env.SIIGO_USERNAME && env.SIIGO_ACCESS_KEY && !config.companies[DEFAULT_PROFILE]) {
+    config.companies[DEFAULT_PROFILE] = {
+      username: env.SIIGO_USERNAME,
+      access_key: env.SIIGO_ACCESS_KEY,
+      requests_per_minute: Number(env.SIIGO_REQUESTS_PER_MINUTE) || undefined,
+    };
+  }
+
+  config.default = env.SIIGO_DEFAULT_COMPANY || config.default;
+  config.base_url = env.SIIGO_BASE_URL || config.base_url;
+  return config;
+}
+
+function parseConfig(json: string, source: string): CompaniesConfig {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid company profiles in ${source}: ${(error as Error).message}`);
+  }
+
+  const companies = parsed?.companies;
+  if (!companies || typeof companies !== 'object') {
+    throw new Error(`Invalid company profiles in ${source}: expected a "companies" object`);
+  }
+
+  for (const [company, profile] of Object.entries<any>(companies)) {
+    if (!profile?.username || !profile?.access_key) {
+      throw new Error(`Company profile "${company}" in ${source} requires username and access_key`);
+    }
+  }
+
+  return { default: parsed.default, base_url: parsed.base_url, companies };
+}
+
+export class CompanyRegistry {
+  private clients = new Map<string, SiigoClient>();
+  private defaultCompany: string | null;
+
+  constructor(
+    private readonly config: CompaniesConfig,
+    private readonly cassette?: Cassette,
+    private readonly auditLog?: AuditLog
+  ) {
+    const names = Object.keys(config.companies);
+    if (config.default && !config.companies[config.default]) {
+      throw new Error(`Default company "${config.default}" is not a configured profile`);
+    }
+    this.defaultCompany = config.default ?? names[0] ?? null;
+  }
+
+  /**
+   * Client for the given profile, or the default profile when omitted
+   */
+  getClient(company?: string): SiigoClient {
+    const name = this.resolve(company);
+    let client = this.clients.get(name);
+    if (!client) {
+      const profile = this.config.companies[name];
+      client = new SiigoClient(profile.username, profile.access_key, {
+        requestsPerMinute: profile.requests_per_minute,
+        baseUrl: profile.base_url ?? this.config.base_url,
+        adapter: this.cassette?.adapter(name),
+        onHttpCall: this.auditLog ? call => this.auditLog!.recordHttp(name, call) : undefined,
+      });
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+
+  list(): CompanySummary[] {
+    return Object.entries(this.config.companies).map(([company, profile]) => ({
+      company,
+      name: profile.name,
+      username: profile.username,
+      is_default: company === this.defaultCompany,
+    }));
+  }
+
+  setDefault(company: string): CompanySummary {
+    this.defaultCompany = this.resolve(company);
+    return this.list().find(summary => summary.company === this.defaultCompany)!;
+  }
+
+  /**
+   * Registry limited to the given profiles, with the first one as default. It shares this
+   * registry's clients, so tokens and rate-limit budgets are still one per profile
+   */
+  scope(companies: string[]): CompanyRegistry {
+    const profiles = companies.map(company => [company, this.config.companies[this.resolve(company)]]);
+    const scoped = new CompanyRegistry(
+      { ...this.config, default: companies[0], companies: Object.fromEntries(profiles) },
+      this.cassette,
+      this.auditLog
+    );
+    scoped.clients = this.clients;
+    return scoped;
+  }
+
+  /**
+   * Profile name for the given company, or the default profile when omitted
+   */
+  resolve(company?: string): string {
+    if (company) {
+      if (!this.config.companies[company]) {
+        const available = Object.keys(this.config.companies).join(', ') || 'none';
+        throw new Error(`Unknown company "${company}". Available companies: ${available}`);
+      }
+      return company;
+    }
+
+    if (!this.defaultCompany) {
+      throw new Error(
+        'No Siigo company configured. Set SIIGO_USERNAME and SIIGO_ACCESS_KEY, ' +
+        'or define profiles with SIIGO_COMPANIES_FILE or SIIGO_COMPANIES'
+      );
+    }
+    return this.defaultCompany;
+  }
+}
@@ -0,0 +1,254 @@
+import { createHash, randomUUID } from 'crypto';
+import { documentTotals } from './document-totals.js';
+import { normalizePayload } from './idempotency.js';
+import { InvoiceOut } from './models.js';
+import { SiigoClient } from './siigo-client.js';
+
+// Two-phase confirmation for operations that cannot be undone or that reach the DIAN.
+// With SIIGO_CONFIRMATION=on the first call only returns a preview of the affected document
+// and a short-lived token; a second call with the same arguments and the token runs the
+// operation, unless the document changed in between.
+
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+export const CONFIRMED_TOOLS = [
+  'siigo_annul_invoice',
+  'siigo_delete_invoice',
+  'siigo_delete_purchase',
+  'siigo_delete_payment_receipt',
+  'siigo_delete_product',
+  'siigo_create_invoice',
+];
+
+export interface OperationPreview {
+  action: string;
+  document: Record<string, unknown>;
+  consequences: string[];
+  // Hash of the document as read from Siigo (or of the payload for creates)
+  fingerprint: string;
+}
+
+export interface ConfirmationRequest {
+  confirmation_required: true;
+  confirmation_token: string;
+  expires_at: string;
+  action: string;
+  document: Record<string, unknown>;
+  consequences: string[];
+  next_step: string;
+}
+
+interface PendingConfirmation {
+  // The connection (stdio client or HTTP session) the preview was shown to
+  scope: object;
+  tool: string;
+  company: string;
+  operation: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Whether the call needs a confirmation token: every confirmed tool except invoice
+ * creates that are not sent to the DIAN or are only a dry run
+ */
+export function requiresConfirmation(name: string, args: any): boolean {
+  if (name === 'siigo_create_invoice') {
+    return args.stamp_send === true && !args.dry_run;
+  }
+  return CONFIRMED_TOOLS.includes(name);
+}
+
+/**
+ * Read the document the operation affects and describe what running it will do
+ */
+export async function previewOperation(client: SiigoClient, name: string, args: any): Promise<OperationPreview> {
+  switch (name) {
+    case 'siigo_annul_invoice':
+    case 'siigo_delete_invoice': {
+      const invoice = await client.getInvoice(args.id);
+      const annul = name === 'siigo_annul_invoice';
+      return {
+        action: `${annul ? 'Anular' : 'Borrar'} la factura de venta ${invoice.name ?? args.id}`,
+        document: invoiceSummary(invoice),
+        consequences: [
+          annul
+            ? 'La factura queda anulada en Siigo Nube y deja de afectar cartera, inventario y contabilidad.'
+            : 'La factura se borra de Siigo Nube junto con sus movimientos contables. No se puede deshacer.',
+          ...(invoice.stamp?.cufe
+            ? ['La factura tiene CUFE (enviada o aceptada por la DIAN): Siigo rechazara la operacion. Para reversarla emite una nota credito.']
+            : []),
+          'Siigo rechaza la operacion si la factura tiene notas credito, notas debito, recibos de caja o ajustes de cartera relacionados; se deben eliminar primero.',
+        ],
+        fingerprint: fingerprint(invoice),
+      };
+    }
+    case 'siigo_delete_purchase': {
+      const purchase = await client.getPurchase(args.id);
+      const paid = purchase.total != null && purchase.balance != null && purchase.balance < purchase.total;
+      return {
+        action: `Borrar la factura de compra ${purchase.name ?? args.id}`,
+        document: {
+          id: purchase.id,
+          name: purchase.name,
+          date: purchase.date,
+          supplier: purchase.supplier?.identification,
+          provider_invoice: purchase.provider_invoice
+            ? [purchase.provider_invoice.prefix, purchase.provider_invoice.number].filter(Boolean).join('-')
+            : undefined,
+          total: purchase.total,
+          balance: purchase.balance,
+        },
+        consequences: [
+          'La factura de compra se borra de Siigo Nube junto con sus movimientos contables y de inventario. No se puede deshacer.',
+          ...(paid ? [`Tiene pagos registrados (saldo ${purchase.balance} de ${purchase.total}); sus recibos de pago quedaran sin factura que cruzar.`] : []),
+        ],
+        fingerprint: fingerprint(purchase),
+      };
+    }
+    case 'siigo_delete_payment_receipt': {
+      const receipt = await client.getPaymentReceipt(args.id);
+      const paidInvoices = (receipt.items ?? [])
+        .filter(item => item.due?.prefix)
+        .map(item => `${item.due!.prefix}-${item.due!.consecutive}`);
+      return {
+        action: `Borrar el recibo de pago ${receipt.name ?? args.id}`,
+        document: {
+          id: receipt.id,
+          name: receipt.name,
+          date: receipt.date,
+          type: receipt.type,
+          supplier: receipt.supplier.identification,
+          value: receipt.payment?.value,
+          invoices: paidInvoices.length > 0 ? paidInvoices : undefined,
+        },
+        consequences: [
+          'El recibo de pago se borra de Siigo Nube junto con sus movimientos contables. No se puede deshacer.',
+          ...(paidInvoices.length > 0 ? [`Las facturas de compra ${paidInvoices.join(', ')} vuelven a quedar con saldo pendiente.`] : []),
+        ],
+        fingerprint: fingerprint(receipt),
+      };
+    }
+    case 'siigo_delete_product': {
+      const product = await client.getProduct(args.id);
+      return {
+        action: `Borrar el producto ${product.code} - ${product.name}`,
+        document: {
+          id: product.id,
+          code: product.code,
+          name: product.name,
+          type: product.type,
+          active: product.active,
+          available_quantity: product.available_quantity,
+        },
+        consequences: [
+          'El producto se borra del catalogo de Siigo Nube. No se puede deshacer.',
+          ...(product.available_quantity ? [`Tiene ${product.available_quantity} unidades en inventario.`] : []),
+          'Siigo rechaza el borrado si el producto ya se uso en documentos; en ese caso inactivalo con siigo_update_product (active false).',
+        ],
+        fingerprint: fingerprint(product),
+      };
+    }
+    case 'siigo_create_invoice': {
+      const totals = await documentTotals(client, 'FV', args);
+      return {
+        action: `Crear una factura de venta para ${args.customer_identification} y enviarla a la DIAN`,
+        document: {
+          document_id: args.document_id,
+          date: args.date,
+          customer: args.customer_identification,
+          items: totals.lines.map(line => ({ code: line.code, quantity: line.quantity, price: line.price, total: line.total })),
+          subtotal: totals.subtotal,
+          taxes: totals.total_taxes,
+          retentions: totals.total_retentions,
+          total: totals.total,
+          payments_total: totals.payments_total,
+        },
+        consequences: [
+          'La factura se emite como factura electronica y se envia a la DIAN.',
+          'Una vez aceptada (con CUFE) no se puede borrar ni anular: solo se corrige con una nota credito.',
+          ...(args.mail_send ? ['Siigo enviara la factura por correo al cliente.'] : []),
+          ...(totals.payments_match === false
+            ? [`Los pagos suman ${totals.payments_total} y el total calculado es ${totals.total}: Siigo rechazara la factura con invalid_total_payments.`]
+            : []),
+        ],
+        fingerprint: fingerprint(args),
+      };
+    }
+    default:
+      throw new Error(`${name} has no confirmation preview`);
+  }
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private readonly ttlMs: number = CONFIRMATION_TTL_MS) {}
+
+  /**
+   * Keep the preview of an operation and return it with the token that confirms it
+   */
+  prepare(scope: object, company: string, tool: string, args: unknown, preview: OperationPreview): ConfirmationRequest {
+    this.expire();
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { scope, tool, company, operation: fingerprint(args), fingerprint: preview.fingerprint, expiresAt });
+
+    return {
+      confirmation_required: true,
+      confirmation_token: token,
+      expires_at: new Date(expiresAt).toISOString(),
+      action: preview.action,
+      document: preview.document,
+      consequences: preview.consequences,
+      next_step: `Muestra este resumen al usuario y, si confirma, llama de nuevo a ${tool} con los mismos argumentos y confirmation_token antes de ${Math.round(this.ttlMs / 60000)} minutos.`,
+    };
+  }
+
+  /**
+   * Spend a token: it must have been issued to this same connection for this same
+   * operation, and the document must still match the preview it was issued with
+   */
+  confirm(token: string, scope: object, company: string, tool: string, args: unknown, current: OperationPreview): void {
+    this.expire();
+    const pending = this.pending.get(token);
+    // Another session's token is as unknown here as a made-up one
+    if (!pending || pending.scope !== scope) {
+      throw new Error('Confirmation token is invalid or expired. Call the tool without confirmation_token to get a new preview');
+    }
+    if (pending.tool !== tool || pending.company !== company || pending.operation !== fingerprint(args)) {
+      throw new Error(`Confirmation token was issued for a different operation. Call ${tool} without confirmation_token to get a new preview`);
+    }
+    this.pending.delete(token);
+    if (pending.fingerprint !== current.fingerprint) {
+      throw new Error('The document changed after the preview was shown, so the confirmation token was rejected. Review the new preview and confirm again');
+    }
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+function invoiceSummary(invoice: InvoiceOut): Record<string, unknown> {
+  return {
+    id: invoice.id,
+    name: invoice.name,
+    date: invoice.date,
+    customer: invoice.customer?.identification,
+    total: invoice.total,
+    balance: invoice.balance,
+    stamp_status: invoice.stamp?.status ?? 'sin enviar',
+    cufe: invoice.stamp?.cufe,
+    mail_status: invoice.mail?.status,
+  };
+}
+
+function fingerprint(value: unknown): string {
+  return createHash('sha256').update(normalizePayload(value)).digest('hex');
+}
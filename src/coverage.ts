@@ -0,0 +1,496 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { FieldType, Structure, parseDataStructures } from './codegen/generate-apib.js';
+import { SiigoClient } from './siigo-client.js';
+
+// Coverage of the Siigo API by this server: every action documented in siigoapi.apib is
+// matched against the tool that calls it and the SiigoClient method behind that tool,
+// reporting missing endpoints, documented parameters a tool does not accept, and enums
+// whose values differ from the documented ones.
+
+export const DEFAULT_APIB_PATH = join(__dirname, '..', 'siigoapi.apib');
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface ToolEndpoint {
+  method: Method;
+  path: string;
+  client: string;
+  // Request fields the server fills in itself instead of taking them as arguments
+  configured?: string[];
+}
+
+// Endpoint and client method behind each tool that calls the Siigo API
+const TOOL_ENDPOINTS: Record<string, ToolEndpoint> = {
+  siigo_authenticate: { method: 'POST', path: '/auth', client: 'getToken', configured: ['username', 'access_key'] },
+  siigo_list_products: { method: 'GET', path: '/v1/products', client: 'listProducts' },
+  siigo_get_product: { method: 'GET', path: '/v1/products/{id}', client: 'getProduct' },
+  siigo_create_product: { method: 'POST', path: '/v1/products', client: 'createProduct' },
+  siigo_update_product: { method: 'PUT', path: '/v1/products/{id}', client: 'updateProduct' },
+  siigo_delete_product: { method: 'DELETE', path: '/v1/products/{id}', client: 'deleteProduct' },
+  siigo_get_account_groups: { method: 'GET', path: '/v1/account-groups', client: 'getAccountGroups' },
+  siigo_create_account_group: { method: 'POST', path: '/v1/account-groups', client: 'createAccountGroup' },
+  siigo_update_account_group: { method: 'PUT', path: '/v1/account-groups/{id}', client: 'updateAccountGroup' },
+  siigo_list_customers: { method: 'GET', path: '/v1/customers', client: 'listCustomers' },
+  siigo_get_customer: { method: 'GET', path: '/v1/customers/{id}', client: 'getCustomer' },
+  siigo_create_customer: { method: 'POST', path: '/v1/customers', client: 'createCustomer' },
+  siigo_update_customer: { method: 'PUT', path: '/v1/customers/{id}', client: 'updateCustomer' },
+  siigo_list_invoices: { method: 'GET', path: '/v1/invoices', client: 'listInvoices' },
+  siigo_get_invoice: { method: 'GET', path: '/v1/invoices/{id}', client: 'getInvoice' },
+  siigo_create_invoice: { method: 'POST', path: '/v1/invoices', client: 'createInvoice' },
+  siigo_update_invoice: { method: 'PUT', path: '/v1/invoices/{id}', client: 'updateInvoice' },
+  siigo_delete_invoice: { method: 'DELETE', path: '/v1/invoices/{id}', client: 'deleteInvoice' },
+  siigo_annul_invoice: { method: 'POST', path: '/v1/invoices/{id}/annul', client: 'annulInvoice' },
+  siigo_get_invoice_pdf: { method: 'GET', path: '/v1/invoices/{id}/pdf', client: 'getInvoicePdf' },
+  siigo_get_invoice_xml: { method: 'GET', path: '/v1/invoices/{id}/xml', client: 'getInvoiceXml' },
+  siigo_send_invoice_email: { method: 'POST', path: '/v1/invoices/{id}/mail', client: 'sendInvoiceEmail' },
+  siigo_get_invoice_stamp_errors: { method: 'GET', path: '/v1/invoices/{id}/stamp/errors', client: 'getInvoiceStampErrors' },
+  siigo_create_invoice_batch: { method: 'POST', path: '/v1/invoices/batch', client: 'createInvoiceBatch' },
+  siigo_list_quotations: { method: 'GET', path: '/v1/quotations', client: 'listQuotations' },
+  siigo_get_quotation: { method: 'GET', path: '/v1/quotations/{id}', client: 'getQuotation' },
+  siigo_create_quotation: { method: 'POST', path: '/v1/quotations', client: 'createQuotation' },
+  siigo_update_quotation: { method: 'PUT', path: '/v1/quotations/{id}', client: 'updateQuotation' },
+  siigo_delete_quotation: { method: 'DELETE', path: '/v1/quotations/{id}', client: 'deleteQuotation' },
+  siigo_list_credit_notes: { method: 'GET', path: '/v1/credit-notes', client: 'listCreditNotes' },
+  siigo_get_credit_note: { method: 'GET', path: '/v1/credit-notes/{id}', client: 'getCreditNote' },
+  siigo_create_credit_note: { method: 'POST', path: '/v1/credit-notes', client: 'createCreditNote' },
+  siigo_get_credit_note_pdf: { method: 'GET', path: '/v1/credit-notes/{id}/pdf', client: 'getCreditNotePdf' },
+  siigo_list_purchases: { method: 'GET', path: '/v1/purchases', client: 'listPurchases' },
+  siigo_get_purchase: { method: 'GET', path: '/v1/purchases/{id}', client: 'getPurchase' },
+  siigo_create_purchase: { method: 'POST', path: '/v1/purchases', client: 'createPurchase' },
+  siigo_update_purchase: { method: 'PUT', path: '/v1/purchases/{id}', client: 'updatePurchase' },
+  siigo_delete_purchase: { method: 'DELETE', path: '/v1/purchases/{id}', client: 'deletePurchase' },
+  siigo_list_vouchers: { method: 'GET', path: '/v1/vouchers', client: 'listVouchers' },
+  siigo_get_voucher: { method: 'GET', path: '/v1/vouchers/{id}', client: 'getVoucher' },
+  siigo_create_voucher: { method: 'POST', path: '/v1/vouchers', client: 'createVoucher' },
+  siigo_list_payment_receipts: { method: 'GET', path: '/v1/payment-receipts', client: 'listPaymentReceipts' },
+  siigo_get_payment_receipt: { method: 'GET', path: '/v1/payment-receipts/{id}', client: 'getPaymentReceipt' },
+  siigo_create_payment_receipt: { method: 'POST', path: '/v1/payment-receipts', client: 'createPaymentReceipt' },
+  siigo_delete_payment_receipt: { method: 'DELETE', path: '/v1/payment-receipts/{id}', client: 'deletePaymentReceipt' },
+  siigo_list_journals: { method: 'GET', path: '/v1/journals', client: 'listJournals' },
+  siigo_create_journal: { method: 'POST', path: '/v1/journals', client: 'createJournal' },
+  siigo_test_balance_report: { method: 'POST', path: '/v1/test-balance-report', client: 'generateTestBalanceReport' },
+  siigo_test_balance_by_thirdparty: { method: 'POST', path: '/v1/test-balance-report-by-thirdparty', client: 'generateTestBalanceByThirdParty' },
+  siigo_accounts_payable: { method: 'GET', path: '/v1/accounts-payable', client: 'getAccountsPayable' },
+  siigo_get_taxes: { method: 'GET', path: '/v1/taxes', client: 'getTaxes' },
+  siigo_get_users: { method: 'GET', path: '/v1/users', client: 'getUsers' },
+  siigo_get_document_types: { method: 'GET', path: '/v1/document-types', client: 'getDocumentTypes' },
+  siigo_get_payment_types: { method: 'GET', path: '/v1/payment-types', client: 'getPaymentTypes' },
+  siigo_get_warehouses: { method: 'GET', path: '/v1/warehouses', client: 'getWarehouses' },
+  siigo_get_cost_centers: { method: 'GET', path: '/v1/cost-centers', client: 'getCostCenters' },
+  siigo_get_price_lists: { method: 'GET', path: '/v1/price-lists', client: 'getPriceLists' },
+  siigo_get_fixed_assets: { method: 'GET', path: '/v1/fixed-assets', client: 'getFixedAssets' },
+  siigo_list_webhooks: { method: 'GET', path: '/v1/webhooks', client: 'listWebhooks' },
+  siigo_create_webhook: { method: 'POST', path: '/v1/webhooks', client: 'createWebhook' },
+  siigo_update_webhook: { method: 'PUT', path: '/v1/webhooks/{id}', client: 'updateWebhook' },
+  siigo_delete_webhook: { method: 'DELETE', path: '/v1/webhooks/{id}', client: 'deleteWebhook' },
+};
+
+// Tools answered by the server itself, without calling the Siigo API
+const LOCAL_TOOLS = [
+  'siigo_list_companies',
+  'siigo_set_default_company',
+  'siigo_get_rate_limit_status',
+  'siigo_audit_search',
+  'siigo_coverage_report',
+  'siigo_refresh_catalogs',
+  'siigo_calculate_taxes',
+  'siigo_validate_identification',
+  'siigo_search_city',
+];
+
+// Actions whose documented path has a typo, with the path the API actually serves
+const PATH_ERRATA: Record<string, string> = {
+  'Borrar Cotización': '/v1/quotations/{id}',
+  'Borrar Factura de compra': '/v1/purchases/{id}',
+  'Editar un webhook': '/v1/webhooks/{id}',
+};
+
+// Query parameters whose table row names them differently from the example request
+const QUERY_PARAMETER_ERRATA: Record<string, string> = {
+  'GET /v1/products id': 'ids',
+};
+
+// Enum values an endpoint table documents but its enum structure leaves out
+const ENUM_ERRATA: Record<string, string[]> = {
+  ProductType: ['Combo'],
+};
+
+// Paths whose actions title their response field table "Query Parameters"
+const RESPONSE_FIELD_TABLES = ['/v1/document-types'];
+
+const GROUP = /^# Group\s+(.+?)\s*$/;
+const ACTION = /^##\s+(.+?)\s*\[(GET|POST|PUT|DELETE)\s+(\S+)\]\s*$/;
+const ATTRIBUTES = /^\s*\+ Attributes \((?:array\[)?(\w+)\]?\)/;
+const QUERY_ROW = /^\*\*(\w+)\*\*\s*\|/;
+
+export interface DocumentedAction {
+  group: string;
+  name: string;
+  method: Method;
+  path: string;
+  documented_path: string;
+  query_parameters: string[];
+  request_structure?: string;
+  request_fields: string[];
+  response_structure?: string;
+}
+
+export interface CoveredEndpoint {
+  method: Method;
+  path: string;
+  actions: string[];
+  query_parameters: string[];
+  request_fields: string[];
+  tools: string[];
+  client_methods: string[];
+}
+
+export interface CoverageReport {
+  source: string;
+  summary: {
+    documented_endpoints: number;
+    covered_endpoints: number;
+    missing_endpoints: number;
+    missing_parameters: number;
+    enum_mismatches: number;
+    undocumented_endpoints: number;
+    unmapped_tools: number;
+    missing_client_methods: number;
+  };
+  endpoints: CoveredEndpoint[];
+  missing_endpoints: Array<{ method: Method; path: string; actions: string[] }>;
+  missing_parameters: Array<{ tool: string; method: Method; path: string; location: 'query' | 'body'; parameter: string }>;
+  enum_mismatches: Array<{
+    tool: string;
+    parameter: string;
+    structure: string;
+    documented: string[];
+    tool_values: string[];
+  }>;
+  undocumented_endpoints: Array<{ tool: string; method: Method; path: string }>;
+  unmapped_tools: string[];
+  missing_client_methods: Array<{ tool: string; client: string }>;
+}
+
+interface DocumentedEnum {
+  structures: string[];
+  values: string[];
+}
+
+interface JsonSchema {
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+/**
+ * Every resource action of the blueprint with its query parameters and request fields
+ */
+export function parseActions(apib: string, structures: Structure[] = parseDataStructures(apib)): DocumentedAction[] {
+  const byName = new Map(structures.map(structure => [structure.name, structure]));
+  const actions: DocumentedAction[] = [];
+  let group = '';
+  let current: DocumentedAction | null = null;
+  let section: 'description' | 'query' | 'request' | 'response' = 'description';
+  let queryRows = false;
+
+  for (const line of apib.split(/\r?\n/)) {
+    const groupHeading = line.match(GROUP);
+    if (groupHeading) {
+      group = groupHeading[1];
+      current = null;
+      continue;
+    }
+    const action = line.match(ACTION);
+    if (action) {
+      const [, name, method, documentedPath] = action;
+      current = {
+        group,
+        name,
+        method: method as Method,
+        path: PATH_ERRATA[name] ?? normalizePath(documentedPath),
+        documented_path: documentedPath,
+        query_parameters: queryParameters(documentedPath),
+        request_fields: [],
+      };
+      actions.push(current);
+      section = 'description';
+      queryRows = false;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    if (/^\*\*Query Parameters\*\*/.test(line) && !RESPONSE_FIELD_TABLES.includes(current.path)) {
+      section = 'query';
+    } else if (/^\+ Request\b/.test(line)) {
+      section = 'request';
+    } else if (/^\+ Response\b/.test(line)) {
+      section = 'response';
+    } else if (section === 'query') {
+      // The parameter table ends at the first line after its rows that is not a row
+      const row = line.match(QUERY_ROW);
+      if (row) {
+        queryRows = true;
+        addUnique(current.query_parameters, QUERY_PARAMETER_ERRATA[`${current.method} ${current.path} ${row[1]}`] ?? row[1]);
+      } else if (queryRows && !line.includes('|')) {
+        section = 'description';
+      }
+    } else {
+      const attributes = line.match(ATTRIBUTES);
+      // Some GET actions document an example body; only writes send one
+      if (attributes && section === 'request' && current.method !== 'GET' && !current.request_structure) {
+        current.request_structure = attributes[1];
+        current.request_fields = fieldPaths(byName.get(structureName(attributes[1])), byName);
+      } else if (attributes && section === 'response' && !current.response_structure) {
+        current.response_structure = attributes[1];
+      }
+    }
+  }
+  return actions;
+}
+
+/**
+ * Cross-reference the documented actions with the tools and the SiigoClient methods
+ */
+export function buildCoverageReport(
+  apib: string,
+  tools: Tool[],
+  clientMethods: string[] = Object.getOwnPropertyNames(SiigoClient.prototype),
+  source = DEFAULT_APIB_PATH
+): CoverageReport {
+  const structures = parseDataStructures(apib);
+  const byName = new Map(structures.map(structure => [structure.name, structure]));
+  const actions = parseActions(apib, structures);
+
+  // Actions documented more than once (per document type, simple and advanced) share an endpoint
+  const endpoints = new Map<string, CoveredEndpoint>();
+  for (const action of actions) {
+    const key = `${action.method} ${action.path}`;
+    const endpoint = endpoints.get(key) ?? {
+      method: action.method,
+      path: action.path,
+      actions: [],
+      query_parameters: [],
+      request_fields: [],
+      tools: [],
+      client_methods: [],
+    };
+    endpoint.actions.push(action.name);
+    action.query_parameters.forEach(parameter => addUnique(endpoint.query_parameters, parameter));
+    action.request_fields.forEach(field => addUnique(endpoint.request_fields, field));
+    endpoints.set(key, endpoint);
+  }
+
+  const report: CoverageReport = {
+    source,
+    summary: {
+      documented_endpoints: endpoints.size,
+      covered_endpoints: 0,
+      missing_endpoints: 0,
+      missing_parameters: 0,
+      enum_mismatches: 0,
+      undocumented_endpoints: 0,
+      unmapped_tools: 0,
+      missing_client_methods: 0,
+    },
+    endpoints: [...endpoints.values()],
+    missing_endpoints: [],
+    missing_parameters: [],
+    enum_mismatches: [],
+    undocumented_endpoints: [],
+    unmapped_tools: [],
+    missing_client_methods: [],
+  };
+
+  for (const tool of tools) {
+    const target = TOOL_ENDPOINTS[tool.name];
+    if (!target) {
+      if (!LOCAL_TOOLS.includes(tool.name)) {
+        report.unmapped_tools.push(tool.name);
+      }
+      continue;
+    }
+    if (!clientMethods.includes(target.client)) {
+      report.missing_client_methods.push({ tool: tool.name, client: target.client });
+    }
+
+    const endpoint = endpoints.get(`${target.method} ${target.path}`);
+    if (!endpoint) {
+      report.undocumented_endpoints.push({ tool: tool.name, method: target.method, path: target.path });
+      continue;
+    }
+    endpoint.tools.push(tool.name);
+    addUnique(endpoint.client_methods, target.client);
+
+    const properties = Object.keys((tool.inputSchema as JsonSchema).properties ?? {});
+    for (const parameter of endpoint.query_parameters) {
+      if (!properties.includes(parameter)) {
+        report.missing_parameters.push({ tool: tool.name, method: target.method, path: target.path, location: 'query', parameter });
+      }
+    }
+    const bodyFields = endpoint.request_fields.filter(field => !field.includes('.'));
+    for (const field of bodyFields) {
+      if (!target.configured?.includes(field) && !properties.some(property => coversField(property, field))) {
+        report.missing_parameters.push({ tool: tool.name, method: target.method, path: target.path, location: 'body', parameter: field });
+      }
+    }
+
+    const documentedEnums = new Map<string, DocumentedEnum>();
+    for (const action of actions.filter(action => action.method === target.method && action.path === target.path)) {
+      const structure = action.request_structure ? byName.get(structureName(action.request_structure)) : undefined;
+      if (structure) {
+        collectEnums(structure.fields.map(field => ({ path: field.name, type: field.type })), byName, documentedEnums, new Set([structure.name]));
+      }
+    }
+    for (const [parameter, values] of toolEnums(tool.inputSchema as JsonSchema, '')) {
+      const documented = documentedEnums.get(parameter);
+      if (documented && !sameValues(documented.values, values)) {
+        report.enum_mismatches.push({ tool: tool.name, parameter, structure: documented.structures.join(', '), documented: documented.values, tool_values: values });
+      }
+    }
+  }
+
+  report.missing_endpoints = report.endpoints
+    .filter(endpoint => endpoint.tools.length === 0)
+    .map(({ method, path, actions }) => ({ method, path, actions }));
+
+  report.summary.covered_endpoints = report.endpoints.length - report.missing_endpoints.length;
+  report.summary.missing_endpoints = report.missing_endpoints.length;
+  report.summary.missing_parameters = report.missing_parameters.length;
+  report.summary.enum_mismatches = report.enum_mismatches.length;
+  report.summary.undocumented_endpoints = report.undocumented_endpoints.length;
+  report.summary.unmapped_tools = report.unmapped_tools.length;
+  report.summary.missing_client_methods = report.missing_client_methods.length;
+  return report;
+}
+
+/**
+ * Coverage report for the blueprint at the given path
+ */
+export function coverageReport(tools: Tool[], path: string = DEFAULT_APIB_PATH): CoverageReport {
+  return buildCoverageReport(readFileSync(path, 'utf8'), tools, undefined, path);
+}
+
+/**
+ * Blueprint paths use placeholders such as {product_id}, id, id_ or a trailing slash;
+ * they all become /resource/{id}
+ */
+function normalizePath(documented: string): string {
+  const path = documented.replace(/\{\?[\w,]*\}$/, '').split('?')[0];
+  return '/' + path
+    .split('/')
+    .filter(segment => segment)
+    .map(segment => /^(\{\w+\}|id_?)$/.test(segment) ? '{id}' : segment.toLowerCase())
+    .join('/');
+}
+
+// Query parameters written in the path itself, e.g. {?created_start} or ?type=FV
+function queryParameters(documented: string): string[] {
+  const template = documented.match(/\{\?([\w,]+)\}/);
+  if (template) {
+    return template[1].split(',');
+  }
+  const query = documented.split('?')[1];
+  return query ? query.split('&').map(pair => pair.split('=')[0]) : [];
+}
+
+// Dotted paths of the fields of a structure, nested objects included
+function fieldPaths(structure: Structure | undefined, byName: Map<string, Structure>, prefix = '', seen = new Set<string>()): string[] {
+  if (!structure || structure.kind !== 'object' || seen.has(structure.name)) {
+    return [];
+  }
+  const nextSeen = new Set(seen).add(structure.name);
+  return structure.fields.flatMap(field => {
+    const path = `${prefix}${field.name}`;
+    return [path, ...nestedPaths(field.type, byName, `${path}.`, nextSeen)];
+  });
+}
+
+function nestedPaths(type: FieldType, byName: Map<string, Structure>, prefix: string, seen: Set<string>): string[] {
+  switch (type.kind) {
+    case 'reference':
+      return fieldPaths(byName.get(type.name!), byName, prefix, seen);
+    case 'array':
+      return nestedPaths(type.items!, byName, prefix, seen);
+    case 'object':
+      return type.fields!.flatMap(field => [`${prefix}${field.name}`, ...nestedPaths(field.type, byName, `${prefix}${field.name}.`, seen)]);
+    case 'union':
+      return [...new Set(type.variants!.flatMap(variant => nestedPaths(variant, byName, prefix, seen)))];
+    default:
+      return [];
+  }
+}
+
+// Documented enum values of each dotted field path. Actions that share an endpoint
+// (simple and advanced vouchers) add up their values.
+function collectEnums(
+  fields: Array<{ path: string; type: FieldType }>,
+  byName: Map<string, Structure>,
+  enums: Map<string, DocumentedEnum>,
+  seen: Set<string>
+): void {
+  for (const { path, type } of fields) {
+    switch (type.kind) {
+      case 'reference': {
+        const structure = byName.get(type.name!);
+        if (structure?.kind === 'enum') {
+          const documented = enums.get(path) ?? { structures: [], values: [] };
+          addUnique(documented.structures, structure.source);
+          [...structure.values, ...ENUM_ERRATA[structure.source] ?? []].forEach(value => addUnique(documented.values, value));
+          enums.set(path, documented);
+        } else if (structure && !seen.has(structure.name)) {
+          collectEnums(structure.fields.map(field => ({ path: `${path}.${field.name}`, type: field.type })), byName, enums, new Set(seen).add(structure.name));
+        }
+        break;
+      }
+      case 'array':
+        collectEnums([{ path, type: type.items! }], byName, enums, seen);
+        break;
+      case 'object':
+        collectEnums(type.fields!.map(field => ({ path: `${path}.${field.name}`, type: field.type })), byName, enums, seen);
+        break;
+      case 'union':
+        collectEnums(type.variants!.map(variant => ({ path, type: variant })), byName, enums, seen);
+        break;
+    }
+  }
+}
+
+// Enum values of each dotted property path of a tool input schema
+function toolEnums(schema: JsonSchema, prefix: string): Array<[string, string[]]> {
+  return Object.entries(schema.properties ?? {}).flatMap(([name, property]): Array<[string, string[]]> => {
+    const path = `${prefix}${name}`;
+    const nested = property.items ?? property;
+    if (nested.enum) {
+      return [[path, nested.enum.map(String)]];
+    }
+    return nested.properties ? toolEnums(nested, `${path}.`) : [];
+  });
+}
+
+// Structures are named as in the generated types, capitalized; "+ Attributes" keeps the blueprint case
+function structureName(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// A flattened tool argument such as customer_identification or stamp_send covers its documented object
+function coversField(property: string, field: string): boolean {
+  return property === field ||
+    property.startsWith(`${field}_`) ||
+    property === `${field}s` ||
+    field === `${property}s`;
+}
+
+function sameValues(documented: string[], values: string[]): boolean {
+  return documented.length === values.length && documented.every(value => values.includes(value));
+}
+
+function addUnique(list: string[], value: string): void {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+}
@@ -0,0 +1,84 @@
+import { DocumentType } from './models.js';
+import { SiigoClient } from './siigo-client.js';
+import { calculateTaxes, TaxCalculation, TaxCalculationInput, taxSettings } from './tax-engine.js';
+
+// Totals of a document before it is posted, computed with the tax engine from the company's
+// tax catalog and the settings of its document type. Used by dry_run, siigo_calculate_taxes
+// and to suggest the payments that Siigo expects (see invalid_total_payments in siigoapi.apib).
+
+export type TotalsDocumentType = 'FV' | 'NC' | 'FC' | 'C';
+
+export interface DocumentTotalsInput extends TaxCalculationInput {
+  document_id?: number;
+  payments?: Array<{ id?: number; value: number }>;
+}
+
+export interface DocumentTotals extends TaxCalculation {
+  document_type?: Pick<DocumentType, 'id' | 'name' | 'discount_type' | 'decimals'>;
+  payments_total?: number;
+  payments_difference?: number;
+  payments_match?: boolean;
+  // The given payments with the difference moved to the last one
+  suggested_payments?: Array<{ id?: number; value: number }>;
+}
+
+export interface DryRunResult extends DocumentTotals {
+  dry_run: true;
+}
+
+/**
+ * Totals of a create tool's arguments. Without document_id the first active document type
+ * of the given kind provides the settings
+ */
+export async function documentTotals(
+  client: SiigoClient,
+  type: TotalsDocumentType,
+  args: DocumentTotalsInput
+): Promise<DocumentTotals> {
+  const [catalog, documentTypes] = await Promise.all([client.getTaxes(), client.getDocumentTypes(type)]);
+  const documentType = args.document_id !== undefined
+    ? documentTypes.find(candidate => candidate.id === args.document_id)
+    : documentTypes.find(candidate => candidate.active !== false);
+  const totals: DocumentTotals = calculateTaxes(args, catalog, taxSettings(documentType));
+  if (!documentType) {
+    const missing = args.document_id !== undefined ? `Document type ${args.document_id} is not a` : 'There is no active';
+    totals.warnings.unshift(`${missing} ${type} document type; item discounts were taken as percentages with 2 decimals`);
+  } else {
+    totals.document_type = {
+      id: documentType.id,
+      name: documentType.name,
+      discount_type: documentType.discount_type,
+      decimals: documentType.decimals,
+    };
+  }
+
+  if (args.payments && args.payments.length > 0) {
+    const paid = round(args.payments.reduce((sum, payment) => sum + payment.value, 0), totals.decimals);
+    const difference = round(totals.total - paid, totals.decimals);
+    totals.payments_total = paid;
+    totals.payments_difference = -difference;
+    totals.payments_match = difference === 0;
+    if (!totals.payments_match) {
+      const last = args.payments[args.payments.length - 1];
+      totals.suggested_payments = [
+        ...args.payments.slice(0, -1),
+        { ...last, value: round(last.value + difference, totals.decimals) },
+      ];
+      totals.warnings.push(`Payments add up to ${paid} but the document total is ${totals.total}: Siigo would reject it with invalid_total_payments`);
+    }
+  }
+  return totals;
+}
+
+export async function dryRunDocument(
+  client: SiigoClient,
+  type: TotalsDocumentType,
+  args: DocumentTotalsInput
+): Promise<DryRunResult> {
+  return { dry_run: true, ...await documentTotals(client, type, args) };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
@@ -0,0 +1,280 @@
+// Siigo API errors. Each documented error code from the "Codigos de error" section of
+// siigoapi.apib maps to a short explanation and a concrete fix, so the model can correct
+// its next call without a human in the loop.
+
+export interface ErrorHint {
+  explanation: string;
+  fix: string;
+}
+
+export interface SiigoErrorDetail {
+  code: string;
+  message: string;
+  params: string[];
+  detail?: string;
+  explanation?: string;
+  fix?: string;
+}
+
+export const ERROR_CATALOGUE: Record<string, ErrorHint> = {
+  already_exists: {
+    explanation: 'El registro ya existe en Siigo Nube.',
+    fix: 'Usa un codigo o identificacion diferente, o consulta el registro existente en lugar de crearlo.',
+  },
+  disabled_functionality: {
+    explanation: 'La funcionalidad esta inhabilitada de forma temporal o permanente.',
+    fix: 'No reintentes de inmediato; verifica con el administrador de Siigo Nube si la funcionalidad esta disponible.',
+  },
+  company_settings: {
+    explanation: 'Se envio un parametro que no esta configurado en la empresa (por ejemplo moneda extranjera o datos tributarios).',
+    fix: 'Revisa Configuracion > Mas Configuraciones > Organizacion > Perfil de la organizacion, u omite el parametro.',
+  },
+  customer_settings: {
+    explanation: 'El tercero del documento no tiene contactos creados.',
+    fix: 'Agrega al menos un contacto al cliente con siigo_update_customer y vuelve a crear el documento.',
+  },
+  delete_not_allowed: {
+    explanation: 'El recurso tiene movimientos o transacciones relacionadas y no se puede eliminar.',
+    fix: 'Inactiva el recurso en lugar de eliminarlo, o anula primero los documentos relacionados.',
+  },
+  blocked_transactions: {
+    explanation: 'La fecha del documento es menor o igual a la fecha de bloqueo de transacciones.',
+    fix: 'Usa una fecha posterior al bloqueo o pide a un administrador ajustar Configuracion > Transacciones > Procesos > Bloqueo por fecha.',
+  },
+  documents_service: {
+    explanation: 'El servicio de documentos de Siigo no esta disponible.',
+    fix: 'Espera unos minutos y reintenta.',
+  },
+  document_settings: {
+    explanation: 'Se envio un parametro que no esta habilitado en el tipo de comprobante (vendedor por item, centro de costos, numeracion, tipo de descuento o decimales).',
+    fix: 'Consulta el tipo de comprobante con siigo_get_document_types y ajusta los campos a su configuracion.',
+  },
+  duplicated_document: {
+    explanation: 'El documento ya existe.',
+    fix: 'Consulta el documento existente antes de crear otro; usa idempotency_key para evitar duplicados en reintentos.',
+  },
+  header_required: {
+    explanation: 'Falta una cabecera obligatoria, normalmente Partner-Id.',
+    fix: 'Es un problema de configuracion del servidor MCP; reportalo al administrador.',
+  },
+  invalid_array: {
+    explanation: 'Un arreglo tiene valores invalidos (contactos, nombre, formas de pago, precios, retenciones, impuestos o items).',
+    fix: 'Revisa el campo indicado en Params: maximo 10 contactos, name con 2 elementos para Person y 1 para Company, maximo 3 impuestos por item sin repetir tipo, y sin ReteIVA/ReteICA en los items.',
+  },
+  invalid_amount: {
+    explanation: 'El valor no es valido o excede los limites permitidos.',
+    fix: 'Usa montos positivos con maximo 2 decimales (6 en price) y verifica que el total de payments coincida con el total de la factura.',
+  },
+  invalid_code: {
+    explanation: 'El codigo contiene comillas simples o espacios.',
+    fix: 'Elimina espacios y comillas simples del codigo.',
+  },
+  invalid_cost_center: {
+    explanation: 'El centro de costos no existe.',
+    fix: 'Consulta los centros de costo validos con siigo_get_cost_centers.',
+  },
+  invalid_currency: {
+    explanation: 'La moneda no es valida para el documento.',
+    fix: 'Omite currency si usas moneda local; en notas credito usa la misma moneda de la factura.',
+  },
+  invalid_date: {
+    explanation: 'La fecha no es valida; los documentos electronicos no aceptan fechas anteriores a hoy.',
+    fix: 'Usa el formato yyyy-MM-dd y, para facturas o notas credito electronicas, la fecha actual o posterior.',
+  },
+  invalid_description: {
+    explanation: 'La descripcion contiene caracteres no permitidos.',
+    fix: 'Usa solo letras, numeros y signos de puntuacion basicos en la descripcion.',
+  },
+  invalid_document: {
+    explanation: 'El id del tipo de comprobante no corresponde al documento que se esta creando.',
+    fix: 'Consulta siigo_get_document_types con el tipo correcto (FV, NC, RC, CC, FC) y usa ese id; en notas credito la factura debe estar enviada a la DIAN.',
+  },
+  invalid_email: {
+    explanation: 'El correo electronico no tiene un formato valido.',
+    fix: 'Corrige el correo (usuario@dominio.com).',
+  },
+  invalid_identification: {
+    explanation: 'La identificacion tiene un formato invalido.',
+    fix: 'Usa solo letras, numeros y guiones, sin espacios; envia el digito de verificacion en check_digit.',
+  },
+  'invalid_idempotency-key': {
+    explanation: 'La cabecera Idempotency-Key no es valida.',
+    fix: 'Usa una idempotency_key alfanumerica de maximo 30 caracteres, u omitela para que se derive automaticamente.',
+  },
+  invalid_name: {
+    explanation: 'El nombre contiene caracteres no permitidos.',
+    fix: 'Elimina caracteres especiales del nombre.',
+  },
+  invalid_payment: {
+    explanation: 'La forma de pago no es valida para el tipo de comprobante, o se envio payment en un recibo de caja detallado.',
+    fix: 'Consulta siigo_get_payment_types con el document_type correcto (FV, NC o RC) y usa uno de esos ids.',
+  },
+  invalid_partner_id: {
+    explanation: 'La cabecera Partner-Id tiene un formato invalido.',
+    fix: 'Es un problema de configuracion del servidor MCP; reportalo al administrador.',
+  },
+  payment_types_service: {
+    explanation: 'El servicio de formas de pago no esta disponible.',
+    fix: 'Espera unos minutos y reintenta.',
+  },
+  invalid_range: {
+    explanation: 'El valor esta fuera del rango permitido.',
+    fix: 'En reportes de balance usa month_start y month_end entre 1 y 13.',
+  },
+  invalid_reference: {
+    explanation: 'Se envio un id o codigo que no existe (producto, cliente, impuesto, vendedor, cuenta, etc.).',
+    fix: 'Consulta el catalogo correspondiente (siigo_get_taxes, siigo_get_users, siigo_list_products, siigo_list_customers) y usa un valor existente.',
+  },
+  invalid_total_payments: {
+    explanation: 'La suma de payments no coincide con el total de la factura.',
+    fix: 'Calcula cada item como Redondear(cantidad * precio - descuento, 2) mas Redondear(base * IVA / 100, 2), suma los items y ajusta payments a ese total.',
+  },
+  invalid_retentions: {
+    explanation: 'El tipo de retencion no esta permitido por la configuracion del comprobante.',
+    fix: 'Usa solo las retenciones habilitadas en el comprobante: ReteIVA sobre el IVA, ReteICA sobre el subtotal, Autorretencion sobre el tope minimo.',
+  },
+  invalid_type: {
+    explanation: 'El tipo de dato enviado es invalido.',
+    fix: 'Revisa que numeros, textos y booleanos se envien con el tipo esperado.',
+  },
+  invalid_url: {
+    explanation: 'La URL no es valida.',
+    fix: 'Usa una URL completa con https://.',
+  },
+  update_not_allowed: {
+    explanation: 'El recurso no se puede actualizar, por ejemplo el grupo de inventario de un producto con movimientos.',
+    fix: 'No modifiques ese campo; crea un recurso nuevo si es necesario.',
+  },
+  invalid_value: {
+    explanation: 'El valor no es valido (cantidades, consecutivos o cuotas).',
+    fix: 'Revisa cantidades positivas y consecutivos o cuotas existentes.',
+  },
+  length_max: {
+    explanation: 'El campo supera la longitud maxima.',
+    fix: 'Acorta el valor al limite indicado en el mensaje.',
+  },
+  length_min: {
+    explanation: 'El campo no alcanza la longitud minima.',
+    fix: 'Completa el valor hasta la longitud indicada en el mensaje.',
+  },
+  not_found: {
+    explanation: 'El recurso no existe.',
+    fix: 'Verifica el id con la herramienta de listado correspondiente.',
+  },
+  parameter_empty: {
+    explanation: 'Se envio vacio un campo que requiere valor (unit o fiscal_responsibilities).',
+    fix: 'Envia un valor valido u omite el campo para usar el valor por defecto.',
+  },
+  parameter_inactive: {
+    explanation: 'El parametro usado esta inactivo (usuario, forma de pago, impuesto o lista de precios).',
+    fix: 'Usa un valor activo del catalogo (campo active: true) o pide activarlo en Siigo Nube.',
+  },
+  parameter_required: {
+    explanation: 'Falta uno o mas campos obligatorios.',
+    fix: 'Agrega los campos indicados en Params; en formas de pago envia document_type (FV, NC o RC).',
+  },
+  parameters_exclusive: {
+    explanation: 'Se enviaron parametros que no se pueden usar juntos o un valor no permitido.',
+    fix: 'Envia solo uno de los parametros excluyentes indicados en el mensaje.',
+  },
+  invalid_plan_type: {
+    explanation: 'El plan de la empresa no permite la operacion.',
+    fix: 'Verifica el plan contratado en Siigo Nube.',
+  },
+  invalid_account: {
+    explanation: 'La cuenta contable no existe, el rango de cuentas es invalido, o la cuenta no se permite en compras.',
+    fix: 'Verifica el codigo de cuenta; en reportes account_start debe ser menor que account_end.',
+  },
+  product_settings: {
+    explanation: 'Se envio una bodega para un producto que no maneja inventario.',
+    fix: 'Omite la bodega en ese item o activa el control de inventario del producto.',
+  },
+  requests_limit: {
+    explanation: 'Se supero el limite de solicitudes por minuto de la empresa (100, o 10 en la empresa de pruebas).',
+    fix: 'Espera un minuto antes de reintentar y agrupa consultas con page_size 100; consulta siigo_get_rate_limit_status.',
+  },
+  unauthorized: {
+    explanation: 'El token de acceso es invalido o vencio, o el usuario esta bloqueado.',
+    fix: 'Verifica las credenciales de la empresa; el servidor renueva el token automaticamente una vez.',
+  },
+  unhandled_error: {
+    explanation: 'Error no controlado en Siigo.',
+    fix: 'Reintenta mas tarde; si persiste escribe a soporteapi@siigo.com.',
+  },
+  request_timeout: {
+    explanation: 'Siigo no completo la solicitud a tiempo.',
+    fix: 'Verifica si el documento se creo antes de reintentar.',
+  },
+  service_unavailable: {
+    explanation: 'Siigo API no esta disponible por sobrecarga o mantenimiento.',
+    fix: 'Espera unos segundos y reintenta.',
+  },
+  warehouse_settings: {
+    explanation: 'Se envio una bodega pero el manejo de bodegas no esta activo.',
+    fix: 'Omite la bodega o activa bodegas en Configuracion > Mas Configuraciones > Inventarios.',
+  },
+  invalid_balance: {
+    explanation: 'La suma de debitos y creditos no es igual.',
+    fix: 'Ajusta los items del comprobante para que debitos y creditos sumen lo mismo.',
+  },
+  values_limit: {
+    explanation: 'Se excedio el limite de valores permitidos.',
+    fix: 'Reduce la cantidad o el monto de los valores enviados.',
+  },
+  invalid_date_range: {
+    explanation: 'El rango de fechas no es valido.',
+    fix: 'Verifica que la fecha inicial sea anterior a la final.',
+  },
+  date_settings: {
+    explanation: 'La fecha de elaboracion del comprobante no esta permitida.',
+    fix: 'Usa una fecha permitida por la configuracion del comprobante.',
+  },
+  parameter_not_allowed: {
+    explanation: 'Se envio un parametro no permitido, como vat_excluded fuera de los dias sin IVA o un impuesto de tipo incorrecto.',
+    fix: 'Omite el parametro o usa un impuesto del tipo correcto segun siigo_get_taxes.',
+  },
+  non_editable: {
+    explanation: 'Se intento cambiar datos que no son editables.',
+    fix: 'No envies esos campos en la actualizacion.',
+  },
+  entry_service: {
+    explanation: 'No es posible completar la solicitud con las condiciones actuales.',
+    fix: 'Revisa los datos del documento y reintenta mas tarde.',
+  },
+  general_service: {
+    explanation: 'El servicio no esta disponible por el momento.',
+    fix: 'Espera unos minutos y reintenta.',
+  },
+};
+
+export class SiigoApiError extends Error {
+  readonly errors: SiigoErrorDetail[];
+
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly method: string,
+    readonly endpoint: string,
+    errors: Array<Omit<SiigoErrorDetail, 'explanation' | 'fix'>> = []
+  ) {
+    super(message);
+    this.name = 'SiigoApiError';
+    this.errors = errors.map(error => ({ ...error, ...ERROR_CATALOGUE[error.code] }));
+  }
+
+  get codes(): string[] {
+    return this.errors.map(error => error.code);
+  }
+
+  /**
+   * Plain object for MCP error results and logs
+   */
+  toJSON() {
+    return {
+      status: this.status,
+      method: this.method,
+      endpoint: this.endpoint,
+      errors: this.errors,
+    };
+  }
+}
@@ -0,0 +1,4177 @@
+// Generated by src/codegen/generate-apib.ts from the "Data Structures" section of siigoapi.apib.
+// Do not edit by hand: update siigoapi.apib and run `npm run generate`.
+
+import { z } from 'zod';
+
+// ==================== TYPES ====================
+
+export interface AccountGroup {
+  /** Identificador único de la clasificación de inventario. */
+  id: number;
+  /** Nombre de la clasificación de inventario. */
+  name: string;
+  /** Indica si la clasificación de inventario está en uso. */
+  active: boolean;
+}
+
+export interface AccountGroupOut {
+  /** Identificador único de la clasificación de inventario. */
+  id: number;
+  /** Nombre de la clasificación de inventario. */
+  name?: string;
+}
+
+export type ProductType = 'Product' | 'Service' | 'ConsumerGood';
+
+export type TaxClassification = 'Taxed' | 'Exempt' | 'Excluded';
+
+export interface AssetGroup {
+  /** Identificador único del grupo de activos fijos. */
+  id: number;
+  /** Nombre del grupo de activo. */
+  name: string;
+  /** Indica si el grupo de activos está en uso. */
+  active: boolean;
+}
+
+export type TaxType = 'IVA' | 'Retefuente' | 'ReteIVA' | 'ReteICA' | 'Impoconsumo' | 'AdValorem' | 'Autorretencion';
+
+export type PaymentType = 'Cartera' | 'Proveedor' | 'CarteraProveedor';
+
+export type DocumentType = 'FV' | 'RC' | 'NC' | 'FC' | 'CC';
+
+export type DiscountType = 'Percentage' | 'Value';
+
+export type ElectronicType = 'NoElectronic' | 'Electronicvoice' | 'ContingencyInvoice' | 'ExportInvoice';
+
+export interface TokenIn {
+  /** Usuario */
+  username: string;
+  /** Access Key */
+  access_key: string;
+}
+
+export interface TokenOut {
+  /** Access Token */
+  access_token?: string;
+  /** Expiración en milisegundos */
+  expires_in?: number;
+  /** Tipo de Token */
+  token_type?: string;
+  /** Alcance */
+  scope?: string;
+}
+
+export interface Fixedassets {
+  /** Identificador único del activo fijo. */
+  id: number;
+  /** Nombre del Activo. */
+  name: string;
+  /** Nombre del grupo de activo. */
+  group: string;
+  /** Indica si el activo está en uso. */
+  active: boolean;
+}
+
+export interface Tax {
+  /** Identificador único del impuesto. */
+  id: number;
+  /** Nombre del impuesto. */
+  name: string;
+  /** Tipo del impuesto. */
+  type: TaxType;
+  /** Porcentaje del impuesto. */
+  percentage: number;
+  /** Indica si el impuesto está en uso. */
+  active: boolean;
+}
+
+export interface GlobalDiscountsIn {
+  /** Identificador único del descuento global. */
+  id: number;
+  /** Porcentaje del descuento global. */
+  percentage: number;
+  /** Indica el valor del descuento global. */
+  value: number;
+}
+
+export interface GlobalDiscountsOut {
+  /** Identificador único del descuento global. */
+  id: number;
+  /** Nombre del descuento global. */
+  name: string;
+  /** Porcentaje del descuento global. */
+  percentage: number;
+  /** Indica el valor del descuento global. */
+  value: number;
+}
+
+export interface TaxIn {
+  /** Identificador único del impuesto. */
+  id: number;
+}
+
+export interface TaxInProduct {
+  /** Identificador único del impuesto. */
+  id: number;
+  /** Número de mililitros del producto. */
+  milliliters?: number;
+  /** Tarifa del impuesto de bebidas azucaradas. */
+  rate?: number;
+}
+
+export interface TaxRet {
+  /** Identificador único del impuesto. */
+  id: number;
+}
+
+export interface TaxOut {
+  /** Identificador único del impuesto. */
+  id?: number;
+  /** Nombre del impuesto. */
+  name?: string;
+  /** Tipo del impuesto. */
+  type?: TaxType;
+  /** Porcentaje del impuesto. */
+  percentage?: number;
+}
+
+export interface TaxOutInvoice {
+  /** Identificador único del impuesto. */
+  id?: number;
+  /** Nombre del impuesto. */
+  name?: string;
+  /** Tipo del impuesto. */
+  type?: TaxType;
+  /** Porcentaje del impuesto. */
+  percentage?: number;
+  /** Valor del impuesto. */
+  value?: number;
+}
+
+export interface RetentionOutInvoice {
+  /** Identificador único del impuesto. */
+  id?: number;
+  /** Nombre del impuesto. */
+  name?: string;
+  /** Tipo del impuesto. */
+  type?: TaxType;
+  /** Porcentaje del impuesto. */
+  percentage?: number;
+  /** Valor del impuesto. */
+  value?: number;
+}
+
+export interface PriceList {
+  /** Identificador único de la lista de precio. */
+  id: number;
+  /** Nombre de la lista de precio. */
+  name?: string;
+  /** Indica si la lista de precio está en uso. */
+  active?: boolean;
+  /** Posición de la lista de precio. */
+  position?: number;
+}
+
+export interface PriceIn {
+  /** Código de moneda */
+  currency_code: string;
+  /** Lista de precios */
+  price_list: PriceListIn[];
+}
+
+export interface PriceOut {
+  /** Código de moneda */
+  currency_code: string;
+  /** Lista de precios */
+  price_list: PriceListOut[];
+}
+
+export interface PriceListIn {
+  /** Identificador único de la lista de precio. */
+  position: number;
+  /** Valor de la lista de precio. */
+  value: number;
+}
+
+export interface PriceListOut {
+  /** Identificador único de la lista de precio. */
+  position?: number;
+  /** Nombre de la lista de precio. */
+  name?: string;
+  /** Valor de la lista de precio. */
+  value?: number;
+}
+
+export interface UnitOut {
+  /** Código de la unidad de medida. */
+  code: string;
+  /** Nombre de la unidad de medida. */
+  name?: string;
+}
+
+export interface AdditionalFields {
+  /** Código de barras. */
+  barcode?: string;
+  /** Marca. */
+  brand?: string;
+  /** Código arancelario. */
+  tariff?: string;
+  /** Modelo. */
+  model?: string;
+}
+
+export interface Warehouse {
+  /** Identificador único de la bodega. */
+  id: number;
+  /** Nombre de la bodega. */
+  name?: string;
+  /** Indica si la bodega está en uso. */
+  active?: boolean;
+  /** Indica si la bodega tiene movimientos. */
+  has_movements?: boolean;
+}
+
+export interface WarehouseProduct {
+  /** Identificador único de la bodega. */
+  id: number;
+  /** Nombre de la bodega. */
+  name?: string;
+  /** Cantidad disponible. */
+  quantity?: number;
+}
+
+export interface WarehouseOutInvoice {
+  /** Identificador único de la bodega. */
+  id: number;
+  /** Nombre de la bodega. */
+  name?: string;
+}
+
+export interface User {
+  /** Identificador único del usuario o vendedor. */
+  id: number;
+  /** Nombre de usuario. */
+  username: string;
+  /** Nombre del usuario. */
+  first_name: string;
+  /** Apellido del usuario. */
+  last_name: string;
+  /** Correo del usuario. */
+  email: string;
+  /** Estado del usuario. */
+  active: boolean;
+  /** Número de identificación del usuario. */
+  identification: string;
+}
+
+export interface PaymentTypes {
+  /** Identificador único de la forma de pago. */
+  id: number;
+  /** Nombre de la forma de pago. */
+  name: string;
+  /** Tipo de la forma de pago. */
+  type: PaymentType;
+  /** Estado de la forma de pago. */
+  active: boolean;
+  /** Indica si la forma de pago maneja fecha de vencimiento. */
+  due_date: boolean;
+}
+
+export interface Document {
+  /** Identificador único del comprobante. */
+  id?: number;
+  /** Código del comprobante. */
+  code?: string;
+  /** Nombre o título del comprobante. */
+  name?: string;
+  /** Descripción del comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: DocumentType;
+  /** Estado del comprobante. */
+  active?: boolean;
+  /** Maneja vendedor por ítem. */
+  seller_by_item?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+  /** Maneja descuento por Porcentaje o Valor. */
+  discount_type?: DiscountType;
+  /** Maneja decimales. */
+  decimals?: boolean;
+  /** Maneja copagos / anticipos. */
+  advance_payment?: boolean;
+  /** Maneja reteIVA. */
+  reteiva?: boolean;
+  /** Maneja reteICA. */
+  reteica?: boolean;
+  /** Maneja autorretención decreto 2201. */
+  self_withholding?: boolean;
+  self_withholding_limit?: number;
+  /** Indica el tipo de factura. */
+  electronic_type?: ElectronicType;
+}
+
+export interface DocumentTypeC {
+  /** Identificador único del comprobante. */
+  id?: number;
+  /** Código del comprobante. */
+  code?: string;
+  /** Nombre o título del comprobante. */
+  name?: string;
+  /** Descripción del comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: string;
+  /** Estado del comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+  /** Maneja descuento por Porcentaje o Valor. */
+  discount_type?: DiscountType;
+  /** Maneja decimales. */
+  decimals?: boolean;
+}
+
+export interface DocumentTypeFV {
+  /** Identificador único del comprobante. */
+  id?: number;
+  /** Código del comprobante. */
+  code?: string;
+  /** Nombre o título del comprobante. */
+  name?: string;
+  /** Descripción del comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: DocumentType;
+  /** Estado del comprobante. */
+  active?: boolean;
+  /** Maneja vendedor por ítem. */
+  seller_by_item?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+  /** Maneja descuento por Porcentaje o Valor. */
+  discount_type?: DiscountType;
+  /** Maneja decimales. */
+  decimals?: boolean;
+  /** Maneja copagos / anticipos. */
+  advance_payment?: boolean;
+  /** Maneja reteIVA. */
+  reteiva?: boolean;
+  /** Maneja reteICA. */
+  reteica?: boolean;
+  /** Maneja autorretención decreto 2201. */
+  self_withholding?: boolean;
+  self_withholding_limit?: number;
+  /** Indica el tipo de factura. */
+  electronic_type?: ElectronicType;
+  /** Maneja campos del sector transporte. */
+  cargo_transportation?: boolean;
+  /** Maneja campos del sector salud. */
+  healthcare_company?: boolean;
+  /** Maneja ingresos para terceros. */
+  customer_by_item?: boolean;
+}
+
+export interface DocumentTypeFC {
+  /** Identificador único del comprobante. */
+  id?: number;
+  /** Código del comprobante. */
+  code?: string;
+  /** Nombre o título del comprobante. */
+  name?: string;
+  /** Descripción del comprobante. */
+  description?: string;
+  type?: string;
+  /** Estado del comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+  /** Maneja decimales. */
+  decimals?: boolean;
+  /** Maneja impuesto al consumo. */
+  consumption_tax?: boolean;
+  /** Maneja reteIVA. */
+  reteiva?: boolean;
+  /** Maneja reteICA. */
+  reteica?: boolean;
+  /** Usa como documento soporte. */
+  document_support?: boolean;
+}
+
+export interface DocumentTypeRC {
+  /** Identificador único del tipo de comprobante. */
+  id?: number;
+  /** Código del tipo comprobante. */
+  code?: string;
+  /** Nombre o título del tipo de comprobante. */
+  name?: string;
+  /** Descripción del tipo de comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: string;
+  /** Estado del tipo de comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Identificador el número del centro de costos por defecto. */
+  cost_center_default?: number;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+}
+
+export interface DocumentTypeRP {
+  /** Identificador único del tipo de comprobante. */
+  id?: number;
+  /** Código del tipo comprobante. */
+  code?: string;
+  /** Nombre o título del tipo de comprobante. */
+  name?: string;
+  /** Descripción del tipo de comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: string;
+  /** Estado del tipo de comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Identificador el número del centro de costos por defecto. */
+  cost_center_default?: number;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+}
+
+export interface DocumentTypeNC {
+  /** Identificador único del tipo de comprobante. */
+  id?: number;
+  /** Código del tipo comprobante. */
+  code?: string;
+  /** Nombre o título del tipo de comprobante. */
+  name?: string;
+  /** Descripción del tipo de comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: string;
+  /** Estado del tipo de comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Identificador el número del centro de costos por defecto. */
+  cost_center_default?: number;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+  /** Maneja ingresos para terceros. */
+  customer_by_item?: boolean;
+}
+
+export interface DocumentTypeCC {
+  /** Identificador único del tipo de comprobante. */
+  id?: number;
+  /** Código del tipo comprobante. */
+  code?: string;
+  /** Nombre o título del tipo de comprobante. */
+  name?: string;
+  /** Descripción del tipo de comprobante. */
+  description?: string;
+  /** Tipo de comprobante. */
+  type?: string;
+  /** Estado del tipo de comprobante. */
+  active?: boolean;
+  /** Maneja centro de costos. */
+  cost_center?: boolean;
+  /** El centro de costos es obligatorio. */
+  cost_center_mandatory?: boolean;
+  /** Identificador el número del centro de costos por defecto. */
+  cost_center_default?: number;
+  /** Maneja numeración automática. */
+  automatic_number?: boolean;
+  /** Consecutivo. */
+  consecutive?: number;
+}
+
+export interface CostCenter {
+  /** Identificador único del centro de costo. */
+  id: number;
+  /** Código del centro de costo. */
+  code: string;
+  /** Nombre del centro de costo. */
+  name: string;
+  /** Estado del centro de costo. */
+  active: boolean;
+}
+
+export interface IdType {
+  /** Código del tipo de documento. */
+  code: string;
+  /** Nombre del tipo de documento. */
+  name: string;
+}
+
+export interface Currency {
+  /** Código de moneda. */
+  code: string;
+  /** Tasa / Valor en moneda extranjera. */
+  exchange_rate: number;
+}
+
+export interface Discount {
+  /** Porcentaje de descuento */
+  percentage?: number;
+  /** Valor de descuento */
+  value?: number;
+}
+
+export interface AccounGroupIn {
+  /** Código único de la categoría de inventarios. */
+  code: string;
+  /** Nombre de la categoría de inventarios. */
+  name: string;
+}
+
+export interface ProductIn {
+  /** Código único del producto. */
+  code: string;
+  /** Nombre del producto / servicio. */
+  name: string;
+  /** ID de la clasificación de inventario. */
+  account_group: number;
+  /** Tipo de producto, valor por default Product */
+  type: ProductType;
+  /** Control de inventario, valor por default false. */
+  stock_control?: boolean;
+  /** Estado del producto en Siigo, valor por default true. */
+  active?: boolean;
+  /** Clasificación tributaria, valor por default Gravado. */
+  tax_classification?: TaxClassification;
+  /** IVA incluido. */
+  tax_included?: boolean;
+  /** Valor  impuesto al consumo. */
+  tax_consumption_value?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxInProduct[];
+  /** Son valores de venta que manejan cada uno de los productos o servicios, en  Siigo  es  posible  manejar  hasta 12 precios de venta. */
+  prices?: PriceIn[];
+  /** Código de la unidad de medida del producto para factura electrónica, valor por default 94. */
+  unit?: string;
+  /** Unidad de medida para impresión factura. */
+  unit_label?: string;
+  /** Referencia o código de fábrica del producto o servicio. */
+  reference?: string;
+  /** Descripción del producto o servicio. */
+  description?: string;
+  /** Campos adicionales como: Código de barras, Marca, Código arancelario, Modelo. */
+  additional_fields?: AdditionalFields;
+}
+
+export interface ProductOutCreate {
+  /** Identificador del producto. */
+  id?: string;
+  /** Código único del producto. */
+  code: string;
+  /** Nombre del producto / servicio. */
+  name: string;
+  /** ID de la clasificación de inventario. */
+  account_group?: AccountGroupOut;
+  /** Tipo de producto, valor por default Product */
+  type: ProductType;
+  /** Control de inventario, valor por default false. */
+  stock_control?: boolean;
+  /** Estado del producto en Siigo, valor por default true. */
+  active?: boolean;
+  /** Clasificación tributaria. */
+  tax_classification?: TaxClassification;
+  /** IVA incluido. */
+  tax_included?: boolean;
+  /** Valor  impuesto al consumo. */
+  tax_consumption_value?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxOut[];
+  /** Son valores de venta que manejan cada uno de los productos o servicios, en  Siigo  es  posible  manejar  hasta 12 precios de venta. */
+  prices?: PriceOut[];
+  /** Código de la unidad de medida del producto para factura electrónica, valor por default 94. */
+  unit?: UnitOut;
+  /** Unidad de medida para impresión factura. */
+  unit_label?: string;
+  /** Referencia o código de fábrica del producto o servicio. */
+  reference?: string;
+  /** Descripción del producto o servicio. */
+  description?: string;
+  /** Campos adicionales como: Código de barras, Marca, Código arancelario, Modelo. */
+  additional_fields?: AdditionalFields;
+  /** Indica la cantidad disponible en el inventario. Si el producto se encuentra distribuido en múltiples bodegas, este atributo retorna la cantidad disponible en todas las bodegas. */
+  available_quantity?: number;
+  /** Indica las bodegas asociadas al producto. */
+  warehouses?: unknown[];
+  /** Información acerca de la entidad. */
+  metadata?: MetadataCreate;
+}
+
+export interface ProductOut {
+  /** Identificador del producto. */
+  id?: string;
+  /** Código único del producto. */
+  code: string;
+  /** Nombre del producto / servicio. */
+  name: string;
+  /** ID de la clasificación de inventario. */
+  account_group?: AccountGroupOut;
+  /** Tipo de producto, valor por default Product */
+  type: ProductType;
+  /** Control de inventario, valor por default false. */
+  stock_control?: boolean;
+  /** Estado del producto en Siigo, valor por default true. */
+  active?: boolean;
+  /** Clasificación tributaria. */
+  tax_classification?: TaxClassification;
+  /** IVA incluido. */
+  tax_included?: boolean;
+  /** Valor  impuesto al consumo. */
+  tax_consumption_value?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxOut[];
+  /** Son valores de venta que manejan cada uno de los productos o servicios, en  Siigo  es  posible  manejar  hasta 12 precios de venta. */
+  prices?: PriceOut[];
+  /** Código de la unidad de medida del producto para factura electrónica, valor por default 94. */
+  unit?: UnitOut;
+  /** Unidad de medida para impresión factura. */
+  unit_label?: string;
+  /** Referencia o código de fábrica del producto o servicio. */
+  reference?: string;
+  /** Descripción del producto o servicio. */
+  description?: string;
+  /** Campos adicionales como: Código de barras, Marca, Código arancelario, Modelo. */
+  additional_fields?: AdditionalFields;
+  /** Indica la cantidad disponible en el inventario. Si el producto se encuentra distribuido en múltiples bodegas, este atributo retorna la cantidad disponible en todas las bodegas. */
+  available_quantity?: number;
+  /** Indica las bodegas asociadas al producto. */
+  warehouses?: WarehouseProduct[];
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface ProductsOutList {
+  pagination?: Pagination;
+  results?: ProductOut[];
+  _links?: unknown;
+}
+
+export type CustomerType = 'Customer' | 'Supplier' | 'Other';
+
+export type PersonType = 'Person' | 'Company';
+
+export interface City {
+  /** Código de la ciudad. */
+  CityID: string;
+  /** Código del país. */
+  CountryCode: string;
+  /** Nombre del país. */
+  CountryName: string;
+  /** Código del departamento. */
+  StateCode: string;
+  /** Nombre del departamento. */
+  StateName: string;
+  /** Código de la ciudad. */
+  CityCode: string;
+  /** Nombre de la ciudad. */
+  CityName: string;
+}
+
+export interface CityIn {
+  /** Código del país. */
+  country_code: string;
+  /** Código del departamento/estado. */
+  state_code: string;
+  /** Código de la ciudad. */
+  city_code: string;
+}
+
+export interface CityOut {
+  /** Código del país. */
+  country_code: string;
+  /** Nombre del país. */
+  country_name?: string;
+  /** Código del departamento/estado. */
+  state_code: string;
+  /** Nombre del departamento/estado. */
+  state_name?: string;
+  /** Código de la ciudad. */
+  city_code: string;
+  /** Nombre de la ciudad. */
+  city_name?: string;
+}
+
+export interface CityOutInvoice {
+  /** Nombre del país. */
+  country_name?: string;
+  /** Nombre del departamento/estado. */
+  state_name?: string;
+  /** Nombre de la ciudad. */
+  city_name?: string;
+}
+
+export interface AddressIn {
+  /** Dirección del cliente. */
+  address: string;
+  /** Ciudad del cliente. */
+  city: CityIn;
+  /** Código postal. */
+  postal_code?: string;
+}
+
+export interface AddressOut {
+  /** Dirección del cliente. */
+  address: string;
+  /** Ciudad del cliente. */
+  city: CityOut;
+  /** Código postal. */
+  postal_code?: string;
+}
+
+export interface Phone {
+  /** Indicativo */
+  indicative?: string;
+  /** Número */
+  number: string;
+  /** Extensión */
+  extension?: string;
+}
+
+export interface PhoneContact {
+  /** Indicativo */
+  indicative?: string;
+  /** Número */
+  number?: string;
+  /** Extensión */
+  extension?: string;
+}
+
+export interface Contact {
+  /** Nombres del contacto. */
+  first_name: string;
+  /** Apellidos del contacto. */
+  last_name: string;
+  /** Correo electrónico del contacto. */
+  email: string;
+  /** Indica el teléfono asociado al contacto. */
+  phone?: PhoneContact;
+}
+
+export interface FiscalResponsabilityIn {
+  /** Código de la responsabilidad fiscal. */
+  code: string;
+}
+
+export interface FiscalResponsability {
+  /** Código de la responsabilidad fiscal. */
+  code: string;
+  /** Nombre de la responsabilidad fiscal. */
+  name?: string;
+}
+
+export interface RelatedUsers {
+  /** Usuario vendedor asigando al cliente. */
+  seller_id?: number;
+  /** Usuario cobrador encargado del recaudo de cartera. */
+  collector_id?: number;
+}
+
+export interface CustomField {
+  /** Tipo de atributo */
+  key?: string;
+  /** Valor del atributo */
+  value?: string;
+}
+
+export interface MetadataCreate {
+  /** La fecha en la que se creó la entidad. */
+  created?: string;
+  /** La fecha en la que se actualizó la entidad por última vez. */
+  last_updated?: string;
+}
+
+export interface Xml {
+  /** Identificador de la Factura de Venta. */
+  id?: string;
+  /** XML de Factura de Venta. */
+  base64?: string;
+}
+
+export interface Pdf {
+  /** Identificador de la Factura de Venta. */
+  id?: string;
+  /** PDF de Factura de Venta. */
+  base64?: string;
+}
+
+export interface PdfNC {
+  /** Identificador de la Nota Crédito. */
+  id?: string;
+  /** PDF de Nota Crédito. */
+  base64?: string;
+}
+
+export interface FvRejected {
+  /** Identificador de la Factura de Venta. */
+  id?: string;
+  /** Información del error. */
+  errors?: RejectedOut[];
+}
+
+export interface RejectedOut {
+  /** Motivo del rechazo por parte de la DIAN */
+  message?: string;
+}
+
+export interface Metadata {
+  /** La fecha en la que se creó la entidad. */
+  created?: string;
+  /** La fecha en la que se actualizó la entidad por última vez. */
+  last_updated?: string;
+}
+
+export interface CustomerIn {
+  /** Tipo de cliente, valor por default Customer. */
+  type?: CustomerType;
+  /** Tipo de persona. */
+  person_type: PersonType;
+  /** Código del tipo de identificación del cliente. */
+  id_type: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Dígito verificación, se calcula automáticamente. */
+  check_digit?: string;
+  /** Razón social o nombres y apellidos del cliente. Si "type": Company enviar name: ["Stark Industries"] Si "type": Person enviar name: ["Marcos" , "Castillo"] */
+  name: string[];
+  /** Nombre comercial o Nombre de fantasía de la empresa ciente. */
+  commercial_name?: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+  /** Estado del cliente en Siigo, valor por default true. */
+  active?: boolean;
+  /** Tipo de régimen IVA. True si es responsable de IVA, False si no es responsable de IVA, valor por default false. */
+  vat_responsible?: boolean;
+  /** Responsabilidades fiscales del cliente, valor por default R-99-PN. */
+  fiscal_responsibilities?: FiscalResponsabilityIn[];
+  /** Información de país, ciudad y dirección del cliente. */
+  address: AddressIn;
+  /** Indica los teléfonos asociados al cliente. */
+  phones: Phone[];
+  /** Indica los contactos asociados al cliente, se pueden asociar hasta 20 contactos. */
+  contacts: Contact[];
+  /** Observaciones. */
+  comments?: string;
+  /** Asigna el vendedor y el cobrador encargado del recaudo de cartera al cliente. */
+  related_users?: RelatedUsers;
+}
+
+export interface CustomerInEc {
+  /** Tipo de cliente, valor por default Customer. */
+  type?: CustomerType;
+  /** Tipo de persona. */
+  person_type: PersonType;
+  /** Código del tipo de identificación del cliente. */
+  id_type: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Razón social o nombres y apellidos del cliente. Si "type": Company enviar name: ["Stark Industries"] Si "type": Person enviar name: ["Marcos" , "Castillo"] */
+  name: string[];
+  /** Nombre comercial o Nombre de fantasía de la empresa ciente. */
+  commercial_name?: string;
+  /** Estado del cliente en Siigo, valor por default true. */
+  active?: boolean;
+  /** Dirección del cliente. */
+  address: AddressIn;
+  /** Indica los teléfonos asociados al cliente. */
+  phones: Phone[];
+  /** Indica los contactos asociados al cliente. */
+  contacts: Contact[];
+  /** Observaciones. */
+  comments?: string;
+  /** Asigna el vendedor y el cobrador encargado del recaudo de cartera al cliente. */
+  related_users?: RelatedUsers;
+}
+
+export interface CustomerOutEc {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Tipo de cliente, valor por default Customer. */
+  type?: CustomerType;
+  /** Tipo de persona. */
+  person_type?: PersonType;
+  /** Tipo de identificación del cliente. */
+  id_type?: IdType;
+  /** Número de identificación del cliente. */
+  identification?: string;
+  /** Razón social o nombres y apellidos del cliente. */
+  name?: string[];
+  /** Nombre comercial o Nombre de fantasía de la empresa cLiente. */
+  commercial_name?: string;
+  /** Estado del cliente en Siigo, valor por default true. */
+  active?: boolean;
+  /** Dirección del cliente. */
+  address?: AddressOut;
+  /** Indica los teléfonos asociados al cliente. */
+  phones?: Phone[];
+  /** Indica los contactos asociados al cliente. */
+  contacts?: Contact[];
+  /** Observaciones. */
+  comments?: string;
+  /** Asigna el vendedor y el cobrador encargado del recaudo de cartera al cliente. */
+  related_users?: RelatedUsers;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface CustomerOut {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Tipo de cliente, valor por default Customer. */
+  type?: CustomerType;
+  /** Tipo de persona. */
+  person_type: PersonType;
+  /** Tipo de identificación del cliente. */
+  id_type: IdType;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Dígito verificación, se calcula automáticamente. */
+  check_digit?: string;
+  /** Razón social o nombres y apellidos del cliente. */
+  name: string[];
+  /** Nombre comercial o Nombre de fantasía de la empresa cLiente. */
+  commercial_name?: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+  /** Estado del cliente en Siigo, valor por default true. */
+  active?: boolean;
+  /** Tipo de régimen IVA. True si es responsable de IVA, False si no es responsable de IVA, valor por default false. */
+  vat_responsible?: boolean;
+  /** Responsabilidades fiscales del cliente, valor por default R-99-PN. */
+  fiscal_responsibilities?: FiscalResponsability[];
+  /** Dirección del cliente. */
+  address: AddressOut;
+  /** Indica los teléfonos asociados al cliente. */
+  phones: Phone[];
+  /** Indica los contactos asociados al cliente. */
+  contacts: Contact[];
+  /** Observaciones. */
+  comments?: string;
+  /** Asigna el vendedor y el cobrador encargado del recaudo de cartera al cliente. */
+  related_users?: RelatedUsers;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface PurchaseOrder {
+  /** Prefijo de orden de compra. */
+  prefix?: string;
+  /** Número de orden de compra. */
+  number?: string;
+}
+
+export interface DeliveryOrder {
+  /** Prefijo de orden de entrega. */
+  prefix?: string;
+  /** Número de orden de entrega. */
+  number?: string;
+  /** Fecha de orden de entrega. */
+  date: string;
+}
+
+export interface AdditionalFieldsInvoice {
+  /** Orden de compra */
+  purchase_order?: PurchaseOrder;
+  /** Orden de entrega */
+  delivery_order?: DeliveryOrder;
+}
+
+export interface AdditionalFieldsInvoices {}
+
+export interface Pagination {
+  page?: number;
+  page_size?: number;
+  total_results?: number;
+}
+
+export interface CustomersOutList {
+  pagination?: Pagination;
+  results?: CustomerOut[];
+  _links?: unknown;
+}
+
+export interface StampInDian {
+  /** Indica nombre del estado */
+  send: boolean;
+}
+
+export interface StampOutDian {
+  status?: string;
+  cufe?: string;
+  observations?: string;
+  errors?: string;
+}
+
+export interface StampOutDianNC {
+  status?: string;
+  cude?: string;
+  observations?: string;
+  errors?: string;
+}
+
+export interface MailInCustomer {
+  /** Indica nombre del estado */
+  send: boolean;
+}
+
+export interface MailOutCustomer {
+  status?: string;
+  observations?: string;
+}
+
+export interface CopyCustomerIn {
+  mail_to?: string;
+  copy_to?: string;
+}
+
+export interface CopyCustomerOut {
+  status?: string;
+  observations?: string;
+}
+
+export interface CustomerInInvoiceS {
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0 */
+  branch_office?: number;
+}
+
+export interface CustomerOutInvoiceS {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+}
+
+export interface CustomerInInvoice {
+  /** Tipo de persona asociado al documento. */
+  person_type: string;
+  /** Identificador del tipo de tercero. */
+  id_type: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+  /** Razón social o nombres y apellidos del cliente. */
+  name: string[];
+  /** Dirección del cliente. */
+  address: AddressOut;
+  /** Indica los teléfonos asociados al cliente. */
+  phones: Phone[];
+  /** Indica los contactos asociados al cliente, se pueden relacionar hasta 20 contactos. */
+  contacts: Contact[];
+}
+
+export interface CustomerOutInvoice {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+}
+
+export interface CustomerOutInvoiceCompletoSinUsar {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Tipo de cliente, valor por default Customer. */
+  type?: CustomerType;
+  /** Tipo de persona. */
+  person_type: PersonType;
+  /** Código del tipo de identificación del cliente. */
+  id_type: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Dígito verificación, se calcula automáticamente. */
+  check_digit?: string;
+  /** Razón social o nombres y apellidos del cliente. */
+  name: string[];
+  /** Nombre comercial o Nombre de fantasía de la empresa cLiente. */
+  commercial_name?: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+  /** Tipo de régimen IVA. True si es responsable de IVA, False si no es responsable de IVA. */
+  vat_responsible?: boolean;
+  /** Responsabilidades fiscales del cliente, valor por default R-99-PN. */
+  fiscal_responsibilities?: FiscalResponsability[];
+  /** Dirección del cliente. */
+  address: AddressOut;
+  /** Indica los teléfonos asociados al cliente. */
+  phones: Phone[];
+  /** Indica los contactos asociados al cliente. */
+  contacts: Contact[];
+}
+
+export interface NameCustomer {
+  /** Código único del producto. */
+  code: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+}
+
+export interface ItemIn {
+  /** Código único del producto. */
+  code: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Cantidad. */
+  quantity: number;
+  /** Precio del producto / Valor unitario. */
+  price: number;
+  /** Porcentaje o Valor de descuento. Según configuración de la factura. */
+  discount?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxIn[];
+  /** Campos para empresas de transporte */
+  transport?: FieldsTransport;
+}
+
+export interface ItemInWithoutTransport {
+  /** Código único del producto. */
+  code: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Cantidad. */
+  quantity: number;
+  /** Precio del producto / Valor unitario. */
+  price: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxIn[];
+  /** Porcentaje o Valor de descuento. Según configuración del documento. */
+  discount?: number;
+}
+
+export interface ItemOut {
+  /** Identificador del producto/servicio. */
+  id?: string;
+  /** Código único del producto. */
+  code?: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Cantidad. En Siigo Nube queda registado con dos decimales. */
+  quantity?: number;
+  /** Precio del producto / Valor unitario. En Siigo Nube queda registado con dos decimales. */
+  price?: number;
+  /** Porcentaje y valor de descuento. */
+  discount?: Discount;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxOutInvoice[];
+  /** Total del producto, incluye impuestos. */
+  total?: number;
+}
+
+export interface ItemInDev {
+  /** Código único del producto. */
+  code: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Identificador de la bodega/almacén asociada al producto. */
+  warehouse?: number;
+  /** Cantidad. */
+  quantity: number;
+  /** Precio del producto / Valor unitario. */
+  price: number;
+  /** Precio del producto con impuesto de IVA incluido. */
+  taxed_price?: number;
+  /** Porcentaje o Valor de descuento. Según configuración de la factura. */
+  discount?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxIn[];
+}
+
+export interface ItemOutDev {
+  /** Identificador del producto/servicio. */
+  id?: string;
+  /** Código único del producto. */
+  code?: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Bodega/almacén asociada al producto. *Revisar */
+  warehouse?: WarehouseOutInvoice;
+  /** Cantidad. En Siigo Nube queda registado con dos decimales. */
+  quantity?: number;
+  /** Precio del producto / Valor unitario. En Siigo Nube queda registado con dos decimales. */
+  price?: number;
+  /** Porcentaje y valor de descuento. */
+  discount?: Discount;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxOutInvoice[];
+  /** Total del producto, incluye impuestos. */
+  total?: number;
+}
+
+export interface PaymentDocument {
+  /** Prefijo - Comprobante a cruzar, si el cliente tiene anticipos. */
+  prefix: string;
+  /** Consecutivo */
+  consecutive: number;
+  /** Cuota */
+  quote?: number;
+}
+
+export interface PaymentIn {
+  /** ID del medio de pago. */
+  id?: number;
+  /** Valor asociado al medio de pago. */
+  value: number;
+  /** Fecha pago cuota, formato yyyy-MM-dd. */
+  due_date?: string;
+}
+
+export interface PaymentOut {
+  /** ID del medio de pago. */
+  id?: number;
+  /** Nombre del medio de pago. */
+  name?: string;
+  /** Valor asociado al medio de pago. */
+  value: number;
+  /** Fecha pago cuota, formato yyyy-MM-dd. */
+  due_date?: string;
+}
+
+export interface VoucherPaymentIn {
+  /** ID del medio de pago con cuenta contable que no maneja vencimiento. */
+  id: number;
+  /** Valor asociado al medio de pago. */
+  value: number;
+}
+
+export interface VoucherPaymentOut {
+  /** ID del medio de pago con cuenta contable que no maneja vencimiento. */
+  id: number;
+  /** Nombre del medio de pago. */
+  name?: string;
+  /** Valor asociado al medio de pago. */
+  value: number;
+}
+
+export interface InvoicesOutList {
+  pagination?: Pagination;
+  results?: InvoiceOut[];
+  _links?: unknown;
+}
+
+export interface QuotationsOutList {
+  pagination?: Pagination;
+  results?: QuotationOut[];
+  _links?: unknown;
+}
+
+export interface DocumentCC {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=CC* */
+  id: number;
+}
+
+export interface DocumentFV {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=FV* */
+  id: number;
+}
+
+export interface DocumentC {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=C* */
+  id: number;
+}
+
+export interface DocumentFC {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=FC* */
+  id: number;
+}
+
+export interface DocumentInDev {
+  /** Identificador del comprobante */
+  id: number;
+  /** Consecutivo/número del comprobante, el campo NO es obligatorio por defecto, depende de la configuración del tipo de comprobante. */
+  number?: number;
+}
+
+export interface DocumentNC {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=NC* */
+  id: number;
+}
+
+export interface DocumentRC {
+  /** Identificador del comprobante *https://api.siigo.com/v1/document-types?type=RC* */
+  id: number;
+}
+
+export interface Totals {
+  /** Total del comprobante, es calculado según el manejo de decimales que tenga configurada la empresa al momento de la creación. */
+  total?: number;
+  totalDiscounts?: unknown;
+  totalVat?: unknown;
+  totalRetefuente?: unknown;
+}
+
+export interface FieldsTransport {
+  /** Número de radicado. */
+  file_number?: number;
+  /** Número de remesa. */
+  shipment_number?: string;
+  /** Cantidad transportada. */
+  transported_quantity?: number;
+  /** Unidad de medida. */
+  measurement_unit?: string;
+  /** Valor del Flete. */
+  freight_value?: number;
+  /** Orden de compra. */
+  purchase_order?: string;
+  /** Tipo de servicio. */
+  service_type?: string;
+}
+
+export interface InvoiceInS {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoiceS;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** ID del vendedor asociado a la factura. */
+  seller: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemIn[];
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+}
+
+export interface InvoiceOutS {
+  /** Identificador de la factura de venta. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes) factura. */
+  document?: DocumentFV;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date?: string;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoiceS;
+  /** Centro de costo. */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** Saldo pendiente de pago en la factura. */
+  balance?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Url de la vista pública de la factura de venta */
+  public_url?: string;
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface InvoiceIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoice;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** ID del vendedor asociado a la factura. */
+  seller: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemIn[];
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+  /** Descuentos globales de la factura. */
+  global_discounts?: GlobalDiscountsIn[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+}
+
+export interface InvoiceOut {
+  /** Identificador de la factura de venta. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes) factura. */
+  document?: DocumentFV;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date?: string;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costo. */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** Saldo pendiente de pago en la factura. */
+  balance?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Url de la vista pública de la factura de venta */
+  public_url?: string;
+  /** Descuentos globales de la factura. */
+  global_discounts?: GlobalDiscountsOut[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface InvoiceInDian {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoice;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** ID del vendedor asociado a la factura. */
+  seller: number;
+  /** Campo para indicar el envío de la factura electronica */
+  stamp?: StampInDian;
+  /** Campo para indicar el envío de la factura al cliente */
+  mail?: MailInCustomer;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemIn[];
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+  /** Descuentos globales de la factura. */
+  globaldiscounts?: GlobalDiscountsIn[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+}
+
+export interface QuotationIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Ventas > Documentos > Cotizaciones) */
+  document: DocumentC;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoiceS;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** ID del vendedor asociado a la cotización. */
+  seller: number;
+  /** Productos o Servicios asociados a la cotización. */
+  items: ItemInWithoutTransport[];
+}
+
+export interface QuotationOut {
+  /** Identificador de la cotización. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Ventas > Documentos > Cotizaciones) */
+  document: DocumentC;
+  /** Consecutivo/número del comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de la cotización, formato yyyy-MM-dd. */
+  date?: string;
+  /** Identificador del cliente asociado a la cotización.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costo. */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Total de la cotización. */
+  total?: number;
+  /** ID del vendedor asociado a la cotización. */
+  seller?: number;
+  /** Productos o Servicios asociados a la cotización. */
+  items?: ItemOut[];
+  /** Url de la vista pública de la cotización */
+  public_url?: string;
+  /** Información acerca del documento. */
+  metadata?: Metadata;
+}
+
+export interface InvoiceBatchInIndiviual {
+  /** Identificador externo de la factura que se va a crear */
+  idempotency_key: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoiceS;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller: number;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemInWithoutTransport[];
+  /** Campo para indicar el envío de la factura electronica */
+  stamp?: StampInDian;
+  /** Campo para indicar el envío de la factura al cliente */
+  mail?: MailInCustomer;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+}
+
+export interface InvoiceBatchIn {
+  /** URL a la que quieres que se notifique cuando se termine de procesar el lote de facturas. */
+  notification_url: string;
+  /** Facturas de venta que se van a crear */
+  invoices: InvoiceBatchInIndiviual[];
+}
+
+export interface InvoiceBatchOut {
+  /** Identificador del lote de facturas. */
+  id?: string;
+  /** Estado del procesamiento del lote de facturas. */
+  status?: string;
+  /** Fecha de recepción del lote de facturas. */
+  received_at?: string;
+}
+
+export interface InvoiceOutDian {
+  /** Identificador de la factura de venta. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes) factura. */
+  document?: DocumentFV;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date?: string;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costo. */
+  cost_center?: number;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** Saldo pendiente de pago en la factura. */
+  balance?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Campo para indicar el envío de la factura electronica */
+  stamp?: StampOutDian;
+  /** Campo para indicar el envío de la factura al cliente */
+  mail?: MailOutCustomer;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Url de la vista pública de la factura de venta */
+  public_url?: string;
+  /** Descuentos globales de la factura. */
+  globaldiscounts?: GlobalDiscountsOut[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoices;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface CopyMailIn {
+  mail_to?: string;
+  copy_to?: string;
+}
+
+export interface CopyMailOut {
+  status?: string;
+  observations?: string;
+}
+
+export interface PurchasesIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Compras y gastos > Documnetos > Facturas de compra */
+  document: DocumentFC;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del proveedor que emite la compra. */
+  supplier: CustomerInInvoiceS;
+  /** Centro de costo, el campo es obligatorio según la configuración del comprobante */
+  cost_center?: number;
+  /** Datos de factura de compra. */
+  provider_invoice?: ProviderInvoice;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Descuento por valor "Value" o porcentaje "percentage". */
+  discount_type?: string;
+  /** Indica si la FC manejara proveedor por item. */
+  supplier_by_item?: boolean;
+  /** Indica si el precio enviado tiene impuesto incluido. */
+  tax_included?: boolean;
+  /** Productos o Servicios, activos fijos co cuentras contables asociadas a la compra. */
+  items: ItemInFC[];
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+}
+
+export interface PurchasesOut {
+  /** Identificador de la factura de venta. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes) factura. */
+  document?: DocumentFC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante. */
+  name?: string;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date?: string;
+  /** Identificador del proveedor que emite la compra. */
+  supplier: CustomerInInvoiceS;
+  /** Centro de costo. */
+  cost_center?: number;
+  /** Datos de factura de compra. */
+  provider_invoice?: ProviderInvoice;
+  /** Tipo de descuento valor "Value" o porcentaje "percentage". */
+  discount_type?: string;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** Saldo pendiente de pago en la factura. */
+  balance?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOutFC[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface ItemInFC {
+  /** Tipo del item de compra. */
+  type: string;
+  /** Código único del producto. */
+  code: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Cantidad. */
+  quantity: number;
+  /** Precio del producto / Valor unitario. */
+  price: number;
+  /** Porcentaje o Valor de descuento. Según configuración de la factura. */
+  discount?: number;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxIn[];
+}
+
+export interface ItemOutFC {
+  /** Tipo del item de compra. */
+  type: string;
+  /** Identificador del producto/servicio. */
+  id?: string;
+  /** Código único del producto. */
+  code?: string;
+  /** Nombre o descripción del producto/servicio. */
+  description?: string;
+  /** Cantidad. En Siigo Nube queda registado con dos decimales. */
+  quantity?: number;
+  /** Precio del producto / Valor unitario. En Siigo Nube queda registado con dos decimales. */
+  price?: number;
+  /** Porcentaje y valor de descuento. */
+  discount?: Discount;
+  /** Impuestos que se desean asociar al producto o servicio. */
+  taxes?: TaxOutInvoice[];
+  /** Total del producto, incluye impuestos. */
+  total?: number;
+}
+
+export interface ProviderInvoice {
+  /** Prefijo de factura de venta del proveedor. */
+  prefix: string;
+  /** Consecutivo de factura de venta del proveedor. */
+  number: string;
+}
+
+export interface InvoiceInDev {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador del cliente asociado a la factura. */
+  customer: CustomerInInvoice;
+  /** Identificador del Centro de costos. */
+  cost_center?: number;
+  /** Información de la moneda y tasa de cambio asociada a la factura. */
+  currency?: Currency;
+  /** ID del vendedor asociado a la factura. */
+  seller: number;
+  /** Retenciones que se desean asociar al producto o servicio, el campo es obligatorio según la configuración del tipo de comprobante. */
+  retentions?: TaxRet[];
+  /** Valor de Anticipo o Copago. */
+  advance_payment?: number;
+  /** Comentarios para agregar información a la factura.+ advance_payment: 132 (number) - Valor de Anticipo o Copago. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemInDev[];
+  /** Formas de pago asociadas a la factura. */
+  payments: PaymentIn[];
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoice;
+}
+
+export interface InvoiceOutDev {
+  /** Identificador de la factura de venta. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Facturas) */
+  document?: DocumentFV;
+  /** Fecha de la factura, formato yyyy-MM-dd. */
+  date?: string;
+  /** Estado de la factura. */
+  status?: string;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costos. */
+  cost_center?: number;
+  /** Información de la moneda y tasa de cambio asociada a la factura. */
+  currency?: Currency;
+  /** Retenciones que se desean asociar al producto o servicio. */
+  retentions?: RetentionOutInvoice[];
+  /** Valor de Anticipo o Copago. */
+  advance_payment?: number;
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** Saldo pendiente de pago en la factura. */
+  balance?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Url de la vista pública de la factura de venta */
+  public_url?: string;
+  /** Campos adicionales como: Orden de compra y Orden de entrega. */
+  additional_fields?: AdditionalFieldsInvoice;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface InvoiceOutCreditNote {
+  /** Identificador de la factura que se le aplicó la Nota Crédito. */
+  id?: string;
+  /** Nombre de la factura que se visualiza en Siigo Nube. */
+  name?: string;
+}
+
+export interface InvoiceInCreditNote {
+  /** Identificador de la factura que se le aplicó la Nota Crédito. */
+  id?: string;
+}
+
+export interface CreditNoteIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Notas crédito) */
+  document: DocumentNC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Fecha de la nota crédito, formato yyyy-MM-dd. */
+  date: string;
+  /** Identificador de la factura que se le aplicó la Nota Crédito */
+  invoice?: string;
+  /** Centro de costos. */
+  cost_center?: number;
+  /** Motivo de devolución DIAN */
+  reason: number;
+  /** Retenciones que se desean asociar al producto o servicio, el campo es obligatorio según la configuración del tipo de comprobante. */
+  retentions?: TaxIn[];
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Campo para indicar el envío de la nota crédito electronica */
+  stamp?: StampInDian;
+  /** Campo para indicar el envío de la nota crédito al cliente. */
+  mail?: MailInCustomer;
+  /** Productos o Servicios asociados a la factura. */
+  items: ItemIn[];
+  /** Formas de pago asociadas a la Nota Crédito. */
+  payments: PaymentIn[];
+}
+
+export interface CreditNoteOut {
+  /** Identificador de la nota crédito. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Notas crédito) */
+  document?: DocumentNC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de la nota crédito, formato yyyy-MM-dd. */
+  date?: string;
+  /** Información de la factura que se le aplicó la nota crédito */
+  invoice?: InvoiceOutCreditNote;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costos. */
+  cost_center?: number;
+  /** Información de la moneda y tasa de cambio asociada a la nota crédito. */
+  currency?: Currency;
+  /** Retenciones que se desean asociar al producto o servicio. */
+  retentions?: RetentionOutInvoice[];
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Campo indica el envío de la nota crédito electronica. */
+  stamp?: StampOutDianNC;
+  /** Campo  indica el envío de la nota crédito al cliente. */
+  mail?: MailOutCustomer;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface CreditNoteOutDev {
+  /** Identificador de la nota crédito. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Notas crédito) */
+  document?: DocumentNC;
+  /** Fecha de la nota crédito, formato yyyy-MM-dd. */
+  date?: string;
+  /** Información de la factura que se le aplicó la nota crédito */
+  invoice?: InvoiceOutCreditNote;
+  /** Identificador del cliente asociado a la factura.*Revisar */
+  customer?: CustomerOutInvoice;
+  /** Centro de costos. */
+  cost_center?: number;
+  /** Información de la moneda y tasa de cambio asociada a la nota crédito. */
+  currency?: Currency;
+  /** Retenciones que se desean asociar al producto o servicio. */
+  retentions?: RetentionOutInvoice[];
+  /** Total de la factura, es calculado según el manejo de decimales que tenga configurada la empresa al momento de crear la factura. */
+  total?: number;
+  /** ID del vendedor asociado a la factura. */
+  seller?: number;
+  /** Comentarios para agregar información a la factura. */
+  observations?: string;
+  /** Productos o Servicios asociados a la factura. */
+  items?: ItemOut[];
+  /** Formas de pago asociadas a la factura. */
+  payments?: PaymentOut[];
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface CreditNotesOutList {
+  pagination?: Pagination;
+  results?: CreditNoteOut[];
+  _links?: unknown;
+}
+
+export type VoucherType = 'DebtPayment' | 'AdvancePayment' | 'Detailed';
+
+export type VoucherTypeDetailed = 'Detailed';
+
+export type VoucherMovementType = 'Debit' | 'Credit';
+
+export type JournalMovementTyped = 'Debit' | 'Credit';
+
+export type JournalMovementTypec = 'Credit' | 'Debit';
+
+export interface TaxInVoucher {
+  /** Identificador único del impuesto. */
+  id?: number;
+}
+
+export interface TaxOutVoucher {
+  /** Identificador único del impuesto. */
+  id?: number;
+  /** Nombre del impuesto. */
+  name?: string;
+  /** Porcentaje del impuesto. */
+  percentage?: number;
+  /** Valor Base */
+  base_value?: number;
+}
+
+export interface ItemVoucher {
+  /** Vencimiento / Factura de venta a la cuál se le va a aplicar el abono o pago */
+  due?: Due;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface ItemPayouts {
+  /** Vencimiento / Factura de conmpra a la cuál se le va a aplicar el abono o pago */
+  due?: DueDetailedPayouts;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface ItemPayoutsDetailed {
+  /** Cuenta contable */
+  account: VoucherAccount;
+  /** Factura de compra a la cuál se le va a aplicar el recibo de pago/egreso */
+  due?: DueDetailedPayouts;
+  /** descripción */
+  description?: string;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface ItemOutPayoutsDetailed {
+  /** Cuenta contable */
+  account?: VoucherAccount;
+  /** Factura de compra a la cuál se le va a aplicar el recibo de pago/egreso */
+  due?: DueDetailedPayouts;
+  /** descripción */
+  description?: string;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface Due {
+  /** Prefijo de factura a la cual se le va a aplicar el abono o pago */
+  prefix: string;
+  /** Consecutivo de la factura a la cual se le va a aplicar el abono o pago */
+  consecutive: number;
+  /** Número de la cuota que se va a pagar o a abonar */
+  quote: number;
+  /** Fecha pago cuota, formato yyyy-MM-dd. */
+  date?: string;
+}
+
+export interface DueDetailed {
+  /** Prefijo de factura a la cual se le va a aplicar el abono o pago */
+  prefix: string;
+  /** Consecutivo de la factura a la cual se le va a aplicar el abono o pago */
+  consecutive: number;
+  /** Número de la cuota que se va a pagar o a abonar */
+  quote: number;
+  /** Fecha pago cuota, formato yyyy-MM-dd. */
+  date?: string;
+}
+
+export interface DueDetailedPayouts {
+  /** Prefijo de factura a la cual se le va a aplicar el abono o pago */
+  prefix: string;
+  /** Consecutivo de la factura a la cual se le va a aplicar el abono o pago */
+  consecutive: number;
+  /** Número de la cuota que se va a pagar o a abonar */
+  quote: number;
+  /** Fecha pago cuota, formato yyyy-MM-dd. */
+  date?: string;
+}
+
+export interface ItemInCC {
+  /** Cuenta contable */
+  account: JournalAccountd;
+  /** Identificador del tercero asociado al comprobante contable. */
+  customer: CustomerInVoucher;
+  /** descripción */
+  description?: string;
+  /** Centro de costos. El campo es obligatorio según la configuración del comprobante. */
+  cost_center?: number;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface ItemVoucherDetailed {
+  /** Cuenta contable */
+  account: VoucherAccount;
+  /** Factura de venta a la cuál se le va a aplicar el recibo de caja */
+  due?: DueDetailed;
+  /** descripción */
+  description?: string;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface ItemOutVoucherDetailed {
+  /** Cuenta contable */
+  account?: VoucherAccount;
+  /** Factura de venta a la cuál se le va a aplicar el recibo de caja */
+  due?: DueDetailed;
+  /** descripción */
+  description?: string;
+  /** Valor total del item */
+  value: number;
+}
+
+export interface CustomerInVoucher {
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+}
+
+export interface CustomerInBalance {
+  /** Número de identificación del tercero por el cual se quiera filtrar el reporte. */
+  identification?: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+}
+
+export interface CustomerOutVoucher {
+  /** Identificador del cliente. */
+  id?: string;
+  /** Número de identificación del cliente. */
+  identification: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+}
+
+export interface VoucherAccount {
+  /** Código de la cuenta contable. */
+  code: string;
+  /** Tipo de movimiento a realizar con la cuenta. */
+  movement: VoucherMovementType;
+}
+
+export interface JournalAccountd {
+  /** Código de la cuenta contable. */
+  code: string;
+  /** Tipo de movimiento a realizar con la cuenta. */
+  movement: JournalMovementTyped;
+}
+
+export interface JournalAccountc {
+  /** Código de la cuenta contable. */
+  code: string;
+  /** Tipo de movimiento a realizar con la cuenta. */
+  movement: JournalMovementTypec;
+}
+
+export interface VoucherIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Recibos de caja) */
+  document: DocumentRC;
+  /** Fecha de elaboración del recibo de caja, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de Recibo de Caja. */
+  type: VoucherType;
+  /** Identificador del cliente asociado al recibo de caja. */
+  customer: CustomerInVoucher;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Facturas a las que se les va a aplicar el abono o pago. (Obligatorio si type = DebtPayment) */
+  items?: ItemVoucher[];
+  /** ID y valor de la forma de pago. */
+  payment?: VoucherPaymentIn;
+  /** Comentarios para agregar información al recibo de caja. */
+  observations?: string;
+}
+
+export interface VoucherOut {
+  /** Identificador de el recibo de caja. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Recibos de caja) */
+  document?: DocumentRC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de elaboración del recibo de caja, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de Recibo de Caja. */
+  type: VoucherType;
+  /** Identificador del cliente asociado al recibo de caja. */
+  customer: CustomerOutVoucher;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Facturas a las que se les aplicó el abono o pago. */
+  items?: ItemVoucher[];
+  /** ID y valor de la forma de pago. */
+  payment?: VoucherPaymentOut;
+  /** Saldo del recibo de caja. */
+  balance?: number;
+  /** Comentarios para agregar información al recibo de caja. */
+  observations?: string;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface VoucherInDetailed {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Recibos de caja) */
+  document: DocumentRC;
+  /** Fecha de elaboración del recibo de caja, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de recibo de caja */
+  type: VoucherTypeDetailed;
+  /** Identificador del cliente asociado al recibo de caja. */
+  customer: CustomerInVoucher;
+  /** Centro de costos. El campo es obligatorio según la configuración del comprobante. */
+  cost_center?: number;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** descripción */
+    description?: string;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** descripción */
+    description?: string;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Comentarios para agregar información al recibo de caja. */
+  observations?: string;
+}
+
+export interface VoucherOutDetailed {
+  /** Identificador de el Recibo de Caja. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Recibos de caja) */
+  document?: DocumentRC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de elaboración del recibo de caja, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de recibo de caja */
+  type: VoucherTypeDetailed;
+  /** Identificador del tercero asociado al recibo de caja. */
+  customer: CustomerOutVoucher;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** descripción */
+    description?: string;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** descripción */
+    description?: string;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Comentarios para agregar información al recibo de caja. */
+  observations?: string;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface PayoutsIn {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Compras y gastos > Documentos > Recibo de pago/egreso) */
+  document: DocumentRC;
+  /** Fecha de elaboración del recibo de pago/egreso, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de Recibo de pago/egreso. */
+  type: VoucherType;
+  /** Identificador del proveedor que se registra el pago. */
+  supplier: CustomerInInvoiceS;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Facturas a las que se les va a aplicar el abono o pago. (Obligatorio si type = DebtPayment) */
+  items?: ItemPayouts[];
+  /** ID y valor de la forma de pago. */
+  payment?: VoucherPaymentIn;
+  /** Comentarios para agregar información al recibo de pago/egreso. */
+  observations?: string;
+}
+
+export interface PayoutsOut {
+  /** Identificador de el recibo de pago/egreso. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Compras y gastos > Documentos > Recibo de pago/egreso) */
+  document?: DocumentRC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de elaboración del recibo de pago/egreso, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de Recibo de pago/egreso. */
+  type: VoucherType;
+  /** Identificador del proveedor que se registra el pago. */
+  supplier: CustomerInInvoiceS;
+  /** Código de Moneda Extranjera */
+  currency?: Currency;
+  /** Facturas a las que se les aplicó el abono o pago. */
+  items?: ItemPayouts[];
+  /** ID y valor de la forma de pago. */
+  payment?: VoucherPaymentOut;
+  /** Saldo del recibo de caja. */
+  balance?: number;
+  /** Comentarios para agregar información al recibo de pago/egreso. */
+  observations?: string;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface PayoutsInDetailed {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Compras y gastos > Documentos > Recibo de pago/egreso) */
+  document: DocumentRC;
+  /** Fecha de elaboración del recibo de pago/egreso, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de recibo de pago/egreso */
+  type: VoucherTypeDetailed;
+  /** Identificador del proveedor que se registra el pago. */
+  supplier: CustomerInInvoiceS;
+  /** Centro de costos. El campo es obligatorio según la configuración del comprobante. */
+  cost_center?: number;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** descripción */
+    description?: string;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** descripción */
+    description?: string;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Comentarios para agregar información al recibo de pago/egreso. */
+  observations?: string;
+}
+
+export interface PayoutsOutDetailed {
+  /** Identificador de el Recibo de pago/egreso. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Compras y gastos > Documentos > Recibo de pago/egreso) */
+  document?: DocumentRC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de elaboración del recibo de pago/egreso, formato yyyy-MM-dd. */
+  date: string;
+  /** Tipo de recibo de caja */
+  type: VoucherTypeDetailed;
+  /** Identificador del proveedor que se registra el pago. */
+  supplier: CustomerInInvoiceS;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** descripción */
+    description?: string;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** descripción */
+    description?: string;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Comentarios para agregar información al recibo de pago/egreso. */
+  observations?: string;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface BalanceIn {
+  /** Número de la cuenta contable desde la que se generara el reporte. */
+  account_start?: string;
+  /** Número de la cuenta contable hasta la que terminara el reporte. */
+  account_end?: string;
+  /** Año en formato yyyy. */
+  year: number;
+  /** Debe ser un número entero entre 1 y 13, no debe ser mayor al número del mes final y es obligatorio. */
+  month_start: number;
+  /** Debe ser un número entero entre 1 y 13, no debe ser menor al número del mes inicial y es obligatorio. */
+  month_end: number;
+  /** Se debe indicar true o false dependiendo si se espera incluir en el reporte las cuentas con diferencia fiscal. */
+  includes_tax_difference: boolean;
+}
+
+export interface BalancePorTerceroIn {
+  /** Número de la cuenta contable desde la que se generara el reporte. */
+  account_start?: string;
+  /** Número de la cuenta contable hasta la que terminara el reporte. */
+  account_end?: string;
+  /** Año en formato yyyy. */
+  year: number;
+  /** Debe ser un número entero entre 1 y 13, no debe ser mayor al número del mes final y es obligatorio. */
+  month_start: number;
+  /** Debe ser un número entero entre 1 y 13, no debe ser menor al número del mes inicial y es obligatorio.. */
+  month_end: number;
+  /** Se debe indicar true o false dependiendo si se espera incluir en el reporte las cuentas con diferencia fiscal. */
+  includes_tax_difference: boolean;
+  /** Identificador del tercero que se quiera filtrar para generar el Balance, si no se envía el objeto se obtendrá el reporte con todos los terceros. */
+  customer?: CustomerInBalance;
+}
+
+export interface Balanceout {
+  /** ID del balance de prueba generado. */
+  file_id?: string;
+  /** Enlace para descargar el balance generado en Excel. */
+  file_url?: string;
+}
+
+export interface JournalsInDev {
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Comprobante Contable. */
+  document: DocumentCC;
+  /** Fecha de elaboración del comprobante contable formato yyyy-MM-dd. */
+  date: string;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** Identificador del tercero asociado al comprobante contable. */
+    customer: CustomerInVoucher;
+    /** descripción */
+    description?: string;
+    /** Centro de costos. */
+    cost_center?: number;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** Identificador del tercero asociado al comprobante contable. */
+    customer: CustomerInVoucher;
+    /** descripción */
+    description?: string;
+    /** Centro de costos. */
+    cost_center?: number;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Comentarios para agregar información al comprobante contable. */
+  observations?: string;
+}
+
+export interface JournalsOutDev {
+  /** Identificador de el comprobante contable. */
+  id?: string;
+  /** Tipo de Comprobante (Para verificar la configuración ir a Siigo Nube en el menú Configuración > Transacciones > Comprobantes > Comprobante Contable. */
+  document: DocumentCC;
+  /** Consecutivo/número del comprobante, el campo es obligatorio según la configuración del tipo de comprobante. */
+  number?: number;
+  /** Tipo de Comprobante + Código de Comprobante + Número de Comprobante */
+  name?: string;
+  /** Fecha de elaboración del comprobante contable formato yyyy-MM-dd. */
+  date: string;
+  items?: Array<{
+    account?: JournalAccountd;
+    /** Identificador del tercero asociado al comprobante contable. */
+    customer: CustomerOutVoucher;
+    /** descripción */
+    description?: string;
+    /** Centro de costos. */
+    cost_center?: number;
+    /** Valor débito. */
+    value: number;
+  } | {
+    account?: JournalAccountc;
+    /** Identificador del tercero asociado al comprobante contable. */
+    customer: CustomerOutVoucher;
+    /** descripción */
+    description?: string;
+    /** Centro de costos. */
+    cost_center?: number;
+    /** Valor crédito. */
+    value: number;
+  }>;
+  /** Saldo del comprobante contable. */
+  balance?: number;
+  /** Comentarios para agregar información al comprobante contable. */
+  observations?: string;
+  /** Información acerca de la entidad. */
+  metadata?: Metadata;
+}
+
+export interface PurchaseInDev {}
+
+export interface PurchaseOutDev {}
+
+export interface DueProvider {
+  /** Prefijo del vencimiento del pago. */
+  prefix?: string;
+  /** Consecutivo del vencimiento del pago. */
+  consecutive?: number;
+  /** Número de la cuota del vencimiento del pago. */
+  quote?: number;
+  /** Fecha del vencimiento del pago, formato yyyy-MM-dd. */
+  date?: string;
+}
+
+export interface ProviderInfoOut {
+  /** Identificador del proveedor. */
+  id?: string;
+  /** Número de identificación del proveedor por el cual se quiera filtrar el reporte. */
+  identification?: string;
+  /** Sucursal, valor por default 0. */
+  branch_office?: number;
+  /** Nombre del proveedor */
+  name?: string;
+}
+
+export interface CostCenterProvider {
+  /** Código del centro de costo. */
+  code?: string;
+  /** Nombre del centro de costo. */
+  name?: string;
+}
+
+export interface CurrencyProvider {
+  /** Código de moneda. */
+  code?: string;
+  /** Valor del vencimiento en moneda extranjera. */
+  balance?: number;
+}
+
+export interface ProviderOut {
+  /** Detalle del vencimineto de la deuda con el proveedor. */
+  due?: DueProvider;
+  /** Identificador del tercero que se quiera filtrar para generar el reporte, si no se envía el objeto se obtendrá el reporte con todos los terceros. */
+  provider?: ProviderInfoOut;
+  /** Número y nombre del centro de costos. */
+  cost_center?: CostCenterProvider;
+  /** Código de Moneda Extranjera. */
+  currency?: CurrencyProvider;
+}
+
+export interface ProviderOutList {
+  pagination?: Pagination;
+  results?: ProviderOut[];
+  _links?: unknown;
+}
+
+export interface WebhooksIn {
+  /** Nombre del software o aplicación que recibirá las notificaciones. */
+  application_id: string;
+  /** Evento al que se desea suscribir. */
+  topic: string;
+  /** Url en la que se desea recibir las notificaciones. */
+  url: string;
+}
+
+export interface WebhooksInPUT {
+  /** Nombre del software o aplicación que recibirá las notificaciones. */
+  application_id: string;
+  /** Evento al que se desea suscribir. */
+  topic: string;
+  /** Url en la que se desea recibir las notificaciones. */
+  url: string;
+  /** Indica el estado de la suscripción. */
+  active?: boolean;
+}
+
+export interface WebhooksOut {
+  /** Id de la suscripción. */
+  id?: string;
+  /** Nombre del software o aplicación que recibirá las notificaciones. */
+  application_id?: string;
+  /** Url a la que se van a enviar las notificaciones. */
+  url?: string;
+  /** Evento al que se suscribió. */
+  topic?: string;
+  /** Nombre de la empresa suscrita al webhook. */
+  company_key?: string;
+  /** Indica el estado de la suscripción. */
+  active?: boolean;
+  /** Fecha y hora de la suscripción. */
+  created_at?: string;
+}
+
+export interface WebhooksOutGet {
+  pagination?: Pagination;
+  results?: WebhooksOut[];
+  _links?: unknown;
+}
+
+export interface VouchersOutList {
+  pagination?: Pagination;
+  results?: VoucherOut[];
+  _links?: unknown;
+}
+
+export interface PayoutsOutList {
+  pagination?: Pagination;
+  results?: PayoutsOut[];
+  _links?: unknown;
+}
+
+export interface JournalsOutList {
+  pagination?: Pagination;
+  results?: JournalsOutDev[];
+  _links?: unknown;
+}
+
+// ==================== SCHEMAS ====================
+
+export const AccountGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  active: z.boolean(),
+});
+
+export const AccountGroupOutSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+});
+
+export const ProductTypeSchema = z.enum(['Product', 'Service', 'ConsumerGood']);
+
+export const TaxClassificationSchema = z.enum(['Taxed', 'Exempt', 'Excluded']);
+
+export const AssetGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  active: z.boolean(),
+});
+
+export const TaxTypeSchema = z.enum(['IVA', 'Retefuente', 'ReteIVA', 'ReteICA', 'Impoconsumo', 'AdValorem', 'Autorretencion']);
+
+export const PaymentTypeSchema = z.enum(['Cartera', 'Proveedor', 'CarteraProveedor']);
+
+export const DocumentTypeSchema = z.enum(['FV', 'RC', 'NC', 'FC', 'CC']);
+
+export const DiscountTypeSchema = z.enum(['Percentage', 'Value']);
+
+export const ElectronicTypeSchema = z.enum(['NoElectronic', 'Electronicvoice', 'ContingencyInvoice', 'ExportInvoice']);
+
+export const TokenInSchema = z.object({
+  username: z.string(),
+  access_key: z.string(),
+});
+
+export const TokenOutSchema = z.object({
+  access_token: z.string().optional(),
+  expires_in: z.number().optional(),
+  token_type: z.string().optional(),
+  scope: z.string().optional(),
+});
+
+export const FixedassetsSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  group: z.string(),
+  active: z.boolean(),
+});
+
+export const TaxSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: TaxTypeSchema,
+  percentage: z.number(),
+  active: z.boolean(),
+});
+
+export const GlobalDiscountsInSchema = z.object({
+  id: z.number(),
+  percentage: z.number(),
+  value: z.number(),
+});
+
+export const GlobalDiscountsOutSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  percentage: z.number(),
+  value: z.number(),
+});
+
+export const TaxInSchema = z.object({
+  id: z.number(),
+});
+
+export const TaxInProductSchema = z.object({
+  id: z.number(),
+  milliliters: z.number().optional(),
+  rate: z.number().optional(),
+});
+
+export const TaxRetSchema = z.object({
+  id: z.number(),
+});
+
+export const TaxOutSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: TaxTypeSchema.optional(),
+  percentage: z.number().optional(),
+});
+
+export const TaxOutInvoiceSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: TaxTypeSchema.optional(),
+  percentage: z.number().optional(),
+  value: z.number().optional(),
+});
+
+export const RetentionOutInvoiceSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: TaxTypeSchema.optional(),
+  percentage: z.number().optional(),
+  value: z.number().optional(),
+});
+
+export const PriceListSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  active: z.boolean().optional(),
+  position: z.number().optional(),
+});
+
+export const PriceListInSchema = z.object({
+  position: z.number(),
+  value: z.number(),
+});
+
+export const PriceInSchema = z.object({
+  currency_code: z.string(),
+  price_list: z.array(PriceListInSchema),
+});
+
+export const PriceListOutSchema = z.object({
+  position: z.number().optional(),
+  name: z.string().optional(),
+  value: z.number().optional(),
+});
+
+export const PriceOutSchema = z.object({
+  currency_code: z.string(),
+  price_list: z.array(PriceListOutSchema),
+});
+
+export const UnitOutSchema = z.object({
+  code: z.string(),
+  name: z.string().optional(),
+});
+
+export const AdditionalFieldsSchema = z.object({
+  barcode: z.string().optional(),
+  brand: z.string().optional(),
+  tariff: z.string().optional(),
+  model: z.string().optional(),
+});
+
+export const WarehouseSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  active: z.boolean().optional(),
+  has_movements: z.boolean().optional(),
+});
+
+export const WarehouseProductSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  quantity: z.number().optional(),
+});
+
+export const WarehouseOutInvoiceSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+});
+
+export const UserSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  active: z.boolean(),
+  identification: z.string(),
+});
+
+export const PaymentTypesSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: PaymentTypeSchema,
+  active: z.boolean(),
+  due_date: z.boolean(),
+});
+
+export const DocumentSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: DocumentTypeSchema.optional(),
+  active: z.boolean().optional(),
+  seller_by_item: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+  discount_type: DiscountTypeSchema.optional(),
+  decimals: z.boolean().optional(),
+  advance_payment: z.boolean().optional(),
+  reteiva: z.boolean().optional(),
+  reteica: z.boolean().optional(),
+  self_withholding: z.boolean().optional(),
+  self_withholding_limit: z.number().optional(),
+  electronic_type: ElectronicTypeSchema.optional(),
+});
+
+export const DocumentTypeCSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+  discount_type: DiscountTypeSchema.optional(),
+  decimals: z.boolean().optional(),
+});
+
+export const DocumentTypeFVSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: DocumentTypeSchema.optional(),
+  active: z.boolean().optional(),
+  seller_by_item: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+  discount_type: DiscountTypeSchema.optional(),
+  decimals: z.boolean().optional(),
+  advance_payment: z.boolean().optional(),
+  reteiva: z.boolean().optional(),
+  reteica: z.boolean().optional(),
+  self_withholding: z.boolean().optional(),
+  self_withholding_limit: z.number().optional(),
+  electronic_type: ElectronicTypeSchema.optional(),
+  cargo_transportation: z.boolean().optional(),
+  healthcare_company: z.boolean().optional(),
+  customer_by_item: z.boolean().optional(),
+});
+
+export const DocumentTypeFCSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+  decimals: z.boolean().optional(),
+  consumption_tax: z.boolean().optional(),
+  reteiva: z.boolean().optional(),
+  reteica: z.boolean().optional(),
+  document_support: z.boolean().optional(),
+});
+
+export const DocumentTypeRCSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  cost_center_default: z.number().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+});
+
+export const DocumentTypeRPSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  cost_center_default: z.number().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+});
+
+export const DocumentTypeNCSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  cost_center_default: z.number().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+  customer_by_item: z.boolean().optional(),
+});
+
+export const DocumentTypeCCSchema = z.object({
+  id: z.number().optional(),
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  active: z.boolean().optional(),
+  cost_center: z.boolean().optional(),
+  cost_center_mandatory: z.boolean().optional(),
+  cost_center_default: z.number().optional(),
+  automatic_number: z.boolean().optional(),
+  consecutive: z.number().optional(),
+});
+
+export const CostCenterSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  active: z.boolean(),
+});
+
+export const IdTypeSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+});
+
+export const CurrencySchema = z.object({
+  code: z.string(),
+  exchange_rate: z.number(),
+});
+
+export const DiscountSchema = z.object({
+  percentage: z.number().optional(),
+  value: z.number().optional(),
+});
+
+export const AccounGroupInSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+});
+
+export const ProductInSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  account_group: z.number(),
+  type: ProductTypeSchema,
+  stock_control: z.boolean().optional(),
+  active: z.boolean().optional(),
+  tax_classification: TaxClassificationSchema.optional(),
+  tax_included: z.boolean().optional(),
+  tax_consumption_value: z.number().optional(),
+  taxes: z.array(TaxInProductSchema).optional(),
+  prices: z.array(PriceInSchema).optional(),
+  unit: z.string().optional(),
+  unit_label: z.string().optional(),
+  reference: z.string().optional(),
+  description: z.string().optional(),
+  additional_fields: AdditionalFieldsSchema.optional(),
+});
+
+export const MetadataCreateSchema = z.object({
+  created: z.string().optional(),
+  last_updated: z.string().optional(),
+});
+
+export const ProductOutCreateSchema = z.object({
+  id: z.string().optional(),
+  code: z.string(),
+  name: z.string(),
+  account_group: AccountGroupOutSchema.optional(),
+  type: ProductTypeSchema,
+  stock_control: z.boolean().optional(),
+  active: z.boolean().optional(),
+  tax_classification: TaxClassificationSchema.optional(),
+  tax_included: z.boolean().optional(),
+  tax_consumption_value: z.number().optional(),
+  taxes: z.array(TaxOutSchema).optional(),
+  prices: z.array(PriceOutSchema).optional(),
+  unit: UnitOutSchema.optional(),
+  unit_label: z.string().optional(),
+  reference: z.string().optional(),
+  description: z.string().optional(),
+  additional_fields: AdditionalFieldsSchema.optional(),
+  available_quantity: z.number().optional(),
+  warehouses: z.array(z.unknown()).optional(),
+  metadata: MetadataCreateSchema.optional(),
+});
+
+export const MetadataSchema = z.object({
+  created: z.string().optional(),
+  last_updated: z.string().optional(),
+});
+
+export const ProductOutSchema = z.object({
+  id: z.string().optional(),
+  code: z.string(),
+  name: z.string(),
+  account_group: AccountGroupOutSchema.optional(),
+  type: ProductTypeSchema,
+  stock_control: z.boolean().optional(),
+  active: z.boolean().optional(),
+  tax_classification: TaxClassificationSchema.optional(),
+  tax_included: z.boolean().optional(),
+  tax_consumption_value: z.number().optional(),
+  taxes: z.array(TaxOutSchema).optional(),
+  prices: z.array(PriceOutSchema).optional(),
+  unit: UnitOutSchema.optional(),
+  unit_label: z.string().optional(),
+  reference: z.string().optional(),
+  description: z.string().optional(),
+  additional_fields: AdditionalFieldsSchema.optional(),
+  available_quantity: z.number().optional(),
+  warehouses: z.array(WarehouseProductSchema).optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const PaginationSchema = z.object({
+  page: z.number().optional(),
+  page_size: z.number().optional(),
+  total_results: z.number().optional(),
+});
+
+export const ProductsOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(ProductOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const CustomerTypeSchema = z.enum(['Customer', 'Supplier', 'Other']);
+
+export const PersonTypeSchema = z.enum(['Person', 'Company']);
+
+export const CitySchema = z.object({
+  CityID: z.string(),
+  CountryCode: z.string(),
+  CountryName: z.string(),
+  StateCode: z.string(),
+  StateName: z.string(),
+  CityCode: z.string(),
+  CityName: z.string(),
+});
+
+export const CityInSchema = z.object({
+  country_code: z.string(),
+  state_code: z.string(),
+  city_code: z.string(),
+});
+
+export const CityOutSchema = z.object({
+  country_code: z.string(),
+  country_name: z.string().optional(),
+  state_code: z.string(),
+  state_name: z.string().optional(),
+  city_code: z.string(),
+  city_name: z.string().optional(),
+});
+
+export const CityOutInvoiceSchema = z.object({
+  country_name: z.string().optional(),
+  state_name: z.string().optional(),
+  city_name: z.string().optional(),
+});
+
+export const AddressInSchema = z.object({
+  address: z.string(),
+  city: CityInSchema,
+  postal_code: z.string().optional(),
+});
+
+export const AddressOutSchema = z.object({
+  address: z.string(),
+  city: CityOutSchema,
+  postal_code: z.string().optional(),
+});
+
+export const PhoneSchema = z.object({
+  indicative: z.string().optional(),
+  number: z.string(),
+  extension: z.string().optional(),
+});
+
+export const PhoneContactSchema = z.object({
+  indicative: z.string().optional(),
+  number: z.string().optional(),
+  extension: z.string().optional(),
+});
+
+export const ContactSchema = z.object({
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  phone: PhoneContactSchema.optional(),
+});
+
+export const FiscalResponsabilityInSchema = z.object({
+  code: z.string(),
+});
+
+export const FiscalResponsabilitySchema = z.object({
+  code: z.string(),
+  name: z.string().optional(),
+});
+
+export const RelatedUsersSchema = z.object({
+  seller_id: z.number().optional(),
+  collector_id: z.number().optional(),
+});
+
+export const CustomFieldSchema = z.object({
+  key: z.string().optional(),
+  value: z.string().optional(),
+});
+
+export const XmlSchema = z.object({
+  id: z.string().optional(),
+  base64: z.string().optional(),
+});
+
+export const PdfSchema = z.object({
+  id: z.string().optional(),
+  base64: z.string().optional(),
+});
+
+export const PdfNCSchema = z.object({
+  id: z.string().optional(),
+  base64: z.string().optional(),
+});
+
+export const RejectedOutSchema = z.object({
+  message: z.string().optional(),
+});
+
+export const FvRejectedSchema = z.object({
+  id: z.string().optional(),
+  errors: z.array(RejectedOutSchema).optional(),
+});
+
+export const CustomerInSchema = z.object({
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema,
+  id_type: z.string(),
+  identification: z.string(),
+  check_digit: z.string().optional(),
+  name: z.array(z.string()),
+  commercial_name: z.string().optional(),
+  branch_office: z.number().optional(),
+  active: z.boolean().optional(),
+  vat_responsible: z.boolean().optional(),
+  fiscal_responsibilities: z.array(FiscalResponsabilityInSchema).optional(),
+  address: AddressInSchema,
+  phones: z.array(PhoneSchema),
+  contacts: z.array(ContactSchema),
+  comments: z.string().optional(),
+  related_users: RelatedUsersSchema.optional(),
+});
+
+export const CustomerInEcSchema = z.object({
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema,
+  id_type: z.string(),
+  identification: z.string(),
+  name: z.array(z.string()),
+  commercial_name: z.string().optional(),
+  active: z.boolean().optional(),
+  address: AddressInSchema,
+  phones: z.array(PhoneSchema),
+  contacts: z.array(ContactSchema),
+  comments: z.string().optional(),
+  related_users: RelatedUsersSchema.optional(),
+});
+
+export const CustomerOutEcSchema = z.object({
+  id: z.string().optional(),
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema.optional(),
+  id_type: IdTypeSchema.optional(),
+  identification: z.string().optional(),
+  name: z.array(z.string()).optional(),
+  commercial_name: z.string().optional(),
+  active: z.boolean().optional(),
+  address: AddressOutSchema.optional(),
+  phones: z.array(PhoneSchema).optional(),
+  contacts: z.array(ContactSchema).optional(),
+  comments: z.string().optional(),
+  related_users: RelatedUsersSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const CustomerOutSchema = z.object({
+  id: z.string().optional(),
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema,
+  id_type: IdTypeSchema,
+  identification: z.string(),
+  check_digit: z.string().optional(),
+  name: z.array(z.string()),
+  commercial_name: z.string().optional(),
+  branch_office: z.number().optional(),
+  active: z.boolean().optional(),
+  vat_responsible: z.boolean().optional(),
+  fiscal_responsibilities: z.array(FiscalResponsabilitySchema).optional(),
+  address: AddressOutSchema,
+  phones: z.array(PhoneSchema),
+  contacts: z.array(ContactSchema),
+  comments: z.string().optional(),
+  related_users: RelatedUsersSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const PurchaseOrderSchema = z.object({
+  prefix: z.string().optional(),
+  number: z.string().optional(),
+});
+
+export const DeliveryOrderSchema = z.object({
+  prefix: z.string().optional(),
+  number: z.string().optional(),
+  date: z.string(),
+});
+
+export const AdditionalFieldsInvoiceSchema = z.object({
+  purchase_order: PurchaseOrderSchema.optional(),
+  delivery_order: DeliveryOrderSchema.optional(),
+});
+
+export const AdditionalFieldsInvoicesSchema = z.object({});
+
+export const CustomersOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(CustomerOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const StampInDianSchema = z.object({
+  send: z.boolean(),
+});
+
+export const StampOutDianSchema = z.object({
+  status: z.string().optional(),
+  cufe: z.string().optional(),
+  observations: z.string().optional(),
+  errors: z.string().optional(),
+});
+
+export const StampOutDianNCSchema = z.object({
+  status: z.string().optional(),
+  cude: z.string().optional(),
+  observations: z.string().optional(),
+  errors: z.string().optional(),
+});
+
+export const MailInCustomerSchema = z.object({
+  send: z.boolean(),
+});
+
+export const MailOutCustomerSchema = z.object({
+  status: z.string().optional(),
+  observations: z.string().optional(),
+});
+
+export const CopyCustomerInSchema = z.object({
+  mail_to: z.string().optional(),
+  copy_to: z.string().optional(),
+});
+
+export const CopyCustomerOutSchema = z.object({
+  status: z.string().optional(),
+  observations: z.string().optional(),
+});
+
+export const CustomerInInvoiceSSchema = z.object({
+  identification: z.string(),
+  branch_office: z.number().optional(),
+});
+
+export const CustomerOutInvoiceSSchema = z.object({
+  id: z.string().optional(),
+  identification: z.string(),
+  branch_office: z.number().optional(),
+});
+
+export const CustomerInInvoiceSchema = z.object({
+  person_type: z.string(),
+  id_type: z.string(),
+  identification: z.string(),
+  branch_office: z.number().optional(),
+  name: z.array(z.string()),
+  address: AddressOutSchema,
+  phones: z.array(PhoneSchema),
+  contacts: z.array(ContactSchema),
+});
+
+export const CustomerOutInvoiceSchema = z.object({
+  id: z.string().optional(),
+  identification: z.string(),
+  branch_office: z.number().optional(),
+});
+
+export const CustomerOutInvoiceCompletoSinUsarSchema = z.object({
+  id: z.string().optional(),
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema,
+  id_type: z.string(),
+  identification: z.string(),
+  check_digit: z.string().optional(),
+  name: z.array(z.string()),
+  commercial_name: z.string().optional(),
+  branch_office: z.number().optional(),
+  vat_responsible: z.boolean().optional(),
+  fiscal_responsibilities: z.array(FiscalResponsabilitySchema).optional(),
+  address: AddressOutSchema,
+  phones: z.array(PhoneSchema),
+  contacts: z.array(ContactSchema),
+});
+
+export const NameCustomerSchema = z.object({
+  code: z.string(),
+  description: z.string().optional(),
+});
+
+export const FieldsTransportSchema = z.object({
+  file_number: z.number().optional(),
+  shipment_number: z.string().optional(),
+  transported_quantity: z.number().optional(),
+  measurement_unit: z.string().optional(),
+  freight_value: z.number().optional(),
+  purchase_order: z.string().optional(),
+  service_type: z.string().optional(),
+});
+
+export const ItemInSchema = z.object({
+  code: z.string(),
+  description: z.string().optional(),
+  quantity: z.number(),
+  price: z.number(),
+  discount: z.number().optional(),
+  taxes: z.array(TaxInSchema).optional(),
+  transport: FieldsTransportSchema.optional(),
+});
+
+export const ItemInWithoutTransportSchema = z.object({
+  code: z.string(),
+  description: z.string().optional(),
+  quantity: z.number(),
+  price: z.number(),
+  taxes: z.array(TaxInSchema).optional(),
+  discount: z.number().optional(),
+});
+
+export const ItemOutSchema = z.object({
+  id: z.string().optional(),
+  code: z.string().optional(),
+  description: z.string().optional(),
+  quantity: z.number().optional(),
+  price: z.number().optional(),
+  discount: DiscountSchema.optional(),
+  taxes: z.array(TaxOutInvoiceSchema).optional(),
+  total: z.number().optional(),
+});
+
+export const ItemInDevSchema = z.object({
+  code: z.string(),
+  description: z.string().optional(),
+  warehouse: z.number().optional(),
+  quantity: z.number(),
+  price: z.number(),
+  taxed_price: z.number().optional(),
+  discount: z.number().optional(),
+  taxes: z.array(TaxInSchema).optional(),
+});
+
+export const ItemOutDevSchema = z.object({
+  id: z.string().optional(),
+  code: z.string().optional(),
+  description: z.string().optional(),
+  warehouse: WarehouseOutInvoiceSchema.optional(),
+  quantity: z.number().optional(),
+  price: z.number().optional(),
+  discount: DiscountSchema.optional(),
+  taxes: z.array(TaxOutInvoiceSchema).optional(),
+  total: z.number().optional(),
+});
+
+export const PaymentDocumentSchema = z.object({
+  prefix: z.string(),
+  consecutive: z.number(),
+  quote: z.number().optional(),
+});
+
+export const PaymentInSchema = z.object({
+  id: z.number().optional(),
+  value: z.number(),
+  due_date: z.string().optional(),
+});
+
+export const PaymentOutSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  value: z.number(),
+  due_date: z.string().optional(),
+});
+
+export const VoucherPaymentInSchema = z.object({
+  id: z.number(),
+  value: z.number(),
+});
+
+export const VoucherPaymentOutSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  value: z.number(),
+});
+
+export const DocumentFVSchema = z.object({
+  id: z.number(),
+});
+
+export const InvoiceOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentFVSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  total: z.number().optional(),
+  balance: z.number().optional(),
+  seller: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  public_url: z.string().optional(),
+  global_discounts: z.array(GlobalDiscountsOutSchema).optional(),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const InvoicesOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(InvoiceOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const DocumentCSchema = z.object({
+  id: z.number(),
+});
+
+export const QuotationOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentCSchema,
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  total: z.number().optional(),
+  seller: z.number().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  public_url: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const QuotationsOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(QuotationOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const DocumentCCSchema = z.object({
+  id: z.number(),
+});
+
+export const DocumentFCSchema = z.object({
+  id: z.number(),
+});
+
+export const DocumentInDevSchema = z.object({
+  id: z.number(),
+  number: z.number().optional(),
+});
+
+export const DocumentNCSchema = z.object({
+  id: z.number(),
+});
+
+export const DocumentRCSchema = z.object({
+  id: z.number(),
+});
+
+export const TotalsSchema = z.object({
+  total: z.number().optional(),
+  totalDiscounts: z.unknown().optional(),
+  totalVat: z.unknown().optional(),
+  totalRetefuente: z.unknown().optional(),
+});
+
+export const InvoiceInSSchema = z.object({
+  document: DocumentFVSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  seller: z.number(),
+  observations: z.string().optional(),
+  items: z.array(ItemInSchema),
+  payments: z.array(PaymentInSchema),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+});
+
+export const InvoiceOutSSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentFVSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  customer: CustomerOutInvoiceSSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  total: z.number().optional(),
+  balance: z.number().optional(),
+  seller: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  public_url: z.string().optional(),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const InvoiceInSchema = z.object({
+  document: DocumentFVSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSchema,
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  seller: z.number(),
+  observations: z.string().optional(),
+  items: z.array(ItemInSchema),
+  payments: z.array(PaymentInSchema),
+  global_discounts: z.array(GlobalDiscountsInSchema).optional(),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+});
+
+export const InvoiceInDianSchema = z.object({
+  document: DocumentFVSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSchema,
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  seller: z.number(),
+  stamp: StampInDianSchema.optional(),
+  mail: MailInCustomerSchema.optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemInSchema),
+  payments: z.array(PaymentInSchema),
+  globaldiscounts: z.array(GlobalDiscountsInSchema).optional(),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+});
+
+export const QuotationInSchema = z.object({
+  document: DocumentCSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  seller: z.number(),
+  items: z.array(ItemInWithoutTransportSchema),
+});
+
+export const InvoiceBatchInIndiviualSchema = z.object({
+  idempotency_key: z.string(),
+  document: DocumentFVSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  seller: z.number(),
+  items: z.array(ItemInWithoutTransportSchema),
+  stamp: StampInDianSchema.optional(),
+  mail: MailInCustomerSchema.optional(),
+  observations: z.string().optional(),
+  payments: z.array(PaymentInSchema),
+});
+
+export const InvoiceBatchInSchema = z.object({
+  notification_url: z.string(),
+  invoices: z.array(InvoiceBatchInIndiviualSchema),
+});
+
+export const InvoiceBatchOutSchema = z.object({
+  id: z.string().optional(),
+  status: z.string().optional(),
+  received_at: z.string().optional(),
+});
+
+export const InvoiceOutDianSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentFVSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  total: z.number().optional(),
+  balance: z.number().optional(),
+  seller: z.number().optional(),
+  stamp: StampOutDianSchema.optional(),
+  mail: MailOutCustomerSchema.optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  public_url: z.string().optional(),
+  globaldiscounts: z.array(GlobalDiscountsOutSchema).optional(),
+  additional_fields: AdditionalFieldsInvoicesSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const CopyMailInSchema = z.object({
+  mail_to: z.string().optional(),
+  copy_to: z.string().optional(),
+});
+
+export const CopyMailOutSchema = z.object({
+  status: z.string().optional(),
+  observations: z.string().optional(),
+});
+
+export const ProviderInvoiceSchema = z.object({
+  prefix: z.string(),
+  number: z.string(),
+});
+
+export const ItemInFCSchema = z.object({
+  type: z.string(),
+  code: z.string(),
+  description: z.string().optional(),
+  quantity: z.number(),
+  price: z.number(),
+  discount: z.number().optional(),
+  taxes: z.array(TaxInSchema).optional(),
+});
+
+export const PurchasesInSchema = z.object({
+  document: DocumentFCSchema,
+  date: z.string(),
+  supplier: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  provider_invoice: ProviderInvoiceSchema.optional(),
+  currency: CurrencySchema.optional(),
+  observations: z.string().optional(),
+  discount_type: z.string().optional(),
+  supplier_by_item: z.boolean().optional(),
+  tax_included: z.boolean().optional(),
+  items: z.array(ItemInFCSchema),
+  payments: z.array(PaymentInSchema),
+});
+
+export const ItemOutFCSchema = z.object({
+  type: z.string(),
+  id: z.string().optional(),
+  code: z.string().optional(),
+  description: z.string().optional(),
+  quantity: z.number().optional(),
+  price: z.number().optional(),
+  discount: DiscountSchema.optional(),
+  taxes: z.array(TaxOutInvoiceSchema).optional(),
+  total: z.number().optional(),
+});
+
+export const PurchasesOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentFCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  supplier: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  provider_invoice: ProviderInvoiceSchema.optional(),
+  discount_type: z.string().optional(),
+  currency: CurrencySchema.optional(),
+  total: z.number().optional(),
+  balance: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutFCSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const InvoiceInDevSchema = z.object({
+  document: DocumentFVSchema,
+  date: z.string(),
+  customer: CustomerInInvoiceSchema,
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  seller: z.number(),
+  retentions: z.array(TaxRetSchema).optional(),
+  advance_payment: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemInDevSchema),
+  payments: z.array(PaymentInSchema),
+  additional_fields: AdditionalFieldsInvoiceSchema.optional(),
+});
+
+export const InvoiceOutDevSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentFVSchema.optional(),
+  date: z.string().optional(),
+  status: z.string().optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  retentions: z.array(RetentionOutInvoiceSchema).optional(),
+  advance_payment: z.number().optional(),
+  total: z.number().optional(),
+  balance: z.number().optional(),
+  seller: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  public_url: z.string().optional(),
+  additional_fields: AdditionalFieldsInvoiceSchema.optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const InvoiceOutCreditNoteSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+});
+
+export const InvoiceInCreditNoteSchema = z.object({
+  id: z.string().optional(),
+});
+
+export const CreditNoteInSchema = z.object({
+  document: DocumentNCSchema,
+  number: z.number().optional(),
+  date: z.string(),
+  invoice: z.string().optional(),
+  cost_center: z.number().optional(),
+  reason: z.number(),
+  retentions: z.array(TaxInSchema).optional(),
+  observations: z.string().optional(),
+  stamp: StampInDianSchema.optional(),
+  mail: MailInCustomerSchema.optional(),
+  items: z.array(ItemInSchema),
+  payments: z.array(PaymentInSchema),
+});
+
+export const CreditNoteOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentNCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string().optional(),
+  invoice: InvoiceOutCreditNoteSchema.optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  retentions: z.array(RetentionOutInvoiceSchema).optional(),
+  total: z.number().optional(),
+  seller: z.number().optional(),
+  observations: z.string().optional(),
+  stamp: StampOutDianNCSchema.optional(),
+  mail: MailOutCustomerSchema.optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const CreditNoteOutDevSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentNCSchema.optional(),
+  date: z.string().optional(),
+  invoice: InvoiceOutCreditNoteSchema.optional(),
+  customer: CustomerOutInvoiceSchema.optional(),
+  cost_center: z.number().optional(),
+  currency: CurrencySchema.optional(),
+  retentions: z.array(RetentionOutInvoiceSchema).optional(),
+  total: z.number().optional(),
+  seller: z.number().optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOutSchema).optional(),
+  payments: z.array(PaymentOutSchema).optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const CreditNotesOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(CreditNoteOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const VoucherTypeSchema = z.enum(['DebtPayment', 'AdvancePayment', 'Detailed']);
+
+export const VoucherTypeDetailedSchema = z.enum(['Detailed']);
+
+export const VoucherMovementTypeSchema = z.enum(['Debit', 'Credit']);
+
+export const JournalMovementTypedSchema = z.enum(['Debit', 'Credit']);
+
+export const JournalMovementTypecSchema = z.enum(['Credit', 'Debit']);
+
+export const TaxInVoucherSchema = z.object({
+  id: z.number().optional(),
+});
+
+export const TaxOutVoucherSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  percentage: z.number().optional(),
+  base_value: z.number().optional(),
+});
+
+export const DueSchema = z.object({
+  prefix: z.string(),
+  consecutive: z.number(),
+  quote: z.number(),
+  date: z.string().optional(),
+});
+
+export const ItemVoucherSchema = z.object({
+  due: DueSchema.optional(),
+  value: z.number(),
+});
+
+export const DueDetailedPayoutsSchema = z.object({
+  prefix: z.string(),
+  consecutive: z.number(),
+  quote: z.number(),
+  date: z.string().optional(),
+});
+
+export const ItemPayoutsSchema = z.object({
+  due: DueDetailedPayoutsSchema.optional(),
+  value: z.number(),
+});
+
+export const VoucherAccountSchema = z.object({
+  code: z.string(),
+  movement: VoucherMovementTypeSchema,
+});
+
+export const ItemPayoutsDetailedSchema = z.object({
+  account: VoucherAccountSchema,
+  due: DueDetailedPayoutsSchema.optional(),
+  description: z.string().optional(),
+  value: z.number(),
+});
+
+export const ItemOutPayoutsDetailedSchema = z.object({
+  account: VoucherAccountSchema.optional(),
+  due: DueDetailedPayoutsSchema.optional(),
+  description: z.string().optional(),
+  value: z.number(),
+});
+
+export const DueDetailedSchema = z.object({
+  prefix: z.string(),
+  consecutive: z.number(),
+  quote: z.number(),
+  date: z.string().optional(),
+});
+
+export const JournalAccountdSchema = z.object({
+  code: z.string(),
+  movement: JournalMovementTypedSchema,
+});
+
+export const CustomerInVoucherSchema = z.object({
+  identification: z.string(),
+  branch_office: z.number().optional(),
+});
+
+export const ItemInCCSchema = z.object({
+  account: JournalAccountdSchema,
+  customer: CustomerInVoucherSchema,
+  description: z.string().optional(),
+  cost_center: z.number().optional(),
+  value: z.number(),
+});
+
+export const ItemVoucherDetailedSchema = z.object({
+  account: VoucherAccountSchema,
+  due: DueDetailedSchema.optional(),
+  description: z.string().optional(),
+  value: z.number(),
+});
+
+export const ItemOutVoucherDetailedSchema = z.object({
+  account: VoucherAccountSchema.optional(),
+  due: DueDetailedSchema.optional(),
+  description: z.string().optional(),
+  value: z.number(),
+});
+
+export const CustomerInBalanceSchema = z.object({
+  identification: z.string().optional(),
+  branch_office: z.number().optional(),
+});
+
+export const CustomerOutVoucherSchema = z.object({
+  id: z.string().optional(),
+  identification: z.string(),
+  branch_office: z.number().optional(),
+});
+
+export const JournalAccountcSchema = z.object({
+  code: z.string(),
+  movement: JournalMovementTypecSchema,
+});
+
+export const VoucherInSchema = z.object({
+  document: DocumentRCSchema,
+  date: z.string(),
+  type: VoucherTypeSchema,
+  customer: CustomerInVoucherSchema,
+  currency: CurrencySchema.optional(),
+  items: z.array(ItemVoucherSchema).optional(),
+  payment: VoucherPaymentInSchema.optional(),
+  observations: z.string().optional(),
+});
+
+export const VoucherOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentRCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string(),
+  type: VoucherTypeSchema,
+  customer: CustomerOutVoucherSchema,
+  currency: CurrencySchema.optional(),
+  items: z.array(ItemVoucherSchema).optional(),
+  payment: VoucherPaymentOutSchema.optional(),
+  balance: z.number().optional(),
+  observations: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const VoucherInDetailedSchema = z.object({
+  document: DocumentRCSchema,
+  date: z.string(),
+  type: VoucherTypeDetailedSchema,
+  customer: CustomerInVoucherSchema,
+  cost_center: z.number().optional(),
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  })])).optional(),
+  observations: z.string().optional(),
+});
+
+export const VoucherOutDetailedSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentRCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string(),
+  type: VoucherTypeDetailedSchema,
+  customer: CustomerOutVoucherSchema,
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  })])).optional(),
+  observations: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const PayoutsInSchema = z.object({
+  document: DocumentRCSchema,
+  date: z.string(),
+  type: VoucherTypeSchema,
+  supplier: CustomerInInvoiceSSchema,
+  currency: CurrencySchema.optional(),
+  items: z.array(ItemPayoutsSchema).optional(),
+  payment: VoucherPaymentInSchema.optional(),
+  observations: z.string().optional(),
+});
+
+export const PayoutsOutSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentRCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string(),
+  type: VoucherTypeSchema,
+  supplier: CustomerInInvoiceSSchema,
+  currency: CurrencySchema.optional(),
+  items: z.array(ItemPayoutsSchema).optional(),
+  payment: VoucherPaymentOutSchema.optional(),
+  balance: z.number().optional(),
+  observations: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const PayoutsInDetailedSchema = z.object({
+  document: DocumentRCSchema,
+  date: z.string(),
+  type: VoucherTypeDetailedSchema,
+  supplier: CustomerInInvoiceSSchema,
+  cost_center: z.number().optional(),
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  })])).optional(),
+  observations: z.string().optional(),
+});
+
+export const PayoutsOutDetailedSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentRCSchema.optional(),
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string(),
+  type: VoucherTypeDetailedSchema,
+  supplier: CustomerInInvoiceSSchema,
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    description: z.string().optional(),
+    value: z.number(),
+  })])).optional(),
+  observations: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const BalanceInSchema = z.object({
+  account_start: z.string().optional(),
+  account_end: z.string().optional(),
+  year: z.number(),
+  month_start: z.number(),
+  month_end: z.number(),
+  includes_tax_difference: z.boolean(),
+});
+
+export const BalancePorTerceroInSchema = z.object({
+  account_start: z.string().optional(),
+  account_end: z.string().optional(),
+  year: z.number(),
+  month_start: z.number(),
+  month_end: z.number(),
+  includes_tax_difference: z.boolean(),
+  customer: CustomerInBalanceSchema.optional(),
+});
+
+export const BalanceoutSchema = z.object({
+  file_id: z.string().optional(),
+  file_url: z.string().optional(),
+});
+
+export const JournalsInDevSchema = z.object({
+  document: DocumentCCSchema,
+  date: z.string(),
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    customer: CustomerInVoucherSchema,
+    description: z.string().optional(),
+    cost_center: z.number().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    customer: CustomerInVoucherSchema,
+    description: z.string().optional(),
+    cost_center: z.number().optional(),
+    value: z.number(),
+  })])).optional(),
+  observations: z.string().optional(),
+});
+
+export const JournalsOutDevSchema = z.object({
+  id: z.string().optional(),
+  document: DocumentCCSchema,
+  number: z.number().optional(),
+  name: z.string().optional(),
+  date: z.string(),
+  items: z.array(z.union([z.object({
+    account: JournalAccountdSchema.optional(),
+    customer: CustomerOutVoucherSchema,
+    description: z.string().optional(),
+    cost_center: z.number().optional(),
+    value: z.number(),
+  }), z.object({
+    account: JournalAccountcSchema.optional(),
+    customer: CustomerOutVoucherSchema,
+    description: z.string().optional(),
+    cost_center: z.number().optional(),
+    value: z.number(),
+  })])).optional(),
+  balance: z.number().optional(),
+  observations: z.string().optional(),
+  metadata: MetadataSchema.optional(),
+});
+
+export const PurchaseInDevSchema = z.object({});
+
+export const PurchaseOutDevSchema = z.object({});
+
+export const DueProviderSchema = z.object({
+  prefix: z.string().optional(),
+  consecutive: z.number().optional(),
+  quote: z.number().optional(),
+  date: z.string().optional(),
+});
+
+export const ProviderInfoOutSchema = z.object({
+  id: z.string().optional(),
+  identification: z.string().optional(),
+  branch_office: z.number().optional(),
+  name: z.string().optional(),
+});
+
+export const CostCenterProviderSchema = z.object({
+  code: z.string().optional(),
+  name: z.string().optional(),
+});
+
+export const CurrencyProviderSchema = z.object({
+  code: z.string().optional(),
+  balance: z.number().optional(),
+});
+
+export const ProviderOutSchema = z.object({
+  due: DueProviderSchema.optional(),
+  provider: ProviderInfoOutSchema.optional(),
+  cost_center: CostCenterProviderSchema.optional(),
+  currency: CurrencyProviderSchema.optional(),
+});
+
+export const ProviderOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(ProviderOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const WebhooksInSchema = z.object({
+  application_id: z.string(),
+  topic: z.string(),
+  url: z.string(),
+});
+
+export const WebhooksInPUTSchema = z.object({
+  application_id: z.string(),
+  topic: z.string(),
+  url: z.string(),
+  active: z.boolean().optional(),
+});
+
+export const WebhooksOutSchema = z.object({
+  id: z.string().optional(),
+  application_id: z.string().optional(),
+  url: z.string().optional(),
+  topic: z.string().optional(),
+  company_key: z.string().optional(),
+  active: z.boolean().optional(),
+  created_at: z.string().optional(),
+});
+
+export const WebhooksOutGetSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(WebhooksOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const VouchersOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(VoucherOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const PayoutsOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(PayoutsOutSchema).optional(),
+  _links: z.unknown().optional(),
+});
+
+export const JournalsOutListSchema = z.object({
+  pagination: PaginationSchema.optional(),
+  results: z.array(JournalsOutDevSchema).optional(),
+  _links: z.unknown().optional(),
+});
@@ -0,0 +1,325 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// HTTP transports for one shared, centrally credentialed server: Streamable HTTP on /mcp
+// and the legacy SSE transport on /sse + /messages. Each client authenticates with its
+// own bearer token, which limits it to the company profiles listed for it.
+
+export interface HttpClientConfig {
+  token: string;
+  // Company profiles the client may use; all of them when omitted
+  companies?: string[];
+}
+
+export interface HttpConfig {
+  port: number;
+  host: string;
+  clients: Record<string, HttpClientConfig>;
+  cors_origins: string[];
+  session_timeout_minutes: number;
+}
+
+export interface HttpClient {
+  name: string;
+  companies?: string[];
+}
+
+export interface RunningHttpServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Build the HTTP configuration from SIIGO_HTTP_* variables. Clients come from
+ * SIIGO_HTTP_CLIENTS_FILE or SIIGO_HTTP_CLIENTS (inline JSON)
+ */
+export function loadHttpConfig(env: NodeJS.ProcessEnv = process.env): HttpConfig {
+  let clients: Record<string, HttpClientConfig> = {};
+  if (env.SIIGO_HTTP_CLIENTS_FILE) {
+    clients = parseClients(readFileSync(env.SIIGO_HTTP_CLIENTS_FILE, 'utf8'), env.SIIGO_HTTP_CLIENTS_FILE);
+  } else if (env.SIIGO_HTTP_CLIENTS) {
+    clients = parseClients(env.SIIGO_HTTP_CLIENTS, 'SIIGO_HTTP_CLIENTS');
+  }
+
+  const host = env.SIIGO_HTTP_HOST || '127.0.0.1';
+  if (Object.keys(clients).length === 0 && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`SIIGO_HTTP_HOST ${host} is reachable from other machines: define client tokens with SIIGO_HTTP_CLIENTS_FILE or SIIGO_HTTP_CLIENTS`);
+  }
+
+  return {
+    port: env.SIIGO_HTTP_PORT ? Number(env.SIIGO_HTTP_PORT) : DEFAULT_PORT,
+    host,
+    clients,
+    cors_origins: (env.SIIGO_HTTP_CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+    session_timeout_minutes: Number(env.SIIGO_HTTP_SESSION_TIMEOUT) || DEFAULT_SESSION_TIMEOUT_MINUTES,
+  };
+}
+
+function parseClients(json: string, source: string): Record<string, HttpClientConfig> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid HTTP clients in ${source}: ${(error as Error).message}`);
+  }
+
+  const clients = parsed?.clients;
+  if (!clients || typeof clients !== 'object') {
+    throw new Error(`Invalid HTTP clients in ${source}: expected a "clients" object`);
+  }
+
+  const tokens = new Set<string>();
+  for (const [name, client] of Object.entries<any>(clients)) {
+    if (typeof client?.token !== 'string' || !client.token) {
+      throw new Error(`HTTP client "${name}" in ${source} requires a token`);
+    }
+    if (tokens.has(client.token)) {
+      throw new Error(`HTTP client "${name}" in ${source} reuses the token of another client`);
+    }
+    tokens.add(client.token);
+    if (client.companies !== undefined &&
+      (!Array.isArray(client.companies) || client.companies.length === 0 || client.companies.some((company: unknown) => typeof company !== 'string'))) {
+      throw new Error(`HTTP client "${name}" in ${source}: companies must be a non-empty list of profile names`);
+    }
+  }
+  return clients;
+}
+
+interface Session {
+  transport: Transport;
+  client: HttpClient;
+  lastSeen: number;
+}
+
+/**
+ * Serve MCP over HTTP. connect builds the MCP server for each new session
+ */
+export function startHttpServer(config: HttpConfig, connect: (client: HttpClient) => Server): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const tokens = Object.entries(config.clients).map(([name, client]) => ({
+    digest: digest(client.token),
+    client: { name, companies: client.companies },
+  }));
+
+  // Bearer token of the request, or the anonymous client when no tokens are configured
+  const authenticate = (req: IncomingMessage): HttpClient | null => {
+    if (tokens.length === 0) {
+      return { name: 'anonymous' };
+    }
+    const match = (req.headers.authorization ?? '').match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return null;
+    }
+    const presented = digest(match[1]);
+    return tokens.find(token => timingSafeEqual(token.digest, presented))?.client ?? null;
+  };
+
+  // Session of the given id, only for the client that opened it
+  const sessionOf = (id: string | undefined, client: HttpClient): Session | undefined => {
+    const session = id ? sessions.get(id) : undefined;
+    if (!session || session.client.name !== client.name) {
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  const open = async (transport: Transport, client: HttpClient): Promise<void> => {
+    const previousOnClose = transport.onclose;
+    transport.onclose = () => {
+      previousOnClose?.();
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await connect(client).connect(transport);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (!applyCors(req, res, config.cors_origins)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size, uptime_seconds: Math.round(process.uptime()) });
+      return;
+    }
+    if (![MCP_PATH, SSE_PATH, MESSAGES_PATH].includes(url.pathname)) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const client = authenticate(req);
+    if (!client) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    // Streamable HTTP: POST messages, GET notification stream, DELETE ends the session
+    if (url.pathname === MCP_PATH) {
+      const body = req.method === 'POST' ? await readJson(req, res) : undefined;
+      if (body === INVALID_BODY) {
+        return;
+      }
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      if (sessionId) {
+        const session = sessionOf(sessionId, client);
+        if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+          sendRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          sessions.set(id, { transport, client, lastSeen: Date.now() });
+        },
+      });
+      await open(transport, client);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // Legacy SSE: GET opens the stream, POST /messages?sessionId= carries the requests
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      sessions.set(transport.sessionId, { transport, client, lastSeen: Date.now() });
+      await open(transport, client);
+      return;
+    }
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const session = sessionOf(url.searchParams.get('sessionId') ?? undefined, client);
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        sendJson(res, 404, { error: 'Session not found' });
+        return;
+      }
+      const body = await readJson(req, res);
+      if (body !== INVALID_BODY) {
+        await session.transport.handlePostMessage(req, res, body);
+      }
+      return;
+    }
+    sendJson(res, 405, { error: 'Method not allowed' });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: (error as Error).message });
+      }
+    });
+  });
+
+  // Close sessions left idle, e.g. clients that exited without a DELETE
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - config.session_timeout_minutes * 60_000;
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) {
+        session.transport.close().catch(console.error);
+      }
+    }
+  }, 60_000);
+  sweeper.unref();
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, () => {
+      const address = server.address() as AddressInfo;
+      const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+      resolve({
+        url: `http://${host}:${address.port}`,
+        close: async () => {
+          clearInterval(sweeper);
+          await Promise.all([...sessions.values()].map(session => session.transport.close()));
+          await new Promise<void>(done => server.close(() => done()));
+        },
+      });
+    });
+  });
+}
+
+/**
+ * CORS headers for allowed origins. Returns false for a browser origin that is not allowed
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, allowed: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  if (!allowed.includes('*') && !allowed.includes(origin)) {
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Origin', allowed.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+}
+
+const INVALID_BODY = Symbol('invalid body');
+
+// Parsed JSON body, or INVALID_BODY after answering with a JSON-RPC parse error
+async function readJson(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      sendRpcError(res, 413, -32600, 'Request body too large');
+      return INVALID_BODY;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    sendRpcError(res, 400, -32700, `Parse error: ${(error as Error).message}`);
+    return INVALID_BODY;
+  }
+}
+
+// Tokens are compared as fixed-length digests so the comparison takes constant time
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+// Idempotency keys for document-creating endpoints. When the caller gives no key, one is
+// derived from the normalized payload, so retrying the same document after a crash or
+// timeout sends the same Idempotency-Key and Siigo returns the original document.
+// Keys are kept in a local journal to detect a key reused for a different payload.
+
+export type IdempotentEndpoint = 'invoices' | 'credit-notes' | 'vouchers' | 'journals' | 'payment-receipts';
+
+export interface IdempotencyInfo {
+  key: string;
+  source: 'provided' | 'derived';
+  reused: boolean;
+  warning?: string;
+}
+
+interface JournalEntry {
+  company: string;
+  endpoint: IdempotentEndpoint;
+  fingerprint: string;
+  created_at: string;
+  last_used_at: string;
+  document?: { id?: string | null; name?: string | null };
+}
+
+const KEY_PREFIXES: Record<IdempotentEndpoint, string> = {
+  'invoices': 'FV',
+  'credit-notes': 'NC',
+  'vouchers': 'RC',
+  'journals': 'CC',
+  'payment-receipts': 'RP',
+};
+
+const RETENTION_DAYS = 30;
+
+export const DEFAULT_JOURNAL_PATH = join(homedir(), '.mcp-server-siigo', 'idempotency-journal.json');
+
+/**
+ * Serialize with sorted keys and without undefined values, so equal documents hash equally
+ */
+export function normalizePayload(value: unknown): string {
+  const normalize = (input: unknown): unknown => {
+    if (Array.isArray(input)) {
+      return input.map(normalize);
+    }
+    if (input && typeof input === 'object') {
+      return Object.fromEntries(
+        Object.keys(input)
+          .filter(key => (input as Record<string, unknown>)[key] !== undefined)
+          .sort()
+          .map(key => [key, normalize((input as Record<string, unknown>)[key])])
+      );
+    }
+    return input;
+  };
+  return JSON.stringify(normalize(value));
+}
+
+/**
+ * Deterministic key: document prefix plus the first 28 hex characters of the payload hash
+ */
+export function deriveIdempotencyKey(endpoint: IdempotentEndpoint, payload: unknown): string {
+  const hash = createHash('sha256').update(`${endpoint}:${normalizePayload(payload)}`).digest('hex');
+  return `${KEY_PREFIXES[endpoint]}${hash.slice(0, 28)}`;
+}
+
+export class IdempotencyJournal {
+  private entries: Record<string, JournalEntry> = {};
+
+  // Without a path the journal lives in memory only, as for replayed sessions
+  constructor(private readonly path: string | null = DEFAULT_JOURNAL_PATH) {
+    if (path && existsSync(path)) {
+      this.entries = this.load(path);
+    }
+    this.prune();
+  }
+
+  /**
+   * Pick the key for a document and record it before the request is sent
+   */
+  resolve(company: string, endpoint: IdempotentEndpoint, payload: unknown, providedKey?: string): IdempotencyInfo {
+    const key = providedKey ?? deriveIdempotencyKey(endpoint, payload);
+    const fingerprint = createHash('sha256').update(normalizePayload(payload)).digest('hex');
+    const now = new Date().toISOString();
+    const entryKey = `${company}:${endpoint}:${key}`;
+    const existing = this.entries[entryKey];
+
+    const info: IdempotencyInfo = {
+      key,
+      source: providedKey !== undefined ? 'provided' : 'derived',
+      reused: existing !== undefined,
+    };
+
+    const document = existing?.document?.name ?? existing?.document?.id;
+    if (existing && existing.fingerprint !== fingerprint) {
+      info.warning =
+        `Idempotency key ${key} was already used on ${existing.created_at} for a different ${endpoint} payload` +
+        `${document ? ` (${document})` : ''}. Siigo will return the original document instead of creating this one; ` +
+        'use a new idempotency_key to create a different document.';
+      console.error(`Warning: ${info.warning}`);
+    } else if (existing && providedKey === undefined && document) {
+      info.warning =
+        `This ${endpoint} payload was already sent and created ${document}. ` +
+        'Siigo will return that document instead of creating a new one; pass a different idempotency_key to create a new one.';
+      console.error(`Warning: ${info.warning}`);
+    }
+
+    this.entries[entryKey] = {
+      company,
+      endpoint,
+      fingerprint: existing?.fingerprint ?? fingerprint,
+      created_at: existing?.created_at ?? now,
+      last_used_at: now,
+      document: existing?.document,
+    };
+    this.save();
+    return info;
+  }
+
+  /**
+   * Attach the created document to its key once Siigo confirms it
+   */
+  complete(company: string, endpoint: IdempotentEndpoint, key: string, document: { id?: string | null; name?: string | null }): void {
+    const entry = this.entries[`${company}:${endpoint}:${key}`];
+    if (entry) {
+      entry.document = { id: document.id, name: document.name };
+      this.save();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    for (const [entryKey, entry] of Object.entries(this.entries)) {
+      if (Date.parse(entry.last_used_at) < cutoff) {
+        delete this.entries[entryKey];
+      }
+    }
+  }
+
+  // A journal that cannot be read is moved aside, so one bad write does not block every create
+  private load(path: string): Record<string, JournalEntry> {
+    try {
+      const entries = JSON.parse(readFileSync(path, 'utf8'));
+      if (entries && typeof entries === 'object' && !Array.isArray(entries)) {
+        return entries;
+      }
+      throw new Error('not a JSON object');
+    } catch (error) {
+      const aside = `${path}.corrupt-${Date.now()}`;
+      renameSync(path, aside);
+      console.error(`Warning: idempotency journal ${path} is unreadable (${error instanceof Error ? error.message : String(error)}); ` +
+        `moved it to ${aside} and started a new one`);
+      return {};
+    }
+  }
+
+  // Written to a temporary file and renamed over the journal, so a crash never leaves it half written
+  private save(): void {
+    if (!this.path) {
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(this.entries, null, 2));
+    renameSync(temporary, this.path);
+  }
+}
@@ -0,0 +1,125 @@
+// Colombian identification rules, from the "Parametros para Colombia" table of
+// siigoapi.apib, and the DIAN modulo-11 check digit (DV) of a NIT. Customers are checked
+// before they are sent, so a bad number fails here instead of as invalid_identification
+// after the round trip.
+
+export interface IdentificationType {
+  code: string;
+  name: string;
+  // Numeric types take 3 to 13 digits; the rest 1 to 20 letters, digits or inner hyphens
+  numeric: boolean;
+}
+
+export const IDENTIFICATION_TYPES: IdentificationType[] = [
+  { code: '13', name: 'Cedula de ciudadania', numeric: true },
+  { code: '31', name: 'NIT', numeric: true },
+  { code: '22', name: 'Cedula de extranjeria', numeric: false },
+  { code: '42', name: 'Documento de identificacion extranjero', numeric: false },
+  { code: '50', name: 'NIT de otro pais', numeric: false },
+  { code: 'R-00-PN', name: 'No obligado a registrarse en el RUT PN', numeric: false },
+  { code: '91', name: 'NUIP', numeric: false },
+  { code: '41', name: 'Pasaporte', numeric: false },
+  { code: '47', name: 'Permiso especial de permanencia PEP', numeric: false },
+  { code: '11', name: 'Registro civil', numeric: true },
+  { code: '43', name: 'Sin identificacion del exterior o para uso definido por la DIAN', numeric: false },
+  { code: '21', name: 'Tarjeta de extranjeria', numeric: false },
+  { code: '12', name: 'Tarjeta de identidad', numeric: true },
+  { code: '89', name: 'Salvoconducto de permanencia', numeric: false },
+  { code: '48', name: 'Permiso proteccion temporal PPT', numeric: false },
+];
+
+export const NIT_ID_TYPE = '31';
+
+// DIAN weights, applied from the last digit of the NIT backwards
+const NIT_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+const NUMERIC_PATTERN = /^\d{3,13}$/;
+const ALPHANUMERIC_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,18}[A-Za-z0-9])?$/;
+
+export interface IdentificationCheck {
+  valid: boolean;
+  id_type: string;
+  id_type_name?: string;
+  // Without the dots, spaces or trailing "-DV" a numeric identification may be written with
+  identification: string;
+  // DIAN check digit, for NITs
+  check_digit?: string;
+  errors: string[];
+}
+
+/**
+ * DIAN check digit of a NIT (digits only)
+ */
+export function nitCheckDigit(nit: string): string {
+  const digits = nit.split('').reverse();
+  if (digits.length > NIT_WEIGHTS.length || digits.some(digit => !/\d/.test(digit))) {
+    throw new Error(`NIT must have between 1 and ${NIT_WEIGHTS.length} digits`);
+  }
+  const remainder = digits.reduce((sum, digit, index) => sum + Number(digit) * NIT_WEIGHTS[index], 0) % 11;
+  return String(remainder > 1 ? 11 - remainder : remainder);
+}
+
+/**
+ * Check an identification against the rules of its type. A NIT written as "900.123.456-8"
+ * is split into the number and its check digit, and a missing check digit is computed
+ */
+export function checkIdentification(idType: string, identification: string, checkDigit?: string): IdentificationCheck {
+  const type = IDENTIFICATION_TYPES.find(candidate => candidate.code === idType);
+  const errors: string[] = [];
+  let number = identification.trim();
+  let digit = checkDigit?.trim() || undefined;
+
+  if (!type) {
+    errors.push(`Unknown id_type ${idType}. Use one of: ${IDENTIFICATION_TYPES.map(candidate => candidate.code).join(', ')}`);
+  } else if (type.numeric) {
+    number = number.replace(/[.,\s]/g, '');
+    const withDigit = idType === NIT_ID_TYPE ? number.match(/^(\d+)-(\d)$/) : null;
+    if (withDigit) {
+      number = withDigit[1];
+      if (digit !== undefined && digit !== withDigit[2]) {
+        errors.push(`The identification ends in -${withDigit[2]} but check_digit is ${digit}`);
+      }
+      digit = digit ?? withDigit[2];
+    }
+    if (!NUMERIC_PATTERN.test(number)) {
+      errors.push(`${type.name} must have between 3 and 13 digits and nothing else`);
+    }
+  } else if (!ALPHANUMERIC_PATTERN.test(number)) {
+    errors.push(`${type.name} must have between 1 and 20 letters or digits, with hyphens only between them`);
+  }
+
+  if (digit !== undefined && !/^\d$/.test(digit)) {
+    errors.push('check_digit must be a single digit from 0 to 9');
+  }
+  if (idType === NIT_ID_TYPE && NUMERIC_PATTERN.test(number)) {
+    const expected = nitCheckDigit(number);
+    if (digit !== undefined && /^\d$/.test(digit) && digit !== expected) {
+      errors.push(`Check digit ${digit} does not match NIT ${number}; its DIAN check digit is ${expected}`);
+    }
+    digit = expected;
+  }
+
+  return {
+    valid: errors.length === 0,
+    id_type: idType,
+    id_type_name: type?.name,
+    identification: number,
+    check_digit: digit,
+    errors,
+  };
+}
+
+/**
+ * Customer data with the identification normalized and the NIT check digit filled in
+ */
+export function withCheckedIdentification<T extends { id_type?: string; identification?: string; check_digit?: string }>(data: T): T {
+  if (data.id_type === undefined || data.identification === undefined) {
+    return data;
+  }
+  const check = checkIdentification(data.id_type, data.identification, data.check_digit);
+  return {
+    ...data,
+    identification: check.identification,
+    ...(check.check_digit !== undefined ? { check_digit: check.check_digit } : {}),
+  };
+}
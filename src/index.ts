@@ -4,17 +4,55 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { SiigoClient } from './siigo-client.js';
+import { ZodSchema } from 'zod';
+import { SiigoClient, OnWriteOutcome, WriteReport } from './siigo-client.js';
+import { SiigoApiError } from './errors.js';
+import { CompanyRegistry, CompaniesConfig, loadCompaniesConfig } from './companies.js';
+import { startSimulator } from './simulator.js';
+import { Cassette, parseCassetteMode, redactToolCall } from './cassette.js';
+import { IdempotencyInfo, IdempotencyJournal, IdempotentEndpoint, DEFAULT_JOURNAL_PATH } from './idempotency.js';
+import { PaginatedList, ProductTypeSchema } from './models.js';
+import { CATALOGS } from './catalog-cache.js';
+import {
+  CustomerTypeSchema,
+  PersonTypeSchema,
+  TaxClassificationSchema,
+  VoucherMovementTypeSchema,
+  VoucherTypeSchema,
+} from './generated/apib.js';
+import { AuditLog, DEFAULT_AUDIT_LOG_PATH } from './audit-log.js';
+import { coverageReport } from './coverage.js';
+import { SiigoResources } from './resources.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { startWebhookReceiver } from './webhook-receiver.js';
+import { AccessMode, isToolAllowed, parseAccessMode, toolAnnotations } from './access-mode.js';
+import { documentTotals, dryRunDocument, TotalsDocumentType } from './document-totals.js';
+import { CONFIRMED_TOOLS, ConfirmationStore, previewOperation, requiresConfirmation } from './confirmations.js';
+import { loadHttpConfig, MCP_PATH, SSE_PATH, startHttpServer } from './http-server.js';
+import { resolveReferences, toolReferences, UnresolvedReferenceError } from './references.js';
+import { checkIdentification, IDENTIFICATION_TYPES, withCheckedIdentification } from './identification.js';
+import { searchCities } from './cities.js';
 import {
   validateInput,
+  PaginationSchema,
   ProductIdSchema,
   CreateProductSchema,
   UpdateProductSchema,
   CustomerIdSchema,
   CreateCustomerSchema,
+  CustomerIdentificationSchema,
+  ValidateIdentificationSchema,
+  SearchCitySchema,
   InvoiceIdSchema,
   CreateInvoiceSchema,
   QuotationIdSchema,
@@ -38,40 +76,196 @@ import {
   ListCustomersSchema,
   ListInvoicesSchema,
   ListQuotationsSchema,
+  ListCreditNotesSchema,
   ListPurchasesSchema,
+  ListVouchersSchema,
   ListPaymentReceiptsSchema,
+  ListJournalsSchema,
   CreateInvoiceBatchSchema,
   AccountsPayableSchema,
+  RefreshCatalogsSchema,
+  CalculateTaxesSchema,
+  AuditSearchSchema,
 } from './validators.js';
 
-// Get credentials from environment variables
-const SIIGO_USERNAME = process.env.SIIGO_USERNAME || '';
-const SIIGO_ACCESS_KEY = process.env.SIIGO_ACCESS_KEY || '';
+// SIIGO_MODE=sandbox serves every company from the bundled in-memory simulator
+const SIIGO_MODE = process.env.SIIGO_MODE || 'production';
+
+// SIIGO_CASSETTE records tool calls and Siigo API traffic to a file, or replays it
+const SIIGO_CASSETTE = process.env.SIIGO_CASSETTE || '';
+const SIIGO_CASSETTE_MODE = process.env.SIIGO_CASSETTE_MODE;
+
+// Local journal of idempotency keys sent for document-creating tools
+const SIIGO_IDEMPOTENCY_JOURNAL = process.env.SIIGO_IDEMPOTENCY_JOURNAL || DEFAULT_JOURNAL_PATH;
+
+// Append-only JSONL audit log of tool calls and Siigo API requests; SIIGO_AUDIT_LOG=off disables it
+const SIIGO_AUDIT_LOG = process.env.SIIGO_AUDIT_LOG || DEFAULT_AUDIT_LOG_PATH;
+
+// SIIGO_WEBHOOK_PORT receives Siigo product webhooks to notify resource subscribers
+const SIIGO_WEBHOOK_PORT = process.env.SIIGO_WEBHOOK_PORT || '';
+const SIIGO_WEBHOOK_HOST = process.env.SIIGO_WEBHOOK_HOST || '127.0.0.1';
+
+// SIIGO_CONFIRMATION=on requires a preview and confirmation token for deletes, annulments and DIAN sends
+const SIIGO_CONFIRMATION = process.env.SIIGO_CONFIRMATION === 'on';
+
+// stdio or http (Streamable HTTP and legacy SSE)
+const SIIGO_TRANSPORT = process.env.SIIGO_TRANSPORT || 'stdio';
+
+let companies: CompanyRegistry | null = null;
+let idempotencyJournal: IdempotencyJournal | null = null;
+let sandboxUrl: string | null = null;
+let cassette: Cassette | null = null;
+let auditLog: AuditLog | null = null;
+// SIIGO_ACCESS_MODE, read when the server starts; replays run every recorded call
+let accessMode: AccessMode = 'full';
 
-let siigoClient: SiigoClient | null = null;
+// Connected MCP servers, notified together when a webhook reports a change
+interface McpSession {
+  server: Server;
+  resources: SiigoResources;
+  registry: () => CompanyRegistry;
+}
+
+const sessions = new Set<McpSession>();
+
+// Tools that hand out the shared Siigo token, kept off the HTTP transport
+const STDIO_ONLY_TOOLS = ['siigo_authenticate'];
+
+const confirmations = new ConfirmationStore();
 
-function getClient(): SiigoClient {
-  if (!siigoClient) {
-    if (!SIIGO_USERNAME || !SIIGO_ACCESS_KEY) {
-      throw new Error('SIIGO_USERNAME and SIIGO_ACCESS_KEY environment variables are required');
+// Company profiles are loaded on first use so the server can start without credentials
+function getCompanies(): CompanyRegistry {
+  if (!companies) {
+    let config = cassette?.mode === 'replay' ? toReplayConfig(cassette) : loadCompaniesConfig();
+    if (sandboxUrl) {
+      config = toSandboxConfig(config, sandboxUrl);
     }
-    siigoClient = new SiigoClient(SIIGO_USERNAME, SIIGO_ACCESS_KEY);
+    companies = new CompanyRegistry(config, cassette ?? undefined, auditLog ?? undefined);
   }
-  return siigoClient;
+  return companies;
 }
 
+// Every configured profile, the default first, as scope() takes the first as default
+function allCompanies(): string[] {
+  const profiles = getCompanies().list();
+  return [...profiles.filter(profile => profile.is_default), ...profiles.filter(profile => !profile.is_default)]
+    .map(profile => profile.company);
+}
+
+// A replayed session keeps its keys in memory: the real journal would mark the recorded
+// documents as reused and would gain entries for documents never created
+function getIdempotencyJournal(): IdempotencyJournal {
+  if (!idempotencyJournal) {
+    idempotencyJournal = new IdempotencyJournal(cassette?.mode === 'replay' ? null : SIIGO_IDEMPOTENCY_JOURNAL);
+  }
+  return idempotencyJournal;
+}
+
+// Replayed traffic is redacted, so every recorded company gets placeholder credentials
+function toReplayConfig(source: Cassette): CompaniesConfig {
+  return {
+    companies: Object.fromEntries(
+      source.companies.map(company => [company, { username: 'replay', access_key: 'replay' }])
+    ),
+  };
+}
+
+function toSandboxConfig(config: CompaniesConfig, url: string): CompaniesConfig {
+  const profiles = Object.keys(config.companies).length > 0
+    ? config.companies
+    : { sandbox: { name: 'Siigo sandbox', username: 'sandbox@siigo.local', access_key: 'sandbox' } };
+
+  return {
+    ...config,
+    base_url: url,
+    companies: Object.fromEntries(
+      Object.entries(profiles).map(([company, profile]) => [company, { ...profile, base_url: url }])
+    ),
+  };
+}
+
+// Input properties shared by every list tool to walk all pages in one call
+const FETCH_ALL_PROPERTIES = {
+  all_pages: { type: 'boolean', description: 'Recorre todas las paginas y devuelve los resultados combinados con el total' },
+  max_results: { type: 'number', description: 'Maximo de registros a devolver cuando all_pages es true' },
+};
+
+// Documented creation and last-update filters of the list tools
+const CREATED_RANGE_PROPERTIES = {
+  created_start: { type: 'string', description: 'Fecha de creacion desde (yyyy-MM-dd, o yyyy-MM-ddTHH:mm:ssZ en UTC)' },
+  created_end: { type: 'string', description: 'Fecha de creacion hasta (yyyy-MM-dd, o yyyy-MM-ddTHH:mm:ssZ en UTC)' },
+};
+
+const UPDATED_RANGE_PROPERTIES = {
+  updated_start: { type: 'string', description: 'Fecha de ultima modificacion desde (yyyy-MM-dd, o yyyy-MM-ddTHH:mm:ssZ en UTC)' },
+  updated_end: { type: 'string', description: 'Fecha de ultima modificacion hasta (yyyy-MM-dd, o yyyy-MM-ddTHH:mm:ssZ en UTC)' },
+};
+
 // Define all tools
 const tools: Tool[] = [
   // Authentication
   {
     name: 'siigo_authenticate',
-    description: 'Genera un token de autenticacion para Siigo API. Valido por 24 horas.',
+    description: 'Obtiene el token de autenticacion vigente para Siigo API, generandolo si no existe o expiro. Valido por 24 horas.',
     inputSchema: {
       type: 'object',
       properties: {},
       required: [],
     },
   },
+  {
+    name: 'siigo_list_companies',
+    description: 'Lista las empresas (perfiles de credenciales) configuradas e indica cual es la predeterminada',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'siigo_set_default_company',
+    description: 'Cambia la empresa predeterminada usada cuando una herramienta no recibe el argumento company',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        company: { type: 'string', description: 'Nombre del perfil de empresa' },
+      },
+      required: ['company'],
+    },
+  },
+  {
+    name: 'siigo_get_rate_limit_status',
+    description: 'Consulta las solicitudes disponibles en el minuto actual y las solicitudes en cola para la empresa',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'siigo_audit_search',
+    description: 'Busca en el registro de auditoria las llamadas a herramientas y las solicitudes a Siigo, del mas reciente al mas antiguo. Permite saber quien creo un documento y con que datos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date_start: { type: 'string', description: 'Fecha inicial (yyyy-MM-dd)' },
+        date_end: { type: 'string', description: 'Fecha final (yyyy-MM-dd)' },
+        tool: { type: 'string', description: 'Nombre de la herramienta, ej: siigo_create_invoice' },
+        document_id: { type: 'string', description: 'ID o nombre del documento, ej: FV-1-2034' },
+        error_code: { type: 'string', description: 'Codigo de error de Siigo, ej: invalid_total_payments' },
+        company: { type: 'string', description: 'Perfil de empresa' },
+        limit: { type: 'number', description: 'Maximo de registros (por defecto 100)' },
+      },
+    },
+  },
+  {
+    name: 'siigo_coverage_report',
+    description: 'Compara la documentacion de Siigo API (siigoapi.apib) con las herramientas del servidor: endpoints sin herramienta, parametros documentados que no se aceptan y enums con valores distintos',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
 
   // Products
   {
@@ -83,8 +277,14 @@ const tools: Tool[] = [
         page: { type: 'number', description: 'Numero de pagina (default: 1)' },
         page_size: { type: 'number', description: 'Registros por pagina (default: 25)' },
         code: { type: 'string', description: 'Filtrar por codigo de producto' },
-        created_start: { type: 'string', description: 'Fecha creacion inicio (yyyy-MM-dd)' },
-        created_end: { type: 'string', description: 'Fecha creacion fin (yyyy-MM-dd)' },
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filtrar por IDs de producto (GUID), maximo 20',
+        },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -108,9 +308,9 @@ const tools: Tool[] = [
         code: { type: 'string', description: 'Codigo unico del producto (max 30 caracteres, sin espacios)' },
         name: { type: 'string', description: 'Nombre del producto (max 100 caracteres)' },
         account_group: { type: 'number', description: 'ID de la clasificacion de inventario' },
-        type: { type: 'string', enum: ['Product', 'Service', 'Combo'], description: 'Tipo de producto' },
+        type: { type: 'string', enum: ProductTypeSchema.options, description: 'Tipo de producto (Combo solo en Siigo Nube Premium)' },
         stock_control: { type: 'boolean', description: 'Control de inventario' },
-        tax_classification: { type: 'string', enum: ['Taxed', 'Exempt', 'Excluded'] },
+        tax_classification: { type: 'string', enum: TaxClassificationSchema.options },
         taxes: {
           type: 'array',
           items: { type: 'object', properties: { id: { type: 'number' } } },
@@ -141,10 +341,10 @@ const tools: Tool[] = [
         code: { type: 'string', description: 'Codigo unico del producto' },
         name: { type: 'string', description: 'Nombre del producto' },
         account_group: { type: 'number', description: 'ID de la clasificacion de inventario' },
-        type: { type: 'string', enum: ['Product', 'Service', 'Combo'] },
+        type: { type: 'string', enum: ProductTypeSchema.options },
         stock_control: { type: 'boolean', description: 'Control de inventario' },
         active: { type: 'boolean', description: 'Estado activo' },
-        tax_classification: { type: 'string', enum: ['Taxed', 'Exempt', 'Excluded'] },
+        tax_classification: { type: 'string', enum: TaxClassificationSchema.options },
         taxes: { type: 'array', items: { type: 'object', properties: { id: { type: 'number' } } } },
         prices: { type: 'array' },
         description: { type: 'string' },
@@ -206,8 +406,10 @@ const tools: Tool[] = [
         page: { type: 'number' },
         page_size: { type: 'number' },
         identification: { type: 'string', description: 'Filtrar por numero de identificacion' },
-        created_start: { type: 'string' },
-        created_end: { type: 'string' },
+        branch_office: { type: 'number', description: 'Filtrar por sucursal' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -228,11 +430,11 @@ const tools: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        type: { type: 'string', enum: ['Customer', 'Supplier', 'Other'] },
-        person_type: { type: 'string', enum: ['Person', 'Company'], description: 'Persona natural o juridica' },
-        id_type: { type: 'string', description: 'Tipo documento (13=CC, 31=NIT)' },
+        type: { type: 'string', enum: CustomerTypeSchema.options },
+        person_type: { type: 'string', enum: PersonTypeSchema.options, description: 'Persona natural o juridica' },
+        id_type: { type: 'string', enum: IDENTIFICATION_TYPES.map(type => type.code), description: 'Tipo documento (13=CC, 31=NIT, 22=CE, 41=Pasaporte, 12=TI, 50=NIT de otro pais)' },
         identification: { type: 'string', description: 'Numero de identificacion' },
-        check_digit: { type: 'string', description: 'Digito de verificacion (para NIT)' },
+        check_digit: { type: 'string', description: 'Digito de verificacion (para NIT). Si se omite se calcula' },
         name: { type: 'array', items: { type: 'string' }, description: 'Para Person: [nombre, apellido]. Para Company: [razon social]' },
         commercial_name: { type: 'string' },
         vat_responsible: { type: 'boolean', description: 'Responsable de IVA' },
@@ -264,6 +466,7 @@ const tools: Tool[] = [
               last_name: { type: 'string' },
               email: { type: 'string' },
             },
+            required: ['first_name', 'last_name', 'email'],
           },
         },
       },
@@ -277,9 +480,9 @@ const tools: Tool[] = [
       type: 'object',
       properties: {
         id: { type: 'string', description: 'ID del cliente (GUID)' },
-        type: { type: 'string', enum: ['Customer', 'Supplier', 'Other'] },
-        person_type: { type: 'string', enum: ['Person', 'Company'] },
-        id_type: { type: 'string', description: 'Tipo documento (13=CC, 31=NIT)' },
+        type: { type: 'string', enum: CustomerTypeSchema.options },
+        person_type: { type: 'string', enum: PersonTypeSchema.options },
+        id_type: { type: 'string', enum: IDENTIFICATION_TYPES.map(type => type.code), description: 'Tipo documento (13=CC, 31=NIT, 22=CE, 41=Pasaporte, 12=TI, 50=NIT de otro pais)' },
         identification: { type: 'string' },
         check_digit: { type: 'string' },
         name: { type: 'array', items: { type: 'string' } },
@@ -292,6 +495,32 @@ const tools: Tool[] = [
       required: ['id'],
     },
   },
+  {
+    name: 'siigo_validate_identification',
+    description: 'Valida localmente una identificacion colombiana segun su tipo (CC, CE, NIT, pasaporte, TI, NIT de otro pais, ...) y calcula el digito de verificacion DIAN de un NIT',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id_type: { type: 'string', enum: IDENTIFICATION_TYPES.map(type => type.code), description: 'Tipo documento (13=CC, 31=NIT, 22=CE, 41=Pasaporte, 12=TI, 50=NIT de otro pais)' },
+        identification: { type: 'string', description: 'Numero de identificacion; un NIT puede incluir puntos y -DV' },
+        check_digit: { type: 'string', description: 'Digito de verificacion a comprobar' },
+      },
+      required: ['id_type', 'identification'],
+    },
+  },
+  {
+    name: 'siigo_search_city',
+    description: 'Busca municipios de Colombia por nombre (sin importar tildes ni mayusculas) y devuelve los codigos DIVIPOLA (country_code, state_code, city_code) para la direccion de un cliente',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Nombre del municipio, ej: Medellin. Acepta "Armenia, Quindio" para limitar al departamento' },
+        state: { type: 'string', description: 'Nombre o codigo del departamento' },
+        limit: { type: 'number', description: 'Maximo de resultados (default: 10)' },
+      },
+      required: ['query'],
+    },
+  },
 
   // Invoices
   {
@@ -302,10 +531,15 @@ const tools: Tool[] = [
       properties: {
         page: { type: 'number' },
         page_size: { type: 'number' },
+        name: { type: 'string', description: 'Nombre del documento, ej: FV-1-457' },
         customer_identification: { type: 'string' },
-        date_start: { type: 'string' },
-        date_end: { type: 'string' },
+        customer_branch_office: { type: 'number', description: 'Sucursal del cliente' },
+        date_start: { type: 'string', description: 'Fecha del documento desde (yyyy-MM-dd)' },
+        date_end: { type: 'string', description: 'Fecha del documento hasta (yyyy-MM-dd)' },
         document_id: { type: 'number' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -360,7 +594,12 @@ const tools: Tool[] = [
           },
           description: 'Formas de pago',
         },
-        idempotency_key: { type: 'string', description: 'Clave unica para evitar duplicados' },
+        retentions: {
+          type: 'array',
+          items: { type: 'object', properties: { id: { type: 'number' } } },
+          description: 'Retenciones del documento (ReteIVA, ReteICA, Autorretencion)',
+        },
+        idempotency_key: { type: 'string', description: 'Clave de idempotencia alfanumerica (max. 30). Si se omite se deriva del contenido del documento' },
       },
       required: ['document_id', 'date', 'customer_identification', 'seller_id', 'items', 'payments'],
     },
@@ -476,10 +715,14 @@ const tools: Tool[] = [
       properties: {
         page: { type: 'number' },
         page_size: { type: 'number' },
+        name: { type: 'string', description: 'Nombre del documento, ej: C-1-457' },
         customer_identification: { type: 'string' },
-        date_start: { type: 'string' },
-        date_end: { type: 'string' },
+        customer_branch_office: { type: 'number', description: 'Sucursal del cliente' },
+        date_start: { type: 'string', description: 'Fecha del documento desde (yyyy-MM-dd)' },
+        date_end: { type: 'string', description: 'Fecha del documento hasta (yyyy-MM-dd)' },
         document_id: { type: 'number' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -562,6 +805,9 @@ const tools: Tool[] = [
       properties: {
         page: { type: 'number' },
         page_size: { type: 'number' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -609,7 +855,7 @@ const tools: Tool[] = [
             },
           },
         },
-        idempotency_key: { type: 'string' },
+        idempotency_key: { type: 'string', description: 'Clave de idempotencia alfanumerica (max. 30). Si se omite se deriva del contenido del documento' },
       },
       required: ['document_id', 'date', 'customer_identification', 'seller_id', 'items', 'payments'],
     },
@@ -639,6 +885,7 @@ const tools: Tool[] = [
         date_start: { type: 'string' },
         date_end: { type: 'string' },
         document_id: { type: 'number' },
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -732,6 +979,9 @@ const tools: Tool[] = [
       properties: {
         page: { type: 'number' },
         page_size: { type: 'number' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -754,7 +1004,7 @@ const tools: Tool[] = [
       properties: {
         document_id: { type: 'number', description: 'ID tipo de recibo de caja' },
         date: { type: 'string', description: 'Fecha (yyyy-MM-dd)' },
-        type: { type: 'string', enum: ['AdvancePayment', 'DebtPayment', 'Balance'], description: 'Tipo de recibo' },
+        type: { type: 'string', enum: VoucherTypeSchema.options, description: 'Tipo de recibo' },
         customer_identification: { type: 'string' },
         items: {
           type: 'array',
@@ -765,7 +1015,8 @@ const tools: Tool[] = [
               due_consecutive: { type: 'number', description: 'Consecutivo factura' },
               due_quote: { type: 'number', description: 'Cuota a pagar' },
               value: { type: 'number' },
-              account_code: { type: 'string', description: 'Cuenta contable (para Balance)' },
+              account_code: { type: 'string', description: 'Cuenta contable (para Detailed)' },
+              movement: { type: 'string', enum: VoucherMovementTypeSchema.options, description: 'Movimiento de la cuenta (por defecto Debit)' },
             },
           },
         },
@@ -779,7 +1030,7 @@ const tools: Tool[] = [
             },
           },
         },
-        idempotency_key: { type: 'string' },
+        idempotency_key: { type: 'string', description: 'Clave de idempotencia alfanumerica (max. 30). Si se omite se deriva del contenido del documento' },
       },
       required: ['document_id', 'date', 'customer_identification', 'type', 'items', 'payments'],
     },
@@ -798,6 +1049,9 @@ const tools: Tool[] = [
         date_start: { type: 'string' },
         date_end: { type: 'string' },
         document_id: { type: 'number' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -820,7 +1074,7 @@ const tools: Tool[] = [
       properties: {
         document_id: { type: 'number', description: 'ID tipo de recibo de pago' },
         date: { type: 'string', description: 'Fecha (yyyy-MM-dd)' },
-        type: { type: 'string', enum: ['AdvancePayment', 'DebtPayment', 'Balance'] },
+        type: { type: 'string', enum: VoucherTypeSchema.options },
         supplier_identification: { type: 'string' },
         items: {
           type: 'array',
@@ -832,6 +1086,7 @@ const tools: Tool[] = [
               due_quote: { type: 'number' },
               value: { type: 'number' },
               account_code: { type: 'string' },
+              movement: { type: 'string', enum: VoucherMovementTypeSchema.options },
             },
           },
         },
@@ -845,7 +1100,7 @@ const tools: Tool[] = [
             },
           },
         },
-        idempotency_key: { type: 'string' },
+        idempotency_key: { type: 'string', description: 'Clave de idempotencia alfanumerica (max. 30). Si se omite se deriva del contenido del documento' },
       },
       required: ['document_id', 'date', 'supplier_identification', 'type', 'items', 'payments'],
     },
@@ -871,6 +1126,10 @@ const tools: Tool[] = [
       properties: {
         page: { type: 'number' },
         page_size: { type: 'number' },
+        document_id: { type: 'number', description: 'Filtrar por ID del comprobante' },
+        ...CREATED_RANGE_PROPERTIES,
+        ...UPDATED_RANGE_PROPERTIES,
+        ...FETCH_ALL_PROPERTIES,
       },
     },
   },
@@ -896,7 +1155,7 @@ const tools: Tool[] = [
           },
         },
         observations: { type: 'string' },
-        idempotency_key: { type: 'string' },
+        idempotency_key: { type: 'string', description: 'Clave de idempotencia alfanumerica (max. 30). Si se omite se deriva del contenido del documento' },
       },
       required: ['document_id', 'date', 'items'],
     },
@@ -934,7 +1193,14 @@ const tools: Tool[] = [
   {
     name: 'siigo_accounts_payable',
     description: 'Genera el reporte de cuentas por pagar',
-    inputSchema: { type: 'object', properties: {} },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number' },
+        page_size: { type: 'number' },
+        ...FETCH_ALL_PROPERTIES,
+      },
+    },
   },
 
   // Catalogs
@@ -996,12 +1262,71 @@ const tools: Tool[] = [
     description: 'Obtiene la lista de activos fijos',
     inputSchema: { type: 'object', properties: {} },
   },
+  {
+    name: 'siigo_refresh_catalogs',
+    description: 'Descarta los catalogos guardados en cache (impuestos, tipos de documento, bodegas, etc.) para que la siguiente consulta los traiga de nuevo desde Siigo',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalogs: {
+          type: 'array',
+          items: { type: 'string', enum: [...CATALOGS] },
+          description: 'Catalogos a refrescar. Si se omite se refrescan todos',
+        },
+      },
+    },
+  },
+
+  // Taxes
+  {
+    name: 'siigo_calculate_taxes',
+    description: 'Calcula localmente impuestos y retenciones de un documento (IVA, Impoconsumo, ReteFuente, ReteIVA, ReteICA, Autorretencion) con los porcentajes de siigo_get_taxes y la configuracion del tipo de comprobante, y sugiere el valor de payments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_type: { type: 'string', enum: ['FV', 'NC', 'FC', 'C'], description: 'FV factura de venta, NC nota credito, FC factura de compra, C cotizacion' },
+        document_id: { type: 'number', description: 'ID del tipo de comprobante (define descuento por valor o porcentaje, decimales y tope de autorretencion). Por defecto el primero activo' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              quantity: { type: 'number' },
+              price: { type: 'number' },
+              discount: { type: 'number', description: 'Porcentaje o valor segun el tipo de comprobante' },
+              taxes: { type: 'array', items: { type: 'object', properties: { id: { type: 'number' } } } },
+            },
+            required: ['quantity', 'price'],
+          },
+        },
+        retentions: {
+          type: 'array',
+          items: { type: 'object', properties: { id: { type: 'number' } } },
+          description: 'Retenciones del documento: ReteIVA sobre el IVA, ReteFuente y ReteICA sobre el subtotal, Autorretencion sobre el subtotal que supere el tope',
+        },
+        payments: {
+          type: 'array',
+          items: { type: 'object', properties: { id: { type: 'number' }, value: { type: 'number' } } },
+          description: 'Pagos a verificar contra el total',
+        },
+      },
+      required: ['document_type', 'items'],
+    },
+  },
 
   // Webhooks
   {
     name: 'siigo_list_webhooks',
     description: 'Lista todas las suscripciones de webhooks de la compania',
-    inputSchema: { type: 'object', properties: {} },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number' },
+        page_size: { type: 'number' },
+        ...FETCH_ALL_PROPERTIES,
+      },
+    },
   },
   {
     name: 'siigo_create_webhook',
@@ -1044,25 +1369,254 @@ const tools: Tool[] = [
   },
 ];
 
-// Tool handler
-async function handleTool(name: string, args: any): Promise<any> {
-  const client = getClient();
+// Every Siigo tool accepts an optional company profile
+const COMPANY_PROPERTY = {
+  type: 'string',
+  description: 'Perfil de empresa a usar (ver siigo_list_companies). Por defecto la empresa predeterminada',
+};
+
+for (const tool of tools) {
+  if (!['siigo_list_companies', 'siigo_set_default_company', 'siigo_audit_search', 'siigo_coverage_report', 'siigo_validate_identification', 'siigo_search_city'].includes(tool.name)) {
+    tool.inputSchema.properties = { ...tool.inputSchema.properties, company: COMPANY_PROPERTY };
+  }
+}
+
+// Document creates that can be checked locally with dry_run before posting
+const DRY_RUN_TOOLS = ['siigo_create_invoice', 'siigo_create_credit_note', 'siigo_create_purchase', 'siigo_create_quotation'];
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description: 'Solo calcular: devuelve subtotales, descuentos, impuestos, retenciones y total, y verifica que la suma de payments coincida, sin crear el documento',
+};
+
+for (const tool of tools.filter(tool => DRY_RUN_TOOLS.includes(tool.name))) {
+  tool.inputSchema.properties = { ...tool.inputSchema.properties, dry_run: DRY_RUN_PROPERTY };
+}
+
+const CONFIRMATION_TOKEN_PROPERTY = {
+  type: 'string',
+  description: 'Token devuelto por la primera llamada (vista previa). Sin token la herramienta solo muestra el documento afectado y las consecuencias',
+};
+
+// Checked before the preview, so no token is issued for a call that would be rejected
+const CONFIRMED_TOOL_SCHEMAS: Record<string, ZodSchema<unknown>> = {
+  siigo_annul_invoice: InvoiceIdSchema,
+  siigo_delete_invoice: InvoiceIdSchema,
+  siigo_delete_purchase: PurchaseIdSchema,
+  siigo_delete_payment_receipt: PaymentReceiptIdSchema,
+  siigo_delete_product: ProductIdSchema,
+  siigo_create_invoice: CreateInvoiceSchema,
+};
+
+if (SIIGO_CONFIRMATION) {
+  for (const tool of tools.filter(tool => CONFIRMED_TOOLS.includes(tool.name))) {
+    tool.inputSchema.properties = { ...tool.inputSchema.properties, confirmation_token: CONFIRMATION_TOKEN_PROPERTY };
+  }
+}
+
+// Human references each tool accepts in place of ids (see references.ts)
+const TAX_NAME_PROPERTY = { type: 'string', description: 'Nombre del impuesto, ej: IVA 19%, en lugar de id' };
+const PAYMENT_NAME_PROPERTY = { type: 'string', description: 'Nombre de la forma de pago, ej: Efectivo, en lugar de id' };
+const CITY_NAME_PROPERTIES = {
+  city_name: { type: 'string', description: 'Nombre del municipio, ej: Medellin, en lugar de los codigos (ver siigo_search_city)' },
+  state_name: { type: 'string', description: 'Departamento, para municipios con el mismo nombre en varios departamentos' },
+};
+
+// Add a name alternative to the id of each entry of an array property
+function withNameProperty(list: any, property: object): object {
+  return {
+    ...list,
+    type: 'array',
+    items: {
+      type: 'object',
+      ...list?.items,
+      properties: { id: { type: 'number' }, ...list?.items?.properties, name: property },
+    },
+  };
+}
+
+for (const tool of tools) {
+  const references = toolReferences(tool.name);
+  const properties: Record<string, any> = tool.inputSchema.properties ?? {};
+  const alternative = (idField: string, field: string, description: string) => {
+    properties[field] = properties[field]
+      ? { ...properties[field], description: `${properties[field].description ? `${properties[field].description}. ` : ''}Si se omite ${idField}, identifica el registro a actualizar` }
+      : { type: 'string', description: `${description[0].toUpperCase()}${description.slice(1)}, en lugar de ${idField}` };
+    tool.inputSchema.required = tool.inputSchema.required?.filter(required => required !== idField);
+  };
+
+  if (references.document) {
+    alternative('document_id', 'document', 'nombre o codigo del tipo de comprobante');
+  }
+  if (references.seller) {
+    alternative('seller_id', 'seller', 'correo, usuario, nombre o identificacion del vendedor');
+  }
+  if (references.product) {
+    alternative('id', 'code', 'codigo del producto');
+  }
+  if (references.customer) {
+    alternative('id', 'identification', 'identificacion (NIT o cedula) del cliente');
+  }
+  if (references.account_group) {
+    properties.account_group = { type: ['number', 'string'], description: 'ID o nombre de la clasificacion de inventario' };
+  }
+  if (references.taxes) {
+    for (const field of ['taxes', 'retentions'].filter(field => properties[field])) {
+      properties[field] = withNameProperty(properties[field], TAX_NAME_PROPERTY);
+    }
+    const itemProperties = properties.items?.items?.properties;
+    if (itemProperties?.taxes) {
+      itemProperties.taxes = withNameProperty(itemProperties.taxes, TAX_NAME_PROPERTY);
+    }
+  }
+  if (references.city) {
+    const address = properties.address ?? { type: 'object' };
+    const city = address.properties?.city ?? { type: 'object' };
+    properties.address = {
+      ...address,
+      properties: { ...address.properties, city: { ...city, properties: { ...city.properties, ...CITY_NAME_PROPERTIES } } },
+    };
+  }
+  if (references.payments && properties.payments) {
+    properties.payments = withNameProperty(properties.payments, PAYMENT_NAME_PROPERTY);
+  }
+  tool.inputSchema.properties = properties;
+}
+
+// Read-only, destructive and idempotent hints for MCP clients
+for (const tool of tools) {
+  tool.annotations = toolAnnotations(tool.name);
+}
+
+// Return one page, or every page merged with the total count when all_pages is set
+function listPages<T>(
+  client: SiigoClient,
+  fetchPage: (params: any) => Promise<PaginatedList<T>>,
+  args: any
+) {
+  const { all_pages, max_results, ...params } = args;
+  if (!all_pages) {
+    return fetchPage(params);
+  }
+  return client.fetchAll(fetchPage, params, max_results);
+}
+
+// Create a document with the given idempotency key, or one derived from the payload,
+// and report the key used in the result
+async function createWithIdempotency<T extends { id?: string | null; name?: string | null }>(
+  company: string,
+  endpoint: IdempotentEndpoint,
+  payload: unknown,
+  providedKey: string | undefined,
+  create: (key: string, onOutcome: OnWriteOutcome) => Promise<T>
+): Promise<T & { _idempotency: IdempotencyInfo; _delivery?: WriteReport }> {
+  const journal = getIdempotencyJournal();
+  const idempotency = journal.resolve(company, endpoint, payload, providedKey);
+  const result = await withDeliveryReport(onOutcome => create(idempotency.key, onOutcome));
+  journal.complete(company, endpoint, idempotency.key, result);
+  return { ...result, _idempotency: idempotency };
+}
+
+// Run a create call and report whether it succeeded first time, after retries,
+// or by finding the document an interrupted attempt had already created
+async function withDeliveryReport<T>(
+  create: (onOutcome: OnWriteOutcome) => Promise<T>
+): Promise<T & { _delivery?: WriteReport }> {
+  let delivery: WriteReport | undefined;
+  const result = await create(report => { delivery = report; });
+  return { ...result, _delivery: delivery };
+}
+
+// When Siigo rejects the payments sum, add the total computed by the tax engine and the
+// payments that would match it
+async function withPaymentsSuggestion<T>(
+  client: SiigoClient,
+  type: TotalsDocumentType,
+  args: any,
+  create: () => Promise<T>
+): Promise<T> {
+  try {
+    return await create();
+  } catch (error) {
+    const rejected = error instanceof SiigoApiError ? error.errors.filter(detail => detail.code === 'invalid_total_payments') : [];
+    if (rejected.length > 0) {
+      const totals = await documentTotals(client, type, args).catch(() => null);
+      if (totals?.suggested_payments) {
+        for (const detail of rejected) {
+          detail.fix = `Total calculado con los impuestos de la empresa: ${totals.total}. Envia payments = ${JSON.stringify(totals.suggested_payments)} (ver siigo_calculate_taxes para el detalle).`;
+        }
+      }
+    }
+    throw error;
+  }
+}
+
+// Tool handler. registry gives the profiles the calling client may use
+async function handleTool(name: string, { company, ...args }: any, registry: () => CompanyRegistry = getCompanies): Promise<any> {
+  if (!isToolAllowed(name, accessMode)) {
+    throw new Error(`${name} is not available with SIIGO_ACCESS_MODE=${accessMode}`);
+  }
+
+  // Company management
+  switch (name) {
+    case 'siigo_list_companies':
+      return registry().list();
+    case 'siigo_set_default_company':
+      if (typeof company !== 'string' || !company) {
+        throw new Error('Validation error: company: Required');
+      }
+      return registry().setDefault(company);
+    case 'siigo_audit_search':
+      if (!auditLog) {
+        throw new Error('Audit log is disabled (SIIGO_AUDIT_LOG=off)');
+      }
+      return auditLog.search({
+        ...validateInput(AuditSearchSchema, { company, ...args }),
+        companies: registry().list().map(summary => summary.company),
+      });
+    case 'siigo_coverage_report':
+      return coverageReport(tools);
+    case 'siigo_validate_identification':
+      validateInput(ValidateIdentificationSchema, args);
+      return checkIdentification(args.id_type, args.identification, args.check_digit);
+    case 'siigo_search_city':
+      validateInput(SearchCitySchema, args);
+      return searchCities(args.query, { state: args.state, limit: args.limit });
+  }
+
+  const client = registry().getClient(company);
+  const companyName = registry().resolve(company);
+  args = await resolveReferences(client, name, args);
+
+  // Operations that cannot be undone first return a preview; they run with its token
+  if (SIIGO_CONFIRMATION && requiresConfirmation(name, args)) {
+    const { confirmation_token, ...operation } = args;
+    validateInput(CONFIRMED_TOOL_SCHEMAS[name], operation);
+    const preview = await previewOperation(client, name, operation);
+    if (!confirmation_token) {
+      return confirmations.prepare(registry(), companyName, name, operation, preview);
+    }
+    confirmations.confirm(confirmation_token, registry(), companyName, name, operation, preview);
+    args = operation;
+  }
 
   switch (name) {
     // Authentication
     case 'siigo_authenticate':
       return client.getToken();
+    case 'siigo_get_rate_limit_status':
+      return client.getRateLimitStatus();
 
     // Products
     case 'siigo_list_products':
       validateInput(ListProductsSchema, args);
-      return client.listProducts(args);
+      return listPages(client, p => client.listProducts(p), args);
     case 'siigo_get_product':
       validateInput(ProductIdSchema, args);
       return client.getProduct(args.id);
     case 'siigo_create_product':
       validateInput(CreateProductSchema, args);
-      return client.createProduct(args);
+      return withDeliveryReport(onOutcome => client.createProduct(args, onOutcome));
     case 'siigo_update_product':
       validateInput(UpdateProductSchema, args);
       const { id: productId, ...productData } = args;
@@ -1085,28 +1639,42 @@ async function handleTool(name: string, args: any): Promise<any> {
     // Customers
     case 'siigo_list_customers':
       validateInput(ListCustomersSchema, args);
-      return client.listCustomers(args);
+      return listPages(client, p => client.listCustomers(p), args);
     case 'siigo_get_customer':
       validateInput(CustomerIdSchema, args);
       return client.getCustomer(args.id);
     case 'siigo_create_customer':
       validateInput(CreateCustomerSchema, args);
-      return client.createCustomer(args);
+      return withDeliveryReport(onOutcome => client.createCustomer(withCheckedIdentification(args), onOutcome));
     case 'siigo_update_customer':
       validateInput(CustomerIdSchema, { id: args.id });
       const { id: customerId, ...customerData } = args;
-      return client.updateCustomer(customerId, customerData);
+      // A check digit can only be checked against the id type and number it belongs to
+      if (customerData.check_digit !== undefined && (customerData.id_type === undefined || customerData.identification === undefined)) {
+        throw new Error('Validation error: check_digit: send it together with id_type and identification');
+      }
+      if (customerData.id_type !== undefined && customerData.identification !== undefined) {
+        validateInput(CustomerIdentificationSchema, {
+          id_type: customerData.id_type,
+          identification: customerData.identification,
+          check_digit: customerData.check_digit,
+        });
+      }
+      return client.updateCustomer(customerId, withCheckedIdentification(customerData));
 
     // Invoices
     case 'siigo_list_invoices':
       validateInput(ListInvoicesSchema, args);
-      return client.listInvoices(args);
+      return listPages(client, p => client.listInvoices(p), args);
     case 'siigo_get_invoice':
       validateInput(InvoiceIdSchema, args);
       return client.getInvoice(args.id);
     case 'siigo_create_invoice':
       validateInput(CreateInvoiceSchema, args);
-      return client.createInvoice({
+      if (args.dry_run) {
+        return dryRunDocument(client, 'FV', args);
+      }
+      const invoiceData = {
         document: { id: args.document_id },
         date: args.date,
         customer: {
@@ -1119,7 +1687,11 @@ async function handleTool(name: string, args: any): Promise<any> {
         observations: args.observations,
         items: args.items,
         payments: args.payments,
-      }, args.idempotency_key);
+        retentions: args.retentions,
+      };
+      return withPaymentsSuggestion(client, 'FV', args, () =>
+        createWithIdempotency(companyName, 'invoices', invoiceData, args.idempotency_key,
+          (key, onOutcome) => client.createInvoice(invoiceData, key, onOutcome)));
     case 'siigo_update_invoice':
       validateInput(InvoiceIdSchema, { id: args.id });
       const { id: invoiceId, ...invoiceUpdateData } = args;
@@ -1166,13 +1738,16 @@ async function handleTool(name: string, args: any): Promise<any> {
     // Quotations
     case 'siigo_list_quotations':
       validateInput(ListQuotationsSchema, args);
-      return client.listQuotations(args);
+      return listPages(client, p => client.listQuotations(p), args);
     case 'siigo_get_quotation':
       validateInput(QuotationIdSchema, args);
       return client.getQuotation(args.id);
     case 'siigo_create_quotation':
       validateInput(CreateQuotationSchema, args);
-      return client.createQuotation({
+      if (args.dry_run) {
+        return dryRunDocument(client, 'C', args);
+      }
+      return withDeliveryReport(onOutcome => client.createQuotation({
         document: { id: args.document_id },
         date: args.date,
         customer: {
@@ -1182,7 +1757,7 @@ async function handleTool(name: string, args: any): Promise<any> {
         seller: args.seller_id,
         items: args.items,
         observations: args.observations,
-      });
+      }, onOutcome));
     case 'siigo_update_quotation':
       validateInput(QuotationIdSchema, { id: args.id });
       const { id: quotationId, ...quotationData } = args;
@@ -1203,13 +1778,17 @@ async function handleTool(name: string, args: any): Promise<any> {
 
     // Credit Notes
     case 'siigo_list_credit_notes':
-      return client.listCreditNotes(args);
+      validateInput(ListCreditNotesSchema, args);
+      return listPages(client, p => client.listCreditNotes(p), args);
     case 'siigo_get_credit_note':
       validateInput(CreditNoteIdSchema, args);
       return client.getCreditNote(args.id);
     case 'siigo_create_credit_note':
       validateInput(CreateCreditNoteSchema, args);
-      return client.createCreditNote({
+      if (args.dry_run) {
+        return dryRunDocument(client, 'NC', args);
+      }
+      const creditNoteData = {
         document: { id: args.document_id },
         date: args.date,
         invoice: args.invoice_id?.toString(),
@@ -1220,7 +1799,10 @@ async function handleTool(name: string, args: any): Promise<any> {
         reason: args.reason || 1,
         items: args.items,
         payments: args.payments,
-      }, args.idempotency_key);
+      };
+      return withPaymentsSuggestion(client, 'NC', args, () =>
+        createWithIdempotency(companyName, 'credit-notes', creditNoteData, args.idempotency_key,
+          (key, onOutcome) => client.createCreditNote(creditNoteData, key, onOutcome)));
     case 'siigo_get_credit_note_pdf':
       validateInput(CreditNoteIdSchema, args);
       return client.getCreditNotePdf(args.id);
@@ -1228,13 +1810,16 @@ async function handleTool(name: string, args: any): Promise<any> {
     // Purchases
     case 'siigo_list_purchases':
       validateInput(ListPurchasesSchema, args);
-      return client.listPurchases(args);
+      return listPages(client, p => client.listPurchases(p), args);
     case 'siigo_get_purchase':
       validateInput(PurchaseIdSchema, args);
       return client.getPurchase(args.id);
     case 'siigo_create_purchase':
       validateInput(CreatePurchaseSchema, args);
-      return client.createPurchase({
+      if (args.dry_run) {
+        return dryRunDocument(client, 'FC', args);
+      }
+      return withPaymentsSuggestion(client, 'FC', args, () => withDeliveryReport(onOutcome => client.createPurchase({
         document: { id: args.document_id },
         date: args.date,
         supplier: {
@@ -1253,7 +1838,7 @@ async function handleTool(name: string, args: any): Promise<any> {
         })),
         payments: args.payments,
         retentions: args.retentions,
-      });
+      }, onOutcome)));
     case 'siigo_update_purchase':
       validateInput(PurchaseIdSchema, { id: args.id });
       const { id: purchaseId, ...purchaseData } = args;
@@ -1274,13 +1859,14 @@ async function handleTool(name: string, args: any): Promise<any> {
 
     // Vouchers
     case 'siigo_list_vouchers':
-      return client.listVouchers(args);
+      validateInput(ListVouchersSchema, args);
+      return listPages(client, p => client.listVouchers(p), args);
     case 'siigo_get_voucher':
       validateInput(VoucherIdSchema, args);
       return client.getVoucher(args.id);
     case 'siigo_create_voucher':
       validateInput(CreateVoucherSchema, args);
-      return client.createVoucher({
+      const voucherData = {
         document: { id: args.document_id },
         date: args.date,
         type: args.type,
@@ -1303,18 +1889,20 @@ async function handleTool(name: string, args: any): Promise<any> {
           id: args.payments[0].id,
           value: args.payments[0].value,
         } : undefined,
-      }, args.idempotency_key);
+      };
+      return createWithIdempotency(companyName, 'vouchers', voucherData, args.idempotency_key,
+        (key, onOutcome) => client.createVoucher(voucherData, key, onOutcome));
 
     // Payment Receipts
     case 'siigo_list_payment_receipts':
       validateInput(ListPaymentReceiptsSchema, args);
-      return client.listPaymentReceipts(args);
+      return listPages(client, p => client.listPaymentReceipts(p), args);
     case 'siigo_get_payment_receipt':
       validateInput(PaymentReceiptIdSchema, args);
       return client.getPaymentReceipt(args.id);
     case 'siigo_create_payment_receipt':
       validateInput(CreatePaymentReceiptSchema, args);
-      return client.createPaymentReceipt({
+      const paymentReceiptData = {
         document: { id: args.document_id },
         date: args.date,
         type: args.type,
@@ -1337,17 +1925,20 @@ async function handleTool(name: string, args: any): Promise<any> {
           id: args.payments[0].id,
           value: args.payments[0].value,
         } : undefined,
-      }, args.idempotency_key);
+      };
+      return createWithIdempotency(companyName, 'payment-receipts', paymentReceiptData, args.idempotency_key,
+        (key, onOutcome) => client.createPaymentReceipt(paymentReceiptData, key, onOutcome));
     case 'siigo_delete_payment_receipt':
       validateInput(PaymentReceiptIdSchema, args);
       return client.deletePaymentReceipt(args.id);
 
     // Journals
     case 'siigo_list_journals':
-      return client.listJournals(args);
+      validateInput(ListJournalsSchema, args);
+      return listPages(client, p => client.listJournals(p), args);
     case 'siigo_create_journal':
       validateInput(CreateJournalSchema, args);
-      return client.createJournal({
+      const journalData = {
         document: { id: args.document_id },
         date: args.date,
         items: args.items.map((item: any) => ({
@@ -1362,7 +1953,9 @@ async function handleTool(name: string, args: any): Promise<any> {
           value: item.debit || item.credit,
         })),
         observations: args.observations,
-      }, args.idempotency_key);
+      };
+      return createWithIdempotency(companyName, 'journals', journalData, args.idempotency_key,
+        (key, onOutcome) => client.createJournal(journalData, key, onOutcome));
 
     // Reports
     case 'siigo_test_balance_report':
@@ -1373,11 +1966,14 @@ async function handleTool(name: string, args: any): Promise<any> {
       return client.generateTestBalanceByThirdParty(args);
     case 'siigo_accounts_payable':
       validateInput(AccountsPayableSchema, args);
-      return client.getAccountsPayable(args);
+      return listPages(client, p => client.getAccountsPayable(p), args);
 
     // Catalogs
     case 'siigo_get_taxes':
       return client.getTaxes();
+    case 'siigo_calculate_taxes':
+      validateInput(CalculateTaxesSchema, args);
+      return documentTotals(client, args.document_type, args);
     case 'siigo_get_users':
       return client.getUsers();
     case 'siigo_get_document_types':
@@ -1392,13 +1988,17 @@ async function handleTool(name: string, args: any): Promise<any> {
       return client.getPriceLists();
     case 'siigo_get_fixed_assets':
       return client.getFixedAssets();
+    case 'siigo_refresh_catalogs':
+      validateInput(RefreshCatalogsSchema, args);
+      return { refreshed: client.refreshCatalogs(args.catalogs) };
 
     // Webhooks
     case 'siigo_list_webhooks':
-      return client.listWebhooks();
+      validateInput(PaginationSchema, args);
+      return listPages(client, p => client.listWebhooks(p), args);
     case 'siigo_create_webhook':
       validateInput(CreateWebhookSchema, args);
-      return client.createWebhook(args);
+      return withDeliveryReport(onOutcome => client.createWebhook(args, onOutcome));
     case 'siigo_update_webhook':
       validateInput(UpdateWebhookSchema, args);
       const { id: webhookId, ...webhookData } = args;
@@ -1413,7 +2013,84 @@ async function handleTool(name: string, args: any): Promise<any> {
 }
 
 // Main server setup
-async function main() {
+function formatErrorHints(error: SiigoApiError): string {
+  const hints = error.errors.map(e => {
+    const params = e.params.length > 0 ? ` (${e.params.join(', ')})` : '';
+    const lines = [`- ${e.code}${params}: ${e.message}`];
+    if (e.explanation) {
+      lines.push(`  Causa: ${e.explanation}`);
+    }
+    if (e.fix) {
+      lines.push(`  Solucion: ${e.fix}`);
+    }
+    return lines.join('\n');
+  });
+  return `Detalle del error de Siigo (${error.method} ${error.endpoint}, HTTP ${error.status ?? 'sin respuesta'}):\n${hints.join('\n')}`;
+}
+
+// Tool handler wrapper that records each call into the cassette
+async function runTool(name: string, args: any, registry: () => CompanyRegistry): Promise<any> {
+  try {
+    const result = auditLog
+      ? await auditLog.runTool(name, auditedCompany(name, args, registry), args, () => handleTool(name, args, registry))
+      : await handleTool(name, args, registry);
+    cassette?.recordToolCall({ name, arguments: args, result });
+    return result;
+  } catch (error) {
+    cassette?.recordToolCall({ name, arguments: args, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+// Profile a tool call runs against, or null when it has none or the profile is unknown
+function auditedCompany(name: string, args: any, registry: () => CompanyRegistry): string | null {
+  if (['siigo_audit_search', 'siigo_coverage_report', 'siigo_list_companies', 'siigo_validate_identification', 'siigo_search_city'].includes(name)) {
+    return null;
+  }
+  try {
+    return registry().resolve(args.company);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-run the tool calls of a recorded session against its cassette and report differences
+ */
+async function replaySession(path: string): Promise<boolean> {
+  cassette = new Cassette(path, 'replay');
+  let matched = 0;
+
+  for (const [index, call] of cassette.toolCalls.entries()) {
+    let outcome: { result?: unknown; error?: string };
+    try {
+      outcome = { result: await handleTool(call.name, { ...call.arguments }) };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Compared as recorded, with the credentials redacted
+    const replayed = redactToolCall({ name: call.name, arguments: call.arguments, ...outcome });
+    const expected = JSON.stringify(call.error !== undefined ? { error: call.error } : { result: call.result });
+    const actual = JSON.stringify(replayed.error !== undefined ? { error: replayed.error } : { result: replayed.result });
+    if (expected === actual) {
+      matched++;
+      console.error(`[${index + 1}] ${call.name}: ok`);
+    } else {
+      console.error(`[${index + 1}] ${call.name}: differs\n  recorded: ${expected}\n  replayed: ${actual}`);
+    }
+  }
+
+  console.error(`Replayed ${cassette.toolCalls.length} tool calls, ${matched} matched`);
+  return matched === cassette.toolCalls.length;
+}
+
+/**
+ * MCP server with every handler, for one connection: the stdio client or one HTTP session
+ */
+function createSession(registry: () => CompanyRegistry, remote = false): McpSession {
+  const stdioOnly = (name: string) => remote && STDIO_ONLY_TOOLS.includes(name);
+
   const server = new Server(
     {
       name: 'mcp-server-siigo',
@@ -1422,13 +2099,15 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
 
   // List tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools,
+    tools: tools.filter(tool => isToolAllowed(tool.name, accessMode) && !stdioOnly(tool.name)),
   }));
 
   // Call tool handler
@@ -1436,7 +2115,10 @@ async function main() {
     const { name, arguments: args } = request.params;
 
     try {
-      const result = await handleTool(name, args || {});
+      if (stdioOnly(name)) {
+        throw new Error(`${name} is not available over HTTP`);
+      }
+      const result = await runTool(name, args || {}, registry);
       return {
         content: [
           {
@@ -1453,15 +2135,122 @@ async function main() {
             type: 'text',
             text: `Error: ${errorMessage}`,
           },
+          // Documented error codes with their explanation and fix, so the next call can be corrected
+          ...(error instanceof SiigoApiError && error.errors.length > 0 ? [{
+            type: 'text' as const,
+            text: formatErrorHints(error),
+          }] : []),
+          ...(error instanceof UnresolvedReferenceError && error.candidates.length > 0 ? [{
+            type: 'text' as const,
+            text: `Candidatos para ${error.field}:\n${error.candidates.map(candidate => `- ${candidate.id}: ${candidate.label}`).join('\n')}`,
+          }] : []),
         ],
         isError: true,
       };
     }
   });
 
+  // Resources: catalogs and documents readable as context without a tool call
+  const resources = new SiigoResources(registry);
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => resources.list(request.params?.cursor));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => resources.templates());
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => resources.read(request.params.uri));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    resources.subscribe(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resources.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Prompts: templates for recurring accounting workflows
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts() }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => getPrompt(request.params.name, request.params.arguments));
+
+  const session = { server, resources, registry };
+  sessions.add(session);
+  server.onclose = () => {
+    sessions.delete(session);
+  };
+  return session;
+}
+
+async function main() {
+  // mcp-server-siigo replay <cassette.json>
+  if (process.argv[2] === 'replay') {
+    if (!process.argv[3]) {
+      throw new Error('Usage: mcp-server-siigo replay <cassette.json>');
+    }
+    const ok = await replaySession(process.argv[3]);
+    process.exit(ok ? 0 : 1);
+  }
+
+  // mcp-server-siigo coverage [siigoapi.apib]
+  if (process.argv[2] === 'coverage') {
+    console.log(JSON.stringify(coverageReport(tools, process.argv[3]), null, 2));
+    process.exit(0);
+  }
+
+  accessMode = parseAccessMode(process.env.SIIGO_ACCESS_MODE);
+  const cassetteMode = parseCassetteMode(SIIGO_CASSETTE_MODE);
+
+  if (SIIGO_CASSETTE) {
+    cassette = new Cassette(SIIGO_CASSETTE, cassetteMode);
+    console.error(`Siigo cassette ${cassetteMode === 'replay' ? 'replaying from' : 'recording to'} ${SIIGO_CASSETTE}`);
+  }
+
+  // Replayed sessions are not real traffic and are left out of the audit trail
+  if (SIIGO_AUDIT_LOG !== 'off' && cassette?.mode !== 'replay') {
+    auditLog = new AuditLog(SIIGO_AUDIT_LOG);
+  }
+
+  if (SIIGO_WEBHOOK_PORT) {
+    const receiver = await startWebhookReceiver(event => {
+      for (const { server, resources, registry } of sessions) {
+        const company = registry().list().find(profile => profile.username === event.username)?.company;
+        for (const uri of company ? resources.subscribedProductUris(company, event.code) : []) {
+          server.sendResourceUpdated({ uri }).catch(console.error);
+        }
+      }
+    }, { port: Number(SIIGO_WEBHOOK_PORT), host: SIIGO_WEBHOOK_HOST });
+    receiver.unref();
+    console.error(`Siigo webhook receiver listening on ${receiver.url}`);
+  }
+
+  if (SIIGO_MODE === 'sandbox') {
+    const simulator = await startSimulator({
+      requestsPerMinute: Number(process.env.SIIGO_REQUESTS_PER_MINUTE) || undefined,
+    });
+    // The MCP transport decides the process lifetime, not the simulator
+    simulator.unref();
+    sandboxUrl = simulator.url;
+    console.error(`Siigo sandbox simulator listening on ${simulator.url}`);
+  }
+
+  // SIIGO_TRANSPORT=http serves one shared instance; each client is limited to its profiles
+  if (SIIGO_TRANSPORT === 'http') {
+    const config = loadHttpConfig();
+    for (const [name, client] of Object.entries(config.clients)) {
+      for (const company of client.companies ?? []) {
+        if (!getCompanies().list().some(profile => profile.company === company)) {
+          throw new Error(`HTTP client "${name}" uses unknown company "${company}"`);
+        }
+      }
+    }
+    // Every session gets its own registry, so siigo_set_default_company in one does not
+    // change the default of the others; unrestricted clients get every profile
+    const http = await startHttpServer(config, client => {
+      const registry = getCompanies().scope(client.companies ?? allCompanies());
+      return createSession(() => registry, true).server;
+    });
+    console.error(`Siigo MCP Server listening on ${http.url}${MCP_PATH} (legacy SSE on ${http.url}${SSE_PATH})`);
+    return;
+  }
+
   // Start the server
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createSession(getCompanies).server.connect(transport);
   console.error('Siigo MCP Server started');
 }
 
@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import * as apib from './generated/apib.js';
+
+// Response models for the Siigo API, built from the structures generated from siigoapi.apib
+// (src/generated/apib.ts). relax() makes every object passthrough, so fields not documented
+// yet are preserved instead of stripped, and lets non-required fields be null because Siigo
+// returns null for empty values. The structures are adjusted below where Siigo answers
+// differently from the documentation.
+
+// A generated schema after relax()
+type Relaxed<T extends z.ZodTypeAny> =
+  T extends z.ZodObject<infer Shape, any, any>
+    ? z.ZodObject<{ [K in keyof Shape]: Relaxed<Shape[K]> }, 'passthrough'>
+    : T extends z.ZodOptional<infer Inner>
+      ? z.ZodOptional<z.ZodNullable<Relaxed<Inner>>>
+      : T extends z.ZodArray<infer Item>
+        ? z.ZodArray<Relaxed<Item>>
+        : T;
+
+function relax<T extends z.ZodTypeAny>(schema: T): Relaxed<T> {
+  let relaxed: z.ZodTypeAny = schema;
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.entries(schema.shape as z.ZodRawShape).map(([key, field]) => [key, relax(field)]);
+    relaxed = z.object(Object.fromEntries(shape)).passthrough();
+  } else if (schema instanceof z.ZodOptional) {
+    relaxed = relax(schema.unwrap()).nullish();
+  } else if (schema instanceof z.ZodArray) {
+    relaxed = z.array(relax(schema.element));
+  } else if (schema instanceof z.ZodUnion) {
+    relaxed = z.union(schema.options.map(relax) as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+  return relaxed as Relaxed<T>;
+}
+
+// The product endpoint documents Combo (Siigo Nube Premium), which the ProductType
+// structure does not list
+export const ProductTypeSchema = z.enum([...apib.ProductTypeSchema.options, 'Combo']);
+
+export type ProductType = z.infer<typeof ProductTypeSchema>;
+
+const PaginationOut = apib.PaginationSchema.required();
+
+// Pagination links, not described in the documentation
+const LinksOut = z.object({
+  previous: z.object({ href: z.string() }).optional(),
+  self: z.object({ href: z.string() }).optional(),
+  next: z.object({ href: z.string() }).optional(),
+});
+
+// List responses always carry the pagination and the results
+function paginatedList<T extends z.ZodTypeAny>(item: T) {
+  return relax(z.object({
+    pagination: PaginationOut,
+    results: z.array(item),
+    _links: LinksOut.optional(),
+  }));
+}
+
+// Documents in pesos come without an exchange rate
+const CurrencyOut = apib.CurrencySchema.partial({ exchange_rate: true });
+
+// Lines also carry the item type, and purchases return the discount as a plain value
+const ItemOut = apib.ItemOutSchema.extend({
+  type: z.string().optional(),
+  discount: z.union([apib.DiscountSchema, z.number()]).optional(),
+});
+
+// Invoices return a CUFE and credit notes a CUDE; errors come as a list or as text
+const StampOut = apib.StampOutDianSchema.merge(apib.StampOutDianNCSchema).extend({
+  errors: z.unknown().optional(),
+});
+
+// Debt payment lines carry a due and detailed ones an account, so one shape takes both
+const VoucherItemOut = apib.ItemVoucherSchema.extend({
+  account: apib.VoucherAccountSchema.optional(),
+  due: apib.DueSchema.partial().optional(),
+  description: z.string().optional(),
+});
+
+// Lines of either movement, with a third party only on the accounts that take one
+const JournalItemOut = z.object({
+  account: apib.VoucherAccountSchema,
+  customer: apib.CustomerOutVoucherSchema.optional(),
+  description: z.string().optional(),
+  cost_center: z.number().optional(),
+  value: z.number(),
+});
+
+// Some numbers of the accounts payable report come as strings
+const NumberOrString = z.union([z.number(), z.string()]);
+
+// Authentication: without the token the response is of no use
+export const TokenOutSchema = relax(apib.TokenOutSchema.required({ access_token: true, expires_in: true, token_type: true }));
+
+// Catalogs
+export const TaxSchema = relax(apib.TaxSchema);
+export const AccountGroupSchema = relax(apib.AccountGroupSchema);
+// Users without a registered identification come back without it
+export const UserSchema = relax(apib.UserSchema.partial({ identification: true }));
+// One shape for the document types of every kind, with the kind as returned: besides the
+// documented FV, RC, NC, FC and CC, Siigo returns C and RP
+export const DocumentTypeSchema = relax(apib.DocumentTypeFVSchema
+  .merge(apib.DocumentTypeFCSchema)
+  .merge(apib.DocumentTypeRCSchema)
+  .merge(apib.DocumentTypeNCSchema)
+  .extend({ id: z.number(), type: z.string().optional() }));
+export const PaymentTypesSchema = relax(apib.PaymentTypesSchema);
+export const WarehouseSchema = relax(apib.WarehouseSchema);
+export const CostCenterSchema = relax(apib.CostCenterSchema);
+export const PriceListSchema = relax(apib.PriceListSchema);
+export const FixedAssetSchema = relax(apib.FixedassetsSchema);
+
+// Products
+const ProductOut = apib.ProductOutSchema.extend({ type: ProductTypeSchema });
+export const ProductOutSchema = relax(ProductOut);
+export const ProductsOutListSchema = paginatedList(ProductOut);
+
+// Customers: the id type name, phones and contacts, and the parts of a contact, can be missing
+const CustomerOut = apib.CustomerOutSchema.extend({
+  id_type: apib.IdTypeSchema.partial({ name: true }),
+  phones: z.array(apib.PhoneSchema.partial()).optional(),
+  contacts: z.array(apib.ContactSchema.partial()).optional(),
+});
+export const CustomerOutSchema = relax(CustomerOut);
+export const CustomersOutListSchema = paginatedList(CustomerOut);
+
+// Invoices: the list and detail also return the prefix, the DIAN stamp, the mail status,
+// retentions and advance payments, which the structure leaves out
+const InvoiceOut = apib.InvoiceOutSchema.extend({
+  prefix: z.string().optional(),
+  currency: CurrencyOut.optional(),
+  stamp: StampOut.optional(),
+  mail: apib.MailOutCustomerSchema.optional(),
+  items: z.array(ItemOut).optional(),
+  retentions: z.array(apib.RetentionOutInvoiceSchema).optional(),
+  advance_payment: z.number().optional(),
+  global_discounts: z.array(apib.GlobalDiscountsOutSchema.partial({ name: true, percentage: true, value: true })).optional(),
+  additional_fields: z.record(z.unknown()).optional(),
+});
+export const InvoiceOutSchema = relax(InvoiceOut);
+export const InvoicesOutListSchema = paginatedList(InvoiceOut);
+export const InvoiceBatchOutSchema = relax(apib.InvoiceBatchOutSchema);
+export const StampErrorsOutSchema = relax(apib.FvRejectedSchema);
+export const MailOutSchema = relax(apib.MailOutCustomerSchema);
+
+// Quotations
+const QuotationOut = apib.QuotationOutSchema.extend({
+  currency: CurrencyOut.optional(),
+  observations: z.string().optional(),
+  items: z.array(ItemOut).optional(),
+});
+export const QuotationOutSchema = relax(QuotationOut);
+export const QuotationsOutListSchema = paginatedList(QuotationOut);
+
+// Credit notes
+const CreditNoteOut = apib.CreditNoteOutSchema.extend({
+  currency: CurrencyOut.optional(),
+  stamp: StampOut.optional(),
+  items: z.array(ItemOut).optional(),
+});
+export const CreditNoteOutSchema = relax(CreditNoteOut);
+export const CreditNotesOutListSchema = paginatedList(CreditNoteOut);
+
+// Purchases
+const PurchasesOut = apib.PurchasesOutSchema.extend({
+  supplier: apib.CustomerOutInvoiceSchema.optional(),
+  provider_invoice: apib.ProviderInvoiceSchema.partial().optional(),
+  currency: CurrencyOut.optional(),
+  items: z.array(ItemOut).optional(),
+});
+export const PurchasesOutSchema = relax(PurchasesOut);
+export const PurchasesOutListSchema = paginatedList(PurchasesOut);
+
+// Vouchers (cash receipts) and payment receipts
+const VoucherOut = apib.VoucherOutSchema.extend({
+  currency: CurrencyOut.optional(),
+  items: z.array(VoucherItemOut).optional(),
+});
+export const VoucherOutSchema = relax(VoucherOut);
+export const VouchersOutListSchema = paginatedList(VoucherOut);
+
+const PayoutsOut = apib.PayoutsOutSchema.extend({
+  supplier: apib.CustomerOutVoucherSchema,
+  currency: CurrencyOut.optional(),
+  items: z.array(VoucherItemOut).optional(),
+});
+export const PayoutsOutSchema = relax(PayoutsOut);
+export const PayoutsOutListSchema = paginatedList(PayoutsOut);
+
+// Journals (accounting vouchers)
+const JournalsOut = apib.JournalsOutDevSchema.extend({
+  items: z.array(JournalItemOut).optional(),
+});
+export const JournalsOutSchema = relax(JournalsOut);
+export const JournalsOutListSchema = paginatedList(JournalsOut);
+
+// Reports
+export const BalanceOutSchema = relax(apib.BalanceoutSchema);
+
+const ProviderOut = apib.ProviderOutSchema.extend({
+  due: apib.DueProviderSchema.extend({
+    consecutive: NumberOrString.optional(),
+    quote: NumberOrString.optional(),
+    balance: z.number().optional(),
+  }).optional(),
+  provider: apib.ProviderInfoOutSchema.extend({ identification: NumberOrString.optional() }).optional(),
+  currency: apib.CurrencyProviderSchema.extend({ balance: NumberOrString.optional() }).optional(),
+});
+export const ProviderOutSchema = relax(ProviderOut);
+export const ProviderOutListSchema = paginatedList(ProviderOut);
+
+// Webhooks: a subscription always comes with its id
+const WebhooksOut = apib.WebhooksOutSchema.required({ id: true });
+export const WebhooksOutSchema = relax(WebhooksOut);
+export const WebhooksOutListSchema = paginatedList(WebhooksOut);
+
+// Operation results, not described as structures in the documentation
+export const DeleteOutSchema = relax(z.object({
+  id: z.string().optional(),
+  deleted: z.boolean().optional(),
+}));
+
+export const AnnulOutSchema = relax(z.object({
+  id: z.string().optional(),
+  Annul: z.boolean().optional(),
+}));
+
+// PDF and XML downloads
+export const FileOutSchema = relax(apib.PdfSchema.required({ base64: true }));
+
+export type Pagination = z.infer<Relaxed<typeof PaginationOut>>;
+export type Links = z.infer<Relaxed<typeof LinksOut>>;
+
+// Shape shared by every paginated list endpoint
+export interface PaginatedList<T> {
+  pagination: Pagination;
+  results: T[];
+  _links?: Links | null;
+}
+
+// Merged result of walking every page of a list endpoint
+export interface FetchAllResult<T> {
+  results: T[];
+  total_results: number;
+  returned: number;
+  pages_fetched: number;
+  truncated: boolean;
+}
+
+export type TokenOut = z.infer<typeof TokenOutSchema>;
+export type Tax = z.infer<typeof TaxSchema>;
+export type AccountGroup = z.infer<typeof AccountGroupSchema>;
+export type User = z.infer<typeof UserSchema>;
+export type DocumentType = z.infer<typeof DocumentTypeSchema>;
+export type PaymentTypes = z.infer<typeof PaymentTypesSchema>;
+export type Warehouse = z.infer<typeof WarehouseSchema>;
+export type CostCenter = z.infer<typeof CostCenterSchema>;
+export type PriceList = z.infer<typeof PriceListSchema>;
+export type FixedAsset = z.infer<typeof FixedAssetSchema>;
+export type ProductOut = z.infer<typeof ProductOutSchema>;
+export type ProductsOutList = z.infer<typeof ProductsOutListSchema>;
+export type CustomerOut = z.infer<typeof CustomerOutSchema>;
+export type CustomersOutList = z.infer<typeof CustomersOutListSchema>;
+export type MailOut = z.infer<typeof MailOutSchema>;
+export type InvoiceOut = z.infer<typeof InvoiceOutSchema>;
+export type InvoicesOutList = z.infer<typeof InvoicesOutListSchema>;
+export type InvoiceBatchOut = z.infer<typeof InvoiceBatchOutSchema>;
+export type StampErrorsOut = z.infer<typeof StampErrorsOutSchema>;
+export type QuotationOut = z.infer<typeof QuotationOutSchema>;
+export type QuotationsOutList = z.infer<typeof QuotationsOutListSchema>;
+export type CreditNoteOut = z.infer<typeof CreditNoteOutSchema>;
+export type CreditNotesOutList = z.infer<typeof CreditNotesOutListSchema>;
+export type PurchasesOut = z.infer<typeof PurchasesOutSchema>;
+export type PurchasesOutList = z.infer<typeof PurchasesOutListSchema>;
+export type VoucherOut = z.infer<typeof VoucherOutSchema>;
+export type VouchersOutList = z.infer<typeof VouchersOutListSchema>;
+export type PayoutsOut = z.infer<typeof PayoutsOutSchema>;
+export type PayoutsOutList = z.infer<typeof PayoutsOutListSchema>;
+export type JournalsOut = z.infer<typeof JournalsOutSchema>;
+export type JournalsOutList = z.infer<typeof JournalsOutListSchema>;
+export type BalanceOut = z.infer<typeof BalanceOutSchema>;
+export type ProviderOut = z.infer<typeof ProviderOutSchema>;
+export type ProviderOutList = z.infer<typeof ProviderOutListSchema>;
+export type WebhooksOut = z.infer<typeof WebhooksOutSchema>;
+export type WebhooksOutList = z.infer<typeof WebhooksOutListSchema>;
+export type DeleteOut = z.infer<typeof DeleteOutSchema>;
+export type AnnulOut = z.infer<typeof AnnulOutSchema>;
+export type FileOut = z.infer<typeof FileOutSchema>;
+
+// Response parsing helper, mirrors validateInput for API output. A write has
+// already taken effect when its response arrives, so with strict off a mismatch
+// is logged and the raw body returned instead of losing the created document
+export function parseResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  context: string,
+  strict = true
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const errors = result.error.errors
+      .map(e => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    const message = `Siigo API response mismatch (${context}): ${errors}`;
+    if (strict) {
+      throw new Error(message);
+    }
+    console.error(`${message}; returning the response as received`);
+    return data as T;
+  }
+  return result.data;
+}
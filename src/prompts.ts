@@ -0,0 +1,149 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+// Prompt templates for recurring accounting workflows in Siigo Nube. Each one walks the
+// model through the tools in the order Siigo needs them (document type, third party,
+// catalogs, then the document) with the Colombian accounting context it should assume.
+
+interface PromptTemplate extends Prompt {
+  render: (args: Record<string, string>) => string;
+}
+
+// Shared context: comprobantes de Siigo Nube and the checks every write needs
+const CONTEXT = [
+  'Contexto contable (Colombia, Siigo Nube):',
+  '- Tipos de comprobante: FV factura de venta, NC nota credito, FC factura de compra o gasto, RC recibo de caja (pagos recibidos de clientes), RP recibo de pago o egreso (pagos a proveedores), CC comprobante contable, C cotizacion.',
+  '- Cada documento se crea con el id de un tipo de comprobante activo (siigo_get_document_types), no con el codigo FV/NC/RC.',
+  '- Los terceros se identifican con su numero de documento; el NIT se envia sin digito de verificacion.',
+  '- IVA general 19%, reducido 5% o exento/excluido; las retenciones (ReteFuente, ReteIVA, ReteICA) dependen del tercero y del concepto.',
+  '- Antes de crear o modificar un documento muestra un resumen con los valores y pide confirmacion.',
+].join('\n');
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'facturar_cliente',
+    description: 'Crear y enviar a la DIAN una factura de venta (FV) para un cliente',
+    arguments: [
+      { name: 'cliente', description: 'Identificacion o nombre del cliente', required: true },
+      { name: 'detalle', description: 'Productos o servicios con cantidades y precios', required: true },
+      { name: 'fecha', description: 'Fecha de la factura (yyyy-MM-dd). Por defecto hoy' },
+      { name: 'forma_pago', description: 'Forma de pago, ej: contado, credito 30 dias, transferencia' },
+    ],
+    render: args => [
+      `Factura al cliente ${args.cliente} en Siigo Nube.`,
+      `Detalle: ${args.detalle}`,
+      `Fecha: ${args.fecha || 'hoy'}`,
+      `Forma de pago: ${args.forma_pago || 'pregunta cual es antes de crear la factura'}`,
+      '',
+      'Pasos:',
+      '1. Con siigo_get_document_types (type FV) elige el tipo de factura de venta activo, electronica si la empresa factura electronicamente.',
+      '2. Busca al cliente con siigo_list_customers (identification). Si no existe, pide sus datos y crealo con siigo_create_customer.',
+      '3. Confirma cada producto con siigo_list_products (code) y sus impuestos con siigo_get_taxes.',
+      '4. Obten el vendedor con siigo_get_users y la forma de pago con siigo_get_payment_types (document_type FV). La suma de los pagos debe ser igual al total con impuestos.',
+      '5. Muestra cliente, items, subtotal, IVA y total, y tras la confirmacion crea la factura con siigo_create_invoice y stamp_send true.',
+      '6. Si la DIAN la rechaza, consulta siigo_get_invoice_stamp_errors y explica como corregirla. Si se acepta, ofrece enviarla con siigo_send_invoice_email.',
+    ].join('\n'),
+  },
+  {
+    name: 'registrar_pago_recibido',
+    description: 'Registrar con un recibo de caja (RC) el pago de un cliente a sus facturas',
+    arguments: [
+      { name: 'cliente', description: 'Identificacion o nombre del cliente', required: true },
+      { name: 'valor', description: 'Valor recibido', required: true },
+      { name: 'facturas', description: 'Facturas que paga, ej: FV-1-457. Si se omite se buscan las pendientes' },
+      { name: 'fecha', description: 'Fecha del pago (yyyy-MM-dd). Por defecto hoy' },
+      { name: 'medio_pago', description: 'Medio de pago, ej: efectivo, transferencia, consignacion' },
+    ],
+    render: args => [
+      `Registra un pago recibido de ${args.cliente} por ${args.valor} en Siigo Nube.`,
+      `Facturas: ${args.facturas || 'busca las facturas con saldo pendiente del cliente'}`,
+      `Fecha: ${args.fecha || 'hoy'}`,
+      `Medio de pago: ${args.medio_pago || 'pregunta cual fue'}`,
+      '',
+      'Pasos:',
+      '1. Confirma al cliente con siigo_list_customers (identification).',
+      '2. Con siigo_list_invoices (customer_identification) ubica las facturas y su saldo (balance). Si el valor no cubre todo, indica como se reparte entre facturas o cuotas.',
+      '3. Con siigo_get_document_types (type RC) elige el tipo de recibo de caja y con siigo_get_payment_types (document_type RC) la forma de pago.',
+      '4. Muestra cliente, facturas abonadas, valor por factura y total, y tras la confirmacion crea el recibo con siigo_create_voucher tipo DebtPayment, un item por factura con due_prefix y due_consecutive. Un anticipo sin factura va como AdvancePayment.',
+      '5. Verifica con siigo_list_invoices que el saldo de las facturas haya bajado.',
+    ].join('\n'),
+  },
+  {
+    name: 'registrar_factura_proveedor',
+    description: 'Registrar una factura de compra o gasto (FC) de un proveedor y, si se pago, su recibo de pago (RP)',
+    arguments: [
+      { name: 'proveedor', description: 'NIT o nombre del proveedor', required: true },
+      { name: 'detalle', description: 'Productos, servicios o gastos con valores e impuestos', required: true },
+      { name: 'numero_factura', description: 'Prefijo y numero de la factura del proveedor' },
+      { name: 'fecha', description: 'Fecha de la factura (yyyy-MM-dd). Por defecto hoy' },
+      { name: 'pagada', description: 'si cuando ya se pago, para registrar tambien el egreso' },
+    ],
+    render: args => [
+      `Registra la factura${args.numero_factura ? ` ${args.numero_factura}` : ''} del proveedor ${args.proveedor} en Siigo Nube.`,
+      `Detalle: ${args.detalle}`,
+      `Fecha: ${args.fecha || 'hoy'}`,
+      '',
+      'Pasos:',
+      '1. Confirma al proveedor con siigo_list_customers (identification). Si no existe, crealo con siigo_create_customer tipo Supplier.',
+      '2. Con siigo_get_document_types (type FC) elige el tipo de factura de compra.',
+      '3. Identifica cada item: productos de inventario con siigo_list_products, gastos o activos con la cuenta contable o siigo_get_fixed_assets. Revisa impuestos con siigo_get_taxes y las retenciones que aplican al proveedor.',
+      '4. Muestra proveedor, items, IVA, retenciones y total a pagar, y tras la confirmacion crea la factura con siigo_create_purchase.',
+      args.pagada === 'si'
+        ? '5. Registra el pago con siigo_create_payment_receipt tipo DebtPayment sobre la factura creada, usando un tipo RP de siigo_get_document_types.'
+        : '5. Consulta siigo_accounts_payable para confirmar que la factura quedo como cuenta por pagar.',
+    ].join('\n'),
+  },
+  {
+    name: 'cierre_de_mes',
+    description: 'Revisar los documentos de un mes y preparar el cierre contable',
+    arguments: [
+      { name: 'anio', description: 'Ano, ej: 2024', required: true },
+      { name: 'mes', description: 'Mes (1-12)', required: true },
+    ],
+    render: args => {
+      if (!/^\d{4}$/.test(args.anio) || !/^(0?[1-9]|1[0-2])$/.test(args.mes)) {
+        throw new McpError(ErrorCode.InvalidParams, 'cierre_de_mes requires anio as yyyy and mes between 1 and 12');
+      }
+      const month = args.mes.padStart(2, '0');
+      const start = `${args.anio}-${month}-01`;
+      const end = `${args.anio}-${month}-${new Date(Date.UTC(Number(args.anio), Number(args.mes), 0)).getUTCDate()}`;
+      return [
+        `Prepara el cierre contable de ${args.anio}-${month} en Siigo Nube (del ${start} al ${end}).`,
+        '',
+        'Pasos:',
+        `1. Ventas: lista las facturas del periodo con siigo_list_invoices (date_start ${start}, date_end ${end}, all_pages true). Reporta las que no fueron aceptadas por la DIAN y consulta siigo_get_invoice_stamp_errors para cada una.`,
+        `2. Notas credito: siigo_list_credit_notes (created_start ${start}, created_end ${end}) y verifica que cada una referencie su factura.`,
+        `3. Compras y gastos: siigo_list_purchases (date_start ${start}, date_end ${end}) y siigo_accounts_payable para las cuentas por pagar vencidas.`,
+        `4. Recaudos y pagos: siigo_list_vouchers (RC) y siigo_list_payment_receipts (RP) del periodo; senala facturas de venta con saldo y anticipos sin cruzar.`,
+        `5. Comprobantes contables: siigo_list_journals (created_start ${start}, created_end ${end}).`,
+        `6. Balance: siigo_test_balance_report (year ${args.anio}, month_start ${Number(args.mes)}, month_end ${Number(args.mes)}) y siigo_test_balance_by_thirdparty para revisar saldos de clientes y proveedores.`,
+        '7. Resume ventas, IVA generado, compras, IVA descontable y retenciones del mes, y lista los ajustes sugeridos. Solo crea comprobantes CC con siigo_create_journal si se confirman.',
+      ].join('\n');
+    },
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ render: _render, ...prompt }) => prompt);
+}
+
+/**
+ * Messages of a prompt with its arguments filled in
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = PROMPTS.find(template => template.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = (prompt.arguments ?? []).filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text: `${prompt.render(args)}\n\n${CONTEXT}` },
+    }],
+  };
+}
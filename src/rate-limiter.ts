@@ -0,0 +1,93 @@
+// Token-bucket scheduler for Siigo's per-company request budget.
+// Siigo allows 100 requests per minute per company (10 for the sandbox company).
+
+export type RequestPriority = 'read' | 'write';
+
+export interface RateLimitStatus {
+  limit: number;
+  interval_ms: number;
+  remaining: number;
+  queued_reads: number;
+  queued_writes: number;
+  next_token_in_ms: number;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+  private writeQueue: Array<() => void> = [];
+  private readQueue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly limit: number,
+    private readonly intervalMs: number = 60000
+  ) {
+    this.tokens = limit;
+    this.lastRefill = Date.now();
+    this.refillPerMs = limit / intervalMs;
+  }
+
+  /**
+   * Wait for a request slot. Queued writes are served before queued reads,
+   * and each queue is served in arrival order.
+   */
+  acquire(priority: RequestPriority): Promise<void> {
+    return new Promise(resolve => {
+      (priority === 'write' ? this.writeQueue : this.readQueue).push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Empty the bucket after the server reports requests_limit, so queued
+   * requests wait for fresh tokens instead of hitting the limit again
+   */
+  exhaust(): void {
+    this.refill();
+    this.tokens = 0;
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+    return {
+      limit: this.limit,
+      interval_ms: this.intervalMs,
+      remaining: Math.floor(this.tokens),
+      queued_reads: this.readQueue.length,
+      queued_writes: this.writeQueue.length,
+      next_token_in_ms: this.msUntilNextToken(),
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private msUntilNextToken(): number {
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.tokens >= 1) {
+      const next = this.writeQueue.shift() ?? this.readQueue.shift();
+      if (!next) {
+        return;
+      }
+      this.tokens -= 1;
+      next();
+    }
+
+    if (!this.timer && (this.writeQueue.length > 0 || this.readQueue.length > 0)) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, this.msUntilNextToken());
+    }
+  }
+}
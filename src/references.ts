@@ -0,0 +1,295 @@
+import { findCity } from './cities.js';
+import { SiigoClient } from './siigo-client.js';
+
+// Human references accepted in place of Siigo ids. A tool can take a seller by email or
+// name, a document type by name or code, a payment method or tax by name, a product by
+// code, a customer by identification, an inventory group by name and a customer's city by
+// its name; resolveReferences looks them up in the catalogs and list endpoints and replaces
+// them with the ids before the arguments are validated, so the model does not have to
+// chain the lookups itself.
+
+type DocumentKind = 'FV' | 'FC' | 'NC' | 'RC' | 'CC' | 'RP' | 'C';
+
+interface ToolReferences {
+  // document (name or code of a document type of this kind) -> document_id
+  document?: DocumentKind;
+  // seller (email, username, name or identification of a user) -> seller_id
+  seller?: boolean;
+  // payments[].name -> payments[].id, from the payment types of this document type
+  payments?: 'FV' | 'NC' | 'RC' | 'all';
+  // taxes[].name, items[].taxes[].name and retentions[].name -> id
+  taxes?: boolean;
+  // code -> id (product GUID)
+  product?: boolean;
+  // identification -> id (customer GUID)
+  customer?: boolean;
+  // account_group given as the group name -> its id
+  account_group?: boolean;
+  // address.city.city_name (and state_name) -> DIVIPOLA codes
+  city?: boolean;
+}
+
+const TOOL_REFERENCES: Record<string, ToolReferences> = {
+  siigo_get_product: { product: true },
+  siigo_create_product: { account_group: true, taxes: true },
+  siigo_update_product: { product: true, account_group: true, taxes: true },
+  siigo_delete_product: { product: true },
+  siigo_get_customer: { customer: true },
+  siigo_create_customer: { city: true },
+  siigo_update_customer: { customer: true, city: true },
+  siigo_create_invoice: { document: 'FV', seller: true, payments: 'FV', taxes: true },
+  siigo_update_invoice: { document: 'FV', seller: true, payments: 'FV', taxes: true },
+  siigo_create_quotation: { document: 'C', seller: true, taxes: true },
+  siigo_update_quotation: { document: 'C', seller: true, taxes: true },
+  siigo_create_credit_note: { document: 'NC', seller: true, payments: 'NC', taxes: true },
+  siigo_create_purchase: { document: 'FC', payments: 'all', taxes: true },
+  siigo_update_purchase: { document: 'FC', payments: 'all', taxes: true },
+  siigo_create_voucher: { document: 'RC', payments: 'RC' },
+  siigo_create_payment_receipt: { document: 'RP', payments: 'all' },
+  siigo_create_journal: { document: 'CC' },
+  siigo_calculate_taxes: { taxes: true },
+};
+
+export interface ReferenceCandidate {
+  id: number | string;
+  label: string;
+}
+
+/**
+ * A reference that matched no record, or more than one. candidates lists the matches,
+ * or the available values when nothing matched
+ */
+export class UnresolvedReferenceError extends Error {
+  constructor(
+    readonly field: string,
+    readonly value: string,
+    readonly reason: 'not_found' | 'ambiguous',
+    readonly candidates: ReferenceCandidate[],
+    hint?: string
+  ) {
+    super((reason === 'ambiguous'
+      ? `${field} "${value}" matches ${candidates.length} records. Send a more specific value or the id of one of the candidates`
+      : `${field} "${value}" does not match any record${candidates.length > 0 ? '. Use one of the candidates' : ''}`)
+      + (hint ? `. ${hint}` : ''));
+    this.name = 'UnresolvedReferenceError';
+  }
+}
+
+interface Option extends ReferenceCandidate {
+  keys: Array<string | null | undefined>;
+  active?: boolean | null;
+}
+
+// Most candidates shown when a reference matches nothing
+const MAX_CANDIDATES = 20;
+
+/**
+ * Lowercase without accents and with single spaces, for comparing names
+ */
+export function normalizeText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+export function toolReferences(name: string): ToolReferences {
+  return TOOL_REFERENCES[name] ?? {};
+}
+
+/**
+ * Arguments with every human reference replaced by the id it names. Arguments that
+ * already carry ids are returned unchanged, without calling Siigo
+ */
+export async function resolveReferences(client: SiigoClient, name: string, args: any): Promise<any> {
+  const references = TOOL_REFERENCES[name];
+  if (!references) {
+    return args;
+  }
+  const resolved = { ...args };
+
+  if (references.document && resolved.document !== undefined) {
+    exclusive(resolved, 'document', 'document_id');
+    const types = await client.getDocumentTypes(references.document);
+    resolved.document_id = pick('document', resolved.document, types.map(type => ({
+      id: type.id,
+      label: [type.code, type.name].filter(Boolean).join(' - '),
+      keys: [type.name, type.code, type.description],
+      active: type.active,
+    })));
+    delete resolved.document;
+  }
+
+  if (references.seller && resolved.seller !== undefined) {
+    exclusive(resolved, 'seller', 'seller_id');
+    const users = await client.getUsers();
+    resolved.seller_id = pick('seller', resolved.seller, users.map(user => ({
+      id: user.id,
+      label: `${user.first_name} ${user.last_name} <${user.email}>`,
+      keys: [user.email, user.username, `${user.first_name} ${user.last_name}`, user.identification],
+      active: user.active,
+    })));
+    delete resolved.seller;
+  }
+
+  if (references.payments && Array.isArray(resolved.payments) && resolved.payments.some(hasName)) {
+    const paymentTypes = await client.getPaymentTypes(references.payments === 'all' ? undefined : references.payments);
+    const options = paymentTypes.map(type => ({
+      id: type.id,
+      label: `${type.name} (${type.type})`,
+      keys: [type.name],
+      active: type.active,
+    }));
+    resolved.payments = resolved.payments.map((payment: any, index: number) =>
+      byName(payment, `payments[${index}]`, options));
+  }
+
+  if (references.taxes && hasTaxNames(resolved)) {
+    const taxes = await client.getTaxes();
+    const options = taxes.map(tax => ({
+      id: tax.id,
+      label: `${tax.name} (${tax.type})`,
+      keys: [tax.name, `${tax.type} ${tax.percentage}%`],
+      active: tax.active,
+    }));
+    const resolveTaxes = (list: any, field: string) => Array.isArray(list)
+      ? list.map((tax: any, index: number) => byName(tax, `${field}[${index}]`, options))
+      : list;
+    resolved.taxes = resolveTaxes(resolved.taxes, 'taxes');
+    resolved.retentions = resolveTaxes(resolved.retentions, 'retentions');
+    if (Array.isArray(resolved.items)) {
+      resolved.items = resolved.items.map((item: any, index: number) =>
+        item?.taxes ? { ...item, taxes: resolveTaxes(item.taxes, `items[${index}].taxes`) } : item);
+    }
+    for (const field of ['taxes', 'retentions']) {
+      if (resolved[field] === undefined) {
+        delete resolved[field];
+      }
+    }
+  }
+
+  if (references.account_group && typeof resolved.account_group === 'string') {
+    const groups = await client.getAccountGroups();
+    resolved.account_group = pick('account_group', resolved.account_group, groups.map(group => ({
+      id: group.id,
+      label: group.name,
+      keys: [group.name],
+      active: group.active,
+    })));
+  }
+
+  if (references.city && resolved.address?.city?.city_name !== undefined) {
+    const { city_name, state_name, ...codes } = resolved.address.city;
+    if (Object.keys(codes).length > 0) {
+      throw new Error('Validation error: address.city: send either city_name or country_code, state_code and city_code');
+    }
+    if (typeof city_name !== 'string' || !city_name.trim()) {
+      throw new Error('Validation error: address.city.city_name: Expected a non-empty string');
+    }
+    const { city, matches } = findCity(city_name, state_name);
+    if (!city) {
+      // Several exact matches are the same name in several departments; otherwise the
+      // matches are prefixes or typos of the name
+      const ambiguous = matches.length > 1 && matches.every(match => match.score === 1);
+      throw new UnresolvedReferenceError('address.city.city_name', city_name, ambiguous ? 'ambiguous' : 'not_found',
+        matches.map(match => ({ id: match.city_code, label: `${match.city_name} (${match.state_name})` })),
+        ambiguous
+          ? 'Add state_name, or send the country_code, state_code and city_code of one of the candidates'
+          : 'Send the exact name of a municipality, or its country_code, state_code and city_code (DANE codes); siigo_search_city finds them');
+    }
+    resolved.address = {
+      ...resolved.address,
+      city: { country_code: city.country_code, state_code: city.state_code, city_code: city.city_code },
+    };
+  }
+
+  // On updates code and identification are also editable fields: they identify the record
+  // only when id is omitted, and stay in the update
+  const updating = name.startsWith('siigo_update_');
+  if (references.product && resolved.code !== undefined && (!updating || resolved.id === undefined)) {
+    exclusive(resolved, 'code', 'id');
+    resolved.id = await productId(client, resolved.code);
+    if (!updating) {
+      delete resolved.code;
+    }
+  }
+
+  if (references.customer && resolved.identification !== undefined && (!updating || resolved.id === undefined)) {
+    exclusive(resolved, 'identification', 'id');
+    resolved.id = await customerId(client, resolved.identification);
+    if (!updating) {
+      delete resolved.identification;
+    }
+  }
+
+  return resolved;
+}
+
+// The reference and its id cannot both be sent
+function exclusive(args: any, reference: string, idField: string): void {
+  if (args[idField] !== undefined) {
+    throw new Error(`Validation error: ${reference}: send either ${reference} or ${idField}, not both`);
+  }
+}
+
+function hasName(entry: any): boolean {
+  return typeof entry?.name === 'string';
+}
+
+function hasTaxNames(args: any): boolean {
+  const lists = [args.taxes, args.retentions, ...(Array.isArray(args.items) ? args.items.map((item: any) => item?.taxes) : [])];
+  return lists.some(list => Array.isArray(list) && list.some(hasName));
+}
+
+// Replace the name of a tax or payment entry with its id
+function byName(entry: any, field: string, options: Option[]): any {
+  if (!hasName(entry)) {
+    return entry;
+  }
+  const { name, ...rest } = entry;
+  exclusive(entry, `${field}.name`, 'id');
+  return { id: pick(`${field}.name`, name, options), ...rest };
+}
+
+// Only an exact match resolves. Partial matches are returned as candidates instead of
+// being guessed, as for cities
+function pick(field: string, value: unknown, options: Option[]): number | string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Validation error: ${field}: Expected a non-empty string`);
+  }
+  const wanted = normalizeText(value);
+  const keysOf = (option: Option) => option.keys.filter((key): key is string => !!key).map(normalizeText);
+  const exact = options.filter(option => keysOf(option).includes(wanted));
+  if (exact.length === 1) {
+    return exact[0].id;
+  }
+  if (exact.length > 1) {
+    throw new UnresolvedReferenceError(field, value, 'ambiguous', exact.map(candidate));
+  }
+  const partial = options.filter(option => keysOf(option).some(key => key.includes(wanted)));
+  const available = partial.length > 0 ? partial : options.filter(option => option.active !== false);
+  throw new UnresolvedReferenceError(field, value, 'not_found', available.slice(0, MAX_CANDIDATES).map(candidate));
+}
+
+function candidate({ id, label }: Option): ReferenceCandidate {
+  return { id, label };
+}
+
+async function productId(client: SiigoClient, code: string): Promise<string> {
+  const products = (await client.listProducts({ code })).results.filter(product => product.code === code && product.id);
+  if (products.length === 0) {
+    throw new UnresolvedReferenceError('code', code, 'not_found', []);
+  }
+  return products[0].id!;
+}
+
+// A customer with branch offices has one record per branch
+async function customerId(client: SiigoClient, identification: string): Promise<string> {
+  const customers = (await client.listCustomers({ identification })).results
+    .filter(customer => customer.identification === identification && customer.id);
+  if (customers.length === 1) {
+    return customers[0].id!;
+  }
+  throw new UnresolvedReferenceError('identification', identification, customers.length === 0 ? 'not_found' : 'ambiguous',
+    customers.map(customer => ({
+      id: customer.id!,
+      label: `${customer.name.join(' ')} (sucursal ${customer.branch_office ?? 0})`,
+    })));
+}
@@ -0,0 +1,237 @@
+import {
+  ErrorCode,
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  McpError,
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { CompanyRegistry } from './companies.js';
+import { PaginatedList } from './models.js';
+import { SiigoClient } from './siigo-client.js';
+
+// MCP resources for Siigo data. Catalogs are static resources and documents are resource
+// templates, so a client can attach them as context without spending a tool call.
+// URIs read from the default company; append ?company=<profile> to read another one.
+
+const SCHEME = 'siigo://';
+const MIME_TYPE = 'application/json';
+const LIST_PAGE_SIZE = 100;
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DOCUMENT_TYPE_CODES = ['FV', 'NC', 'C', 'FC', 'RC', 'RP', 'CC'] as const;
+const PAYMENT_TYPE_CODES = ['FV', 'NC', 'RC'] as const;
+
+interface CatalogResource {
+  path: string;
+  name: string;
+  description: string;
+  read: (client: SiigoClient) => Promise<unknown>;
+}
+
+const CATALOG_RESOURCES: CatalogResource[] = [
+  { path: 'catalogs/taxes', name: 'Impuestos', description: 'Impuestos configurados: IVA, impoconsumo y retenciones', read: client => client.getTaxes() },
+  { path: 'catalogs/users', name: 'Usuarios', description: 'Usuarios de la empresa, usados como vendedores', read: client => client.getUsers() },
+  { path: 'catalogs/warehouses', name: 'Bodegas', description: 'Bodegas de inventario', read: client => client.getWarehouses() },
+  { path: 'catalogs/cost-centers', name: 'Centros de costo', description: 'Centros de costo', read: client => client.getCostCenters() },
+  { path: 'catalogs/price-lists', name: 'Listas de precio', description: 'Listas de precio', read: client => client.getPriceLists() },
+  { path: 'catalogs/fixed-assets', name: 'Activos fijos', description: 'Activos fijos', read: client => client.getFixedAssets() },
+  { path: 'catalogs/account-groups', name: 'Grupos de inventario', description: 'Clasificaciones de inventario de los productos', read: client => client.getAccountGroups() },
+  ...DOCUMENT_TYPE_CODES.map(type => ({
+    path: `catalogs/document-types/${type}`,
+    name: `Tipos de documento ${type}`,
+    description: `Tipos de comprobante ${type} con su numeracion y configuracion`,
+    read: (client: SiigoClient) => client.getDocumentTypes(type),
+  })),
+  ...PAYMENT_TYPE_CODES.map(type => ({
+    path: `catalogs/payment-types/${type}`,
+    name: `Formas de pago ${type}`,
+    description: `Formas de pago disponibles en documentos ${type}`,
+    read: (client: SiigoClient) => client.getPaymentTypes(type),
+  })),
+];
+
+interface DocumentTemplate {
+  resource: string;
+  parameter: string;
+  name: string;
+  description: string;
+  read: (client: SiigoClient, key: string) => Promise<unknown>;
+}
+
+const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+  {
+    resource: 'invoices',
+    parameter: 'id',
+    name: 'Factura de venta',
+    description: 'Factura de venta por ID (GUID) o por nombre, ej: FV-1-457',
+    read: async (client, key) => GUID.test(key)
+      ? client.getInvoice(key)
+      : (await client.listInvoices({ name: key })).results.find(invoice => invoice.name === key),
+  },
+  {
+    resource: 'customers',
+    parameter: 'identification',
+    name: 'Cliente o tercero',
+    description: 'Cliente, proveedor u otro tercero por numero de identificacion',
+    read: async (client, key) => (await client.listCustomers({ identification: key })).results[0],
+  },
+  {
+    resource: 'products',
+    parameter: 'code',
+    name: 'Producto',
+    description: 'Producto o servicio por codigo',
+    read: async (client, key) => (await client.listProducts({ code: key })).results.find(product => product.code === key),
+  },
+  { resource: 'quotations', parameter: 'id', name: 'Cotizacion', description: 'Cotizacion por ID (GUID)', read: (client, key) => client.getQuotation(key) },
+  { resource: 'credit-notes', parameter: 'id', name: 'Nota credito', description: 'Nota credito por ID (GUID)', read: (client, key) => client.getCreditNote(key) },
+  { resource: 'purchases', parameter: 'id', name: 'Factura de compra', description: 'Factura de compra o gasto por ID (GUID)', read: (client, key) => client.getPurchase(key) },
+  { resource: 'vouchers', parameter: 'id', name: 'Recibo de caja', description: 'Recibo de caja por ID (GUID)', read: (client, key) => client.getVoucher(key) },
+  { resource: 'payment-receipts', parameter: 'id', name: 'Recibo de pago', description: 'Recibo de pago o egreso por ID (GUID)', read: (client, key) => client.getPaymentReceipt(key) },
+];
+
+// Documents listed after the catalogs, one Siigo page per resources/list call
+interface ListedDocuments {
+  resource: string;
+  fetch: (client: SiigoClient, page: number) => Promise<{ results: Resource[]; hasMore: boolean }>;
+}
+
+const LISTED_DOCUMENTS: ListedDocuments[] = [
+  {
+    resource: 'customers',
+    fetch: async (client, page) => pageOf(await client.listCustomers({ page, page_size: LIST_PAGE_SIZE }), customer => ({
+      uri: `${SCHEME}customers/${encodeURIComponent(customer.identification)}`,
+      name: customer.name.join(' '),
+      mimeType: MIME_TYPE,
+    })),
+  },
+  {
+    resource: 'products',
+    fetch: async (client, page) => pageOf(await client.listProducts({ page, page_size: LIST_PAGE_SIZE }), product => ({
+      uri: `${SCHEME}products/${encodeURIComponent(product.code)}`,
+      name: product.name,
+      mimeType: MIME_TYPE,
+    })),
+  },
+  {
+    resource: 'invoices',
+    fetch: async (client, page) => pageOf(await client.listInvoices({ page, page_size: LIST_PAGE_SIZE }), invoice => ({
+      uri: `${SCHEME}invoices/${invoice.id}`,
+      name: invoice.name ?? invoice.id ?? '',
+      mimeType: MIME_TYPE,
+    })),
+  },
+];
+
+interface ParsedUri {
+  company?: string;
+  path: string;
+  resource: string;
+  key: string;
+}
+
+export class SiigoResources {
+  private subscriptions = new Set<string>();
+
+  constructor(private readonly companies: () => CompanyRegistry) {}
+
+  /**
+   * The catalogs first, then one page of customers, products and invoices per cursor
+   */
+  async list(cursor?: string): Promise<ListResourcesResult> {
+    if (!cursor) {
+      return {
+        resources: CATALOG_RESOURCES.map(catalog => ({
+          uri: `${SCHEME}${catalog.path}`,
+          name: catalog.name,
+          description: catalog.description,
+          mimeType: MIME_TYPE,
+        })),
+        nextCursor: `${LISTED_DOCUMENTS[0].resource}:1`,
+      };
+    }
+
+    const [resource, pageText] = cursor.split(':');
+    const index = LISTED_DOCUMENTS.findIndex(listed => listed.resource === resource);
+    const page = Number(pageText);
+    if (index === -1 || !Number.isInteger(page) || page < 1) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resources cursor: ${cursor}`);
+    }
+
+    const { results, hasMore } = await LISTED_DOCUMENTS[index].fetch(this.companies().getClient(), page);
+    const following = LISTED_DOCUMENTS[index + 1];
+    const nextCursor = hasMore ? `${resource}:${page + 1}` : following ? `${following.resource}:1` : undefined;
+    return { resources: results, nextCursor };
+  }
+
+  templates(): ListResourceTemplatesResult {
+    return {
+      resourceTemplates: DOCUMENT_TEMPLATES.map(template => ({
+        uriTemplate: `${SCHEME}${template.resource}/{${template.parameter}}`,
+        name: template.name,
+        description: template.description,
+        mimeType: MIME_TYPE,
+      })),
+    };
+  }
+
+  async read(uri: string): Promise<ReadResourceResult> {
+    const parsed = this.parse(uri);
+    const client = this.companies().getClient(parsed.company);
+
+    const catalog = CATALOG_RESOURCES.find(resource => resource.path === parsed.path);
+    const data = catalog
+      ? await catalog.read(client)
+      : await DOCUMENT_TEMPLATES.find(template => template.resource === parsed.resource)!.read(client, parsed.key);
+    if (data === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+    return { contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+  }
+
+  subscribe(uri: string): void {
+    this.companies().resolve(this.parse(uri).company);
+    this.subscriptions.add(uri);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Subscribed URIs that show the product with the given code in the given company
+   */
+  subscribedProductUris(company: string, code: string): string[] {
+    return [...this.subscriptions].filter(uri => {
+      const parsed = this.parse(uri);
+      return parsed.resource === 'products' &&
+        parsed.key === code &&
+        this.companies().resolve(parsed.company) === company;
+    });
+  }
+
+  private parse(uri: string): ParsedUri {
+    if (!uri.startsWith(SCHEME)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    const [path, query] = uri.slice(SCHEME.length).split('?');
+    const company = new URLSearchParams(query ?? '').get('company') ?? undefined;
+
+    if (CATALOG_RESOURCES.some(catalog => catalog.path === path)) {
+      return { company, path, resource: 'catalogs', key: path };
+    }
+    const segments = path.split('/');
+    if (segments.length === 2 && segments[1] && DOCUMENT_TEMPLATES.some(template => template.resource === segments[0])) {
+      return { company, path, resource: segments[0], key: decodeURIComponent(segments[1]) };
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+}
+
+function pageOf<T>(
+  list: PaginatedList<T>,
+  toResource: (item: T) => Resource
+): { results: Resource[]; hasMore: boolean } {
+  const { page, page_size, total_results } = list.pagination;
+  return { results: list.results.map(toResource), hasMore: page * page_size < total_results };
+}
@@ -1,4 +1,91 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosAdapter, AxiosInstance, AxiosError } from 'axios';
+import { z } from 'zod';
+import {
+  parseResponse,
+  PaginatedList,
+  FetchAllResult,
+  TokenOut,
+  TokenOutSchema,
+  Tax,
+  TaxSchema,
+  AccountGroup,
+  AccountGroupSchema,
+  User,
+  UserSchema,
+  DocumentType,
+  DocumentTypeSchema,
+  PaymentTypes,
+  PaymentTypesSchema,
+  Warehouse,
+  WarehouseSchema,
+  CostCenter,
+  CostCenterSchema,
+  PriceList,
+  PriceListSchema,
+  FixedAsset,
+  FixedAssetSchema,
+  ProductOut,
+  ProductOutSchema,
+  ProductsOutList,
+  ProductsOutListSchema,
+  CustomerOut,
+  CustomerOutSchema,
+  CustomersOutList,
+  CustomersOutListSchema,
+  InvoiceOut,
+  InvoiceOutSchema,
+  InvoicesOutList,
+  InvoicesOutListSchema,
+  InvoiceBatchOut,
+  InvoiceBatchOutSchema,
+  StampErrorsOut,
+  StampErrorsOutSchema,
+  MailOut,
+  MailOutSchema,
+  QuotationOut,
+  QuotationOutSchema,
+  QuotationsOutList,
+  QuotationsOutListSchema,
+  CreditNoteOut,
+  CreditNoteOutSchema,
+  CreditNotesOutList,
+  CreditNotesOutListSchema,
+  PurchasesOut,
+  PurchasesOutSchema,
+  PurchasesOutList,
+  PurchasesOutListSchema,
+  VoucherOut,
+  VoucherOutSchema,
+  VouchersOutList,
+  VouchersOutListSchema,
+  PayoutsOut,
+  PayoutsOutSchema,
+  PayoutsOutList,
+  PayoutsOutListSchema,
+  JournalsOut,
+  JournalsOutSchema,
+  JournalsOutList,
+  JournalsOutListSchema,
+  BalanceOut,
+  BalanceOutSchema,
+  ProviderOutList,
+  ProviderOutListSchema,
+  WebhooksOut,
+  WebhooksOutSchema,
+  WebhooksOutList,
+  WebhooksOutListSchema,
+  DeleteOut,
+  DeleteOutSchema,
+  AnnulOut,
+  AnnulOutSchema,
+  FileOut,
+  FileOutSchema,
+  ProductType,
+} from './models.js';
+import { Catalog, CatalogCache } from './catalog-cache.js';
+import { VoucherType } from './generated/apib.js';
+import { RateLimiter, RateLimitStatus } from './rate-limiter.js';
+import { SiigoApiError, SiigoErrorDetail } from './errors.js';
 
 const BASE_URL = 'https://api.siigo.com';
 const PARTNER_ID = 'MCPSiigoServer';
@@ -8,11 +95,66 @@ const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
 const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
 
-interface TokenResponse {
-  access_token: string;
-  expires_in: number;
-  token_type: string;
-  scope: string;
+// Network errors raised before the request reached Siigo
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// POST endpoints without side effects, safe to replay
+const SAFE_POST_ENDPOINTS = ['/v1/test-balance-report', '/v1/test-balance-report-by-thirdparty'];
+
+// Margin for clock skew when matching documents created by a failed attempt
+const LOOKUP_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Rate limit configuration (Siigo allows 100 requests per minute per company)
+const DEFAULT_REQUESTS_PER_MINUTE = 100;
+
+// Pagination configuration
+const MAX_PAGE_SIZE = 100;
+
+interface PageParams {
+  page?: number;
+  page_size?: number;
+}
+
+export interface SiigoClientOptions {
+  requestsPerMinute?: number;
+  baseUrl?: string;
+  adapter?: AxiosAdapter;
+  onHttpCall?: (call: HttpCallRecord) => void;
+}
+
+// One HTTP exchange with Siigo, reported to onHttpCall for auditing
+export interface HttpCallRecord {
+  method: string;
+  endpoint: string;
+  params?: Record<string, unknown>;
+  status: number | null;
+  error_codes: string[];
+  network_error?: string;
+  idempotency_key?: string;
+  duration_ms: number;
+}
+
+// How a create request ended, reported back to the tool result
+export type WriteOutcome = 'created' | 'retried' | 'retried_after_lookup' | 'found_existing';
+
+export interface WriteReport {
+  outcome: WriteOutcome;
+  attempts: number;
+}
+
+// Item fields compared when looking up a document created by a failed attempt
+interface ItemLike {
+  code?: string | null;
+  quantity?: number | null;
+  price?: number | null;
+}
+
+export type OnWriteOutcome = (report: WriteReport) => void;
+
+interface RequestOptions<T> {
+  // Finds the document a failed unkeyed POST may have created
+  lookup?: (since: Date) => Promise<T | null>;
+  onOutcome?: OnWriteOutcome;
 }
 
 interface SiigoError {
@@ -30,26 +172,79 @@ interface SiigoRateLimitError {
   Message: string;
 }
 
+// Adapters see the raw response text; axios only parses JSON after they return
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
 export class SiigoClient {
   private client: AxiosInstance;
-  private accessToken: string | null = null;
+  private token: TokenOut | null = null;
   private tokenExpiry: Date | null = null;
+  private pendingAuth: Promise<TokenOut> | null = null;
   private username: string;
   private accessKey: string;
+  private rateLimiter: RateLimiter;
+  private catalogCache = new CatalogCache();
+  private baseUrl: string;
 
-  constructor(username: string, accessKey: string) {
+  constructor(username: string, accessKey: string, options: SiigoClientOptions = {}) {
     this.username = username;
     this.accessKey = accessKey;
+    this.rateLimiter = new RateLimiter(options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE);
+    this.baseUrl = options.baseUrl ?? BASE_URL;
     this.client = axios.create({
-      baseURL: BASE_URL,
+      baseURL: this.baseUrl,
       headers: {
         'Content-Type': 'application/json',
         'Partner-Id': PARTNER_ID,
       },
       timeout: 30000, // 30 second timeout
+      adapter: options.onHttpCall ? this.reportingAdapter(options.onHttpCall, options.adapter) : options.adapter,
     });
   }
 
+  /**
+   * Adapter that reports every exchange, including retries and /auth, after it completes
+   */
+  private reportingAdapter(onHttpCall: (call: HttpCallRecord) => void, adapter?: AxiosAdapter): AxiosAdapter {
+    const send = axios.getAdapter(adapter ?? axios.defaults.adapter);
+    return async config => {
+      const startedAt = Date.now();
+      const report = (status: number | null, errorCodes: string[], networkError?: string) => onHttpCall({
+        method: (config.method ?? 'get').toUpperCase(),
+        endpoint: config.url ?? '',
+        params: config.params,
+        status,
+        error_codes: errorCodes,
+        network_error: networkError,
+        idempotency_key: config.headers?.get('Idempotency-Key')?.toString(),
+        duration_ms: Date.now() - startedAt,
+      });
+
+      try {
+        const response = await send(config);
+        report(response.status, []);
+        return response;
+      } catch (error) {
+        const axiosError = error as AxiosError<SiigoError | SiigoRateLimitError>;
+        report(
+          axiosError.response?.status ?? null,
+          this.extractErrors(axiosError, parseBody(axiosError.response?.data)).map(e => e.code),
+          axiosError.response ? undefined : axiosError.code ?? axiosError.message
+        );
+        throw error;
+      }
+    };
+  }
+
   /**
    * Sleep for a specified number of milliseconds
    */
@@ -91,7 +286,7 @@ export class SiigoClient {
     const status = error.response?.status;
 
     if (!data) {
-      return `HTTP ${status}: ${error.message}`;
+      return status ? `HTTP ${status}: ${error.message}` : `Network error${error.code ? ` (${error.code})` : ''}: ${error.message}`;
     }
 
     // Handle rate limit error format
@@ -108,34 +303,91 @@ export class SiigoClient {
     return JSON.stringify(data);
   }
 
-  private async authenticate(): Promise<string> {
-    if (this.accessToken && this.tokenExpiry && new Date() < this.tokenExpiry) {
-      return this.accessToken;
+  /**
+   * Return the cached token, sharing a single in-flight /auth call between concurrent callers
+   */
+  private authenticate(): Promise<TokenOut> {
+    if (this.token && this.tokenExpiry && new Date() < this.tokenExpiry) {
+      return Promise.resolve(this.token);
+    }
+
+    if (!this.pendingAuth) {
+      this.pendingAuth = this.fetchToken().finally(() => {
+        this.pendingAuth = null;
+      });
     }
+    return this.pendingAuth;
+  }
 
-    const response = await this.client.post<TokenResponse>('/auth', {
+  private async fetchToken(): Promise<TokenOut> {
+    await this.rateLimiter.acquire('write');
+    const response = await this.client.post('/auth', {
       username: this.username,
       access_key: this.accessKey,
     });
+    const token = parseResponse(TokenOutSchema, response.data, 'POST /auth');
+
+    this.token = token;
+    this.tokenExpiry = new Date(Date.now() + (token.expires_in * 1000) - 60000);
+    return token;
+  }
+
+  /**
+   * Drop the cached token, unless another request already replaced it
+   */
+  private invalidateToken(accessToken: string): void {
+    if (this.token?.access_token === accessToken) {
+      this.token = null;
+      this.tokenExpiry = null;
+    }
+  }
 
-    this.accessToken = response.data.access_token;
-    this.tokenExpiry = new Date(Date.now() + (response.data.expires_in * 1000) - 60000);
-    return this.accessToken;
+  /**
+   * Decide how a failed attempt may be retried. Network errors that never reached Siigo,
+   * 429 and 401 responses are always safe; otherwise a POST is only replayed blindly when it
+   * carries an Idempotency-Key or has no side effects, and the rest need a lookup first.
+   */
+  private classifyRetry(
+    error: AxiosError,
+    method: string,
+    endpoint: string,
+    headers?: Record<string, string>
+  ): 'retry' | 'lookup' | 'fail' {
+    if (!this.isRetryableError(error)) {
+      return 'fail';
+    }
+    if (!error.response && UNSENT_ERROR_CODES.includes(error.code ?? '')) {
+      return 'retry';
+    }
+    if (error.response?.status === 429 || method !== 'POST') {
+      return 'retry';
+    }
+    if (headers?.['Idempotency-Key'] || SAFE_POST_ENDPOINTS.includes(endpoint)) {
+      return 'retry';
+    }
+    return 'lookup';
   }
 
   private async request<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
     method: 'GET' | 'POST' | 'PUT' | 'DELETE',
     endpoint: string,
     data?: any,
     params?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    options: RequestOptions<T> = {}
   ): Promise<T> {
-    const token = await this.authenticate();
+    let token = (await this.authenticate()).access_token;
+    let reauthenticated = false;
+    let lookedUp = false;
     let lastError: Error | null = null;
+    const startedAt = new Date();
+    const report = (outcome: WriteOutcome, attempts: number) => options.onOutcome?.({ outcome, attempts });
 
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      await this.rateLimiter.acquire(method === 'GET' ? 'read' : 'write');
       try {
-        const response = await this.client.request<T>({
+        const response = await this.client.request({
           method,
           url: endpoint,
           data,
@@ -145,34 +397,63 @@ export class SiigoClient {
             ...headers,
           },
         });
-        return response.data;
+        const result = parseResponse(schema, response.data, `${method} ${endpoint}`, method === 'GET');
+        report(lookedUp ? 'retried_after_lookup' : attempt > 0 ? 'retried' : 'created', attempt + 1);
+        return result;
       } catch (error) {
         if (axios.isAxiosError(error)) {
           const axiosError = error as AxiosError<SiigoError | SiigoRateLimitError>;
 
-          // Check if we should retry
-          if (attempt < MAX_RETRIES && this.isRetryableError(axiosError)) {
+          // Token revoked before its expiry: refresh once and replay without spending a retry
+          if (axiosError.response?.status === 401 && !reauthenticated) {
+            this.invalidateToken(token);
+            token = (await this.authenticate()).access_token;
+            reauthenticated = true;
+            attempt--;
+            continue;
+          }
+
+          // Another client may be spending the same company budget
+          if (axiosError.response?.status === 429) {
+            this.rateLimiter.exhaust();
+          }
+
+          const retry = attempt < MAX_RETRIES
+            ? this.classifyRetry(axiosError, method, endpoint, headers)
+            : 'fail';
+
+          if (retry !== 'fail') {
             const retryAfter = axiosError.response?.headers?.['retry-after'];
             const delay = this.getRetryDelay(attempt, retryAfter);
 
             // Log retry attempt (useful for debugging)
             console.error(
               `Siigo API request failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}), ` +
-              `retrying in ${delay}ms: ${this.formatErrorMessage(axiosError)}`
+              `${retry === 'lookup' ? 'checking whether it was created' : 'retrying'} in ${delay}ms: ` +
+              this.formatErrorMessage(axiosError)
             );
 
             await this.sleep(delay);
+
+            if (retry === 'lookup') {
+              if (!options.lookup) {
+                lastError = this.toApiError(axiosError, method, endpoint,
+                  'Not retried: the request may have been processed by Siigo. Verify before sending it again.');
+                break;
+              }
+
+              const existing = await options.lookup(startedAt);
+              if (existing) {
+                report('found_existing', attempt + 1);
+                return existing;
+              }
+              lookedUp = true;
+            }
             continue;
           }
 
           // No more retries, throw formatted error
-          const errorMessage = this.formatErrorMessage(axiosError);
-          lastError = new Error(`Siigo API Error: ${errorMessage}`);
-
-          // Add additional context to the error
-          (lastError as any).statusCode = axiosError.response?.status;
-          (lastError as any).endpoint = endpoint;
-          (lastError as any).method = method;
+          lastError = this.toApiError(axiosError, method, endpoint);
         } else {
           lastError = error as Error;
         }
@@ -183,17 +464,156 @@ export class SiigoClient {
     throw lastError || new Error('Unknown error occurred');
   }
 
-  // ==================== AUTHENTICATION ====================
-  async getToken(): Promise<TokenResponse> {
-    const response = await this.client.post<TokenResponse>('/auth', {
-      username: this.username,
-      access_key: this.accessKey,
-    });
+  /**
+   * Error details from either Siigo error format; the rate limit format has no code of its own
+   */
+  private extractErrors(
+    error: AxiosError<SiigoError | SiigoRateLimitError>,
+    data = error.response?.data
+  ): SiigoErrorDetail[] {
+    if (data && typeof data === 'object' && 'Errors' in data && Array.isArray(data.Errors)) {
+      return data.Errors.map(e => ({
+        code: e.Code,
+        message: e.Message,
+        params: e.Params ?? [],
+        detail: e.Detail,
+      }));
+    }
+    if (error.response?.status === 429) {
+      const message = data && typeof data === 'object' && 'Message' in data ? data.Message : error.message;
+      return [{ code: 'requests_limit', message, params: [] }];
+    }
+    return [];
+  }
+
+  private toApiError(
+    error: AxiosError<SiigoError | SiigoRateLimitError>,
+    method: string,
+    endpoint: string,
+    note?: string
+  ): SiigoApiError {
+    const errorMessage = this.formatErrorMessage(error);
+    return new SiigoApiError(
+      `Siigo API Error: ${errorMessage}${note ? `. ${note}` : ''}`,
+      error.response?.status,
+      method,
+      endpoint,
+      this.extractErrors(error)
+    );
+  }
+
+  /**
+   * Find a document created by a failed attempt: same items, listed with the given filters,
+   * and created after the request started
+   */
+  private async findCreated<T extends { items?: ItemLike[] | null; metadata?: { created?: string | null } | null }>(
+    fetchPage: (params: PageParams) => Promise<PaginatedList<T>>,
+    items: ItemLike[],
+    since: Date
+  ): Promise<T | null> {
+    const { results } = await this.fetchAll(fetchPage);
+    return results.find(document => {
+      const created = document.metadata?.created ? Date.parse(document.metadata.created) : NaN;
+      const recent = isNaN(created) || created >= since.getTime() - LOOKUP_CLOCK_SKEW_MS;
+      const found = document.items ?? [];
+      return recent && found.length === items.length && items.every((item, i) =>
+        found[i].code === item.code && found[i].quantity === item.quantity && found[i].price === item.price);
+    }) ?? null;
+  }
+
+  /**
+   * Resolve the next page number from _links.next, falling back to the page counts
+   */
+  private getNextPage(response: PaginatedList<unknown>, currentPage: number): number | null {
+    if (response.results.length === 0) {
+      return null;
+    }
+
+    const nextHref = response._links?.next?.href;
+    if (nextHref) {
+      const nextPage = parseInt(new URL(nextHref, this.baseUrl).searchParams.get('page') || '', 10);
+      if (!isNaN(nextPage) && nextPage > currentPage) {
+        return nextPage;
+      }
+    }
+
+    const { page_size: pageSize, total_results: totalResults } = response.pagination;
+    return currentPage * pageSize < totalResults ? currentPage + 1 : null;
+  }
+
+  // ==================== RATE LIMIT ====================
+  /**
+   * Remaining request budget and queue depth for this company
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.getStatus();
+  }
+
+  // ==================== CATALOG CACHE ====================
+  /**
+   * Drop cached catalogs so the next read goes to Siigo; all catalogs when none are given
+   */
+  refreshCatalogs(catalogs?: Catalog[]): Catalog[] {
+    return this.catalogCache.invalidate(catalogs);
+  }
+
+  // ==================== PAGINATION ====================
+  /**
+   * Iterate over every result of a list endpoint, requesting pages on demand.
+   * Example: for await (const invoice of client.paginate(p => client.listInvoices(p), { date_start }))
+   */
+  async *paginate<P extends PageParams, T>(
+    fetchPage: (params: P) => Promise<PaginatedList<T>>,
+    params: P = {} as P
+  ): AsyncGenerator<T, void, undefined> {
+    let page: number | null = params.page ?? 1;
+
+    while (page !== null) {
+      const response = await fetchPage({ ...params, page });
+      yield* response.results;
+      page = this.getNextPage(response, page);
+    }
+  }
+
+  /**
+   * Walk every page of a list endpoint and merge the results, up to maxResults records
+   */
+  async fetchAll<P extends PageParams, T>(
+    fetchPage: (params: P) => Promise<PaginatedList<T>>,
+    params: P = {} as P,
+    maxResults?: number
+  ): Promise<FetchAllResult<T>> {
+    let page: number | null = params.page ?? 1;
+    const pageParams = { ...params, page_size: params.page_size ?? MAX_PAGE_SIZE };
+    const results: T[] = [];
+    let totalResults = 0;
+    let pagesFetched = 0;
+
+    while (page !== null) {
+      const response = await fetchPage({ ...pageParams, page });
+      pagesFetched++;
+      totalResults = response.pagination.total_results;
+      results.push(...response.results);
+
+      if (maxResults !== undefined && results.length >= maxResults) {
+        break;
+      }
+      page = this.getNextPage(response, page);
+    }
 
-    this.accessToken = response.data.access_token;
-    this.tokenExpiry = new Date(Date.now() + (response.data.expires_in * 1000) - 60000);
+    const returned = maxResults !== undefined ? results.slice(0, maxResults) : results;
+    return {
+      results: returned,
+      total_results: totalResults,
+      returned: returned.length,
+      pages_fetched: pagesFetched,
+      truncated: returned.length < totalResults,
+    };
+  }
 
-    return response.data;
+  // ==================== AUTHENTICATION ====================
+  async getToken(): Promise<TokenOut> {
+    return this.authenticate();
   }
 
   // ==================== PRODUCTS ====================
@@ -201,21 +621,26 @@ export class SiigoClient {
     page?: number;
     page_size?: number;
     code?: string;
+    ids?: string[];
     created_start?: string;
     created_end?: string;
-  }): Promise<any> {
-    return this.request('GET', '/v1/products', undefined, params);
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<ProductsOutList> {
+    // Siigo takes up to 20 ids as one comma-separated value
+    const query = params?.ids ? { ...params, ids: params.ids.join(',') } : params;
+    return this.request(ProductsOutListSchema, 'GET', '/v1/products', undefined, query);
   }
 
-  async getProduct(id: string): Promise<any> {
-    return this.request('GET', `/v1/products/${id}`);
+  async getProduct(id: string): Promise<ProductOut> {
+    return this.request(ProductOutSchema, 'GET', `/v1/products/${id}`);
   }
 
   async createProduct(data: {
     code: string;
     name: string;
     account_group: number;
-    type?: 'Product' | 'Service' | 'Combo';
+    type?: ProductType;
     stock_control?: boolean;
     active?: boolean;
     tax_classification?: 'Taxed' | 'Exempt' | 'Excluded';
@@ -225,29 +650,37 @@ export class SiigoClient {
       price_list: Array<{ position: number; value: number }>;
     }>;
     description?: string;
-  }): Promise<any> {
-    return this.request('POST', '/v1/products', data);
+  }, onOutcome?: OnWriteOutcome): Promise<ProductOut> {
+    return this.request(ProductOutSchema, 'POST', '/v1/products', data, undefined, undefined, {
+      onOutcome,
+      lookup: async () => (await this.listProducts({ code: data.code })).results.find(p => p.code === data.code) ?? null,
+    });
   }
 
-  async updateProduct(id: string, data: any): Promise<any> {
-    return this.request('PUT', `/v1/products/${id}`, data);
+  async updateProduct(id: string, data: any): Promise<ProductOut> {
+    return this.request(ProductOutSchema, 'PUT', `/v1/products/${id}`, data);
   }
 
-  async deleteProduct(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/products/${id}`);
+  async deleteProduct(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/products/${id}`);
   }
 
   // ==================== ACCOUNT GROUPS ====================
-  async getAccountGroups(): Promise<any> {
-    return this.request('GET', '/v1/account-groups');
+  async getAccountGroups(): Promise<AccountGroup[]> {
+    return this.catalogCache.get('account-groups', undefined, () =>
+      this.request(z.array(AccountGroupSchema), 'GET', '/v1/account-groups'));
   }
 
-  async createAccountGroup(data: { name: string; active?: boolean }): Promise<any> {
-    return this.request('POST', '/v1/account-groups', data);
+  async createAccountGroup(data: { name: string; active?: boolean }): Promise<AccountGroup> {
+    const group = await this.request(AccountGroupSchema, 'POST', '/v1/account-groups', data);
+    this.catalogCache.invalidate(['account-groups']);
+    return group;
   }
 
-  async updateAccountGroup(id: number, data: { name?: string; active?: boolean }): Promise<any> {
-    return this.request('PUT', `/v1/account-groups/${id}`, data);
+  async updateAccountGroup(id: number, data: { name?: string; active?: boolean }): Promise<AccountGroup> {
+    const group = await this.request(AccountGroupSchema, 'PUT', `/v1/account-groups/${id}`, data);
+    this.catalogCache.invalidate(['account-groups']);
+    return group;
   }
 
   // ==================== CUSTOMERS ====================
@@ -255,14 +688,17 @@ export class SiigoClient {
     page?: number;
     page_size?: number;
     identification?: string;
+    branch_office?: number;
     created_start?: string;
     created_end?: string;
-  }): Promise<any> {
-    return this.request('GET', '/v1/customers', undefined, params);
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<CustomersOutList> {
+    return this.request(CustomersOutListSchema, 'GET', '/v1/customers', undefined, params);
   }
 
-  async getCustomer(id: string): Promise<any> {
-    return this.request('GET', `/v1/customers/${id}`);
+  async getCustomer(id: string): Promise<CustomerOut> {
+    return this.request(CustomerOutSchema, 'GET', `/v1/customers/${id}`);
   }
 
   async createCustomer(data: {
@@ -306,28 +742,38 @@ export class SiigoClient {
       seller_id?: number;
       collector_id?: number;
     };
-  }): Promise<any> {
-    return this.request('POST', '/v1/customers', data);
+  }, onOutcome?: OnWriteOutcome): Promise<CustomerOut> {
+    return this.request(CustomerOutSchema, 'POST', '/v1/customers', data, undefined, undefined, {
+      onOutcome,
+      lookup: async () => (await this.listCustomers({ identification: data.identification })).results
+        .find(c => c.identification === data.identification && (c.branch_office ?? 0) === (data.branch_office ?? 0)) ?? null,
+    });
   }
 
-  async updateCustomer(id: string, data: any): Promise<any> {
-    return this.request('PUT', `/v1/customers/${id}`, data);
+  async updateCustomer(id: string, data: any): Promise<CustomerOut> {
+    return this.request(CustomerOutSchema, 'PUT', `/v1/customers/${id}`, data);
   }
 
   // ==================== INVOICES ====================
   async listInvoices(params?: {
     page?: number;
     page_size?: number;
+    name?: string;
     customer_identification?: string;
+    customer_branch_office?: number;
     date_start?: string;
     date_end?: string;
     document_id?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/invoices', undefined, params);
+    created_start?: string;
+    created_end?: string;
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<InvoicesOutList> {
+    return this.request(InvoicesOutListSchema, 'GET', '/v1/invoices', undefined, params);
   }
 
-  async getInvoice(id: string): Promise<any> {
-    return this.request('GET', `/v1/invoices/${id}`);
+  async getInvoice(id: string): Promise<InvoiceOut> {
+    return this.request(InvoiceOutSchema, 'GET', `/v1/invoices/${id}`);
   }
 
   async createInvoice(data: {
@@ -354,68 +800,86 @@ export class SiigoClient {
       value: number;
       due_date?: string;
     }>;
+    retentions?: Array<{ id: number }>;
     cost_center?: number;
     currency?: {
       code: string;
       exchange_rate: number;
     };
-  }, idempotencyKey?: string): Promise<any> {
+  }, idempotencyKey?: string, onOutcome?: OnWriteOutcome): Promise<InvoiceOut> {
     const headers: Record<string, string> = {};
     if (idempotencyKey) {
       headers['Idempotency-Key'] = idempotencyKey;
     }
-    return this.request('POST', '/v1/invoices', data, undefined, headers);
+    return this.request(InvoiceOutSchema, 'POST', '/v1/invoices', data, undefined, headers, {
+      onOutcome,
+      lookup: since => this.findCreated(
+        page => this.listInvoices({
+          ...page,
+          customer_identification: data.customer.identification,
+          date_start: data.date,
+          date_end: data.date,
+          document_id: data.document.id,
+        }),
+        data.items,
+        since
+      ),
+    });
   }
 
-  async updateInvoice(id: string, data: any): Promise<any> {
-    return this.request('PUT', `/v1/invoices/${id}`, data);
+  async updateInvoice(id: string, data: any): Promise<InvoiceOut> {
+    return this.request(InvoiceOutSchema, 'PUT', `/v1/invoices/${id}`, data);
   }
 
-  async deleteInvoice(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/invoices/${id}`);
+  async deleteInvoice(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/invoices/${id}`);
   }
 
-  async annulInvoice(id: string): Promise<any> {
-    return this.request('POST', `/v1/invoices/${id}/annul`);
+  async annulInvoice(id: string): Promise<AnnulOut> {
+    return this.request(AnnulOutSchema, 'POST', `/v1/invoices/${id}/annul`);
   }
 
-  async getInvoicePdf(id: string): Promise<any> {
-    return this.request('GET', `/v1/invoices/${id}/pdf`);
+  async getInvoicePdf(id: string): Promise<FileOut> {
+    return this.request(FileOutSchema, 'GET', `/v1/invoices/${id}/pdf`);
   }
 
-  async getInvoiceXml(id: string): Promise<any> {
-    return this.request('GET', `/v1/invoices/${id}/xml`);
+  async getInvoiceXml(id: string): Promise<FileOut> {
+    return this.request(FileOutSchema, 'GET', `/v1/invoices/${id}/xml`);
   }
 
-  async sendInvoiceEmail(id: string, data?: { mail_to?: string; copy_to?: string }): Promise<any> {
-    return this.request('POST', `/v1/invoices/${id}/mail`, data);
+  async sendInvoiceEmail(id: string, data?: { mail_to?: string; copy_to?: string }): Promise<MailOut> {
+    return this.request(MailOutSchema, 'POST', `/v1/invoices/${id}/mail`, data);
   }
 
-  async getInvoiceStampErrors(id: string): Promise<any> {
-    return this.request('GET', `/v1/invoices/${id}/stamp/errors`);
+  async getInvoiceStampErrors(id: string): Promise<StampErrorsOut> {
+    return this.request(StampErrorsOutSchema, 'GET', `/v1/invoices/${id}/stamp/errors`);
   }
 
   async createInvoiceBatch(data: {
     notification_url: string;
     invoices: Array<any>;
-  }): Promise<any> {
-    return this.request('POST', '/v1/invoices/batch', data);
+  }): Promise<InvoiceBatchOut> {
+    return this.request(InvoiceBatchOutSchema, 'POST', '/v1/invoices/batch', data);
   }
 
   // ==================== QUOTATIONS ====================
   async listQuotations(params?: {
     page?: number;
     page_size?: number;
+    name?: string;
     customer_identification?: string;
+    customer_branch_office?: number;
     date_start?: string;
     date_end?: string;
     document_id?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/quotations', undefined, params);
+    created_start?: string;
+    created_end?: string;
+  }): Promise<QuotationsOutList> {
+    return this.request(QuotationsOutListSchema, 'GET', '/v1/quotations', undefined, params);
   }
 
-  async getQuotation(id: string): Promise<any> {
-    return this.request('GET', `/v1/quotations/${id}`);
+  async getQuotation(id: string): Promise<QuotationOut> {
+    return this.request(QuotationOutSchema, 'GET', `/v1/quotations/${id}`);
   }
 
   async createQuotation(data: {
@@ -440,28 +904,45 @@ export class SiigoClient {
       exchange_rate: number;
     };
     observations?: string;
-  }): Promise<any> {
-    return this.request('POST', '/v1/quotations', data);
+  }, onOutcome?: OnWriteOutcome): Promise<QuotationOut> {
+    return this.request(QuotationOutSchema, 'POST', '/v1/quotations', data, undefined, undefined, {
+      onOutcome,
+      lookup: since => this.findCreated(
+        page => this.listQuotations({
+          ...page,
+          customer_identification: data.customer.identification,
+          date_start: data.date,
+          date_end: data.date,
+          document_id: data.document.id,
+        }),
+        data.items,
+        since
+      ),
+    });
   }
 
-  async updateQuotation(id: string, data: any): Promise<any> {
-    return this.request('PUT', `/v1/quotations/${id}`, data);
+  async updateQuotation(id: string, data: any): Promise<QuotationOut> {
+    return this.request(QuotationOutSchema, 'PUT', `/v1/quotations/${id}`, data);
   }
 
-  async deleteQuotation(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/quotations/${id}`);
+  async deleteQuotation(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/quotations/${id}`);
   }
 
   // ==================== CREDIT NOTES ====================
   async listCreditNotes(params?: {
     page?: number;
     page_size?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/credit-notes', undefined, params);
+    created_start?: string;
+    created_end?: string;
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<CreditNotesOutList> {
+    return this.request(CreditNotesOutListSchema, 'GET', '/v1/credit-notes', undefined, params);
   }
 
-  async getCreditNote(id: string): Promise<any> {
-    return this.request('GET', `/v1/credit-notes/${id}`);
+  async getCreditNote(id: string): Promise<CreditNoteOut> {
+    return this.request(CreditNoteOutSchema, 'GET', `/v1/credit-notes/${id}`);
   }
 
   async createCreditNote(data: {
@@ -488,16 +969,16 @@ export class SiigoClient {
       id: number;
       value: number;
     }>;
-  }, idempotencyKey?: string): Promise<any> {
+  }, idempotencyKey?: string, onOutcome?: OnWriteOutcome): Promise<CreditNoteOut> {
     const headers: Record<string, string> = {};
     if (idempotencyKey) {
       headers['Idempotency-Key'] = idempotencyKey;
     }
-    return this.request('POST', '/v1/credit-notes', data, undefined, headers);
+    return this.request(CreditNoteOutSchema, 'POST', '/v1/credit-notes', data, undefined, headers, { onOutcome });
   }
 
-  async getCreditNotePdf(id: string): Promise<any> {
-    return this.request('GET', `/v1/credit-notes/${id}/pdf`);
+  async getCreditNotePdf(id: string): Promise<FileOut> {
+    return this.request(FileOutSchema, 'GET', `/v1/credit-notes/${id}/pdf`);
   }
 
   // ==================== PURCHASES ====================
@@ -508,12 +989,12 @@ export class SiigoClient {
     date_start?: string;
     date_end?: string;
     document_id?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/purchases', undefined, params);
+  }): Promise<PurchasesOutList> {
+    return this.request(PurchasesOutListSchema, 'GET', '/v1/purchases', undefined, params);
   }
 
-  async getPurchase(id: string): Promise<any> {
-    return this.request('GET', `/v1/purchases/${id}`);
+  async getPurchase(id: string): Promise<PurchasesOut> {
+    return this.request(PurchasesOutSchema, 'GET', `/v1/purchases/${id}`);
   }
 
   async createPurchase(data: {
@@ -540,34 +1021,51 @@ export class SiigoClient {
       due_date?: string;
     }>;
     retentions?: Array<{ id: number }>;
-  }): Promise<any> {
-    return this.request('POST', '/v1/purchases', data);
+  }, onOutcome?: OnWriteOutcome): Promise<PurchasesOut> {
+    return this.request(PurchasesOutSchema, 'POST', '/v1/purchases', data, undefined, undefined, {
+      onOutcome,
+      lookup: since => this.findCreated(
+        page => this.listPurchases({
+          ...page,
+          supplier_identification: data.supplier.identification,
+          date_start: data.date,
+          date_end: data.date,
+          document_id: data.document.id,
+        }),
+        data.items,
+        since
+      ),
+    });
   }
 
-  async updatePurchase(id: string, data: any): Promise<any> {
-    return this.request('PUT', `/v1/purchases/${id}`, data);
+  async updatePurchase(id: string, data: any): Promise<PurchasesOut> {
+    return this.request(PurchasesOutSchema, 'PUT', `/v1/purchases/${id}`, data);
   }
 
-  async deletePurchase(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/purchases/${id}`);
+  async deletePurchase(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/purchases/${id}`);
   }
 
   // ==================== VOUCHERS (CASH RECEIPTS) ====================
   async listVouchers(params?: {
     page?: number;
     page_size?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/vouchers', undefined, params);
+    created_start?: string;
+    created_end?: string;
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<VouchersOutList> {
+    return this.request(VouchersOutListSchema, 'GET', '/v1/vouchers', undefined, params);
   }
 
-  async getVoucher(id: string): Promise<any> {
-    return this.request('GET', `/v1/vouchers/${id}`);
+  async getVoucher(id: string): Promise<VoucherOut> {
+    return this.request(VoucherOutSchema, 'GET', `/v1/vouchers/${id}`);
   }
 
   async createVoucher(data: {
     document: { id: number };
     date: string;
-    type: 'DebtPayment' | 'AdvancePayment' | 'Detailed';
+    type: VoucherType;
     customer: {
       identification: string;
       branch_office?: number;
@@ -595,12 +1093,12 @@ export class SiigoClient {
       value: number;
     };
     observations?: string;
-  }, idempotencyKey?: string): Promise<any> {
+  }, idempotencyKey?: string, onOutcome?: OnWriteOutcome): Promise<VoucherOut> {
     const headers: Record<string, string> = {};
     if (idempotencyKey) {
       headers['Idempotency-Key'] = idempotencyKey;
     }
-    return this.request('POST', '/v1/vouchers', data, undefined, headers);
+    return this.request(VoucherOutSchema, 'POST', '/v1/vouchers', data, undefined, headers, { onOutcome });
   }
 
   // ==================== PAYMENT RECEIPTS ====================
@@ -611,18 +1109,22 @@ export class SiigoClient {
     date_start?: string;
     date_end?: string;
     document_id?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/payment-receipts', undefined, params);
+    created_start?: string;
+    created_end?: string;
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<PayoutsOutList> {
+    return this.request(PayoutsOutListSchema, 'GET', '/v1/payment-receipts', undefined, params);
   }
 
-  async getPaymentReceipt(id: string): Promise<any> {
-    return this.request('GET', `/v1/payment-receipts/${id}`);
+  async getPaymentReceipt(id: string): Promise<PayoutsOut> {
+    return this.request(PayoutsOutSchema, 'GET', `/v1/payment-receipts/${id}`);
   }
 
   async createPaymentReceipt(data: {
     document: { id: number };
     date: string;
-    type: 'DebtPayment' | 'AdvancePayment' | 'Detailed';
+    type: VoucherType;
     supplier: {
       identification: string;
       branch_office?: number;
@@ -650,16 +1152,16 @@ export class SiigoClient {
       value: number;
     };
     observations?: string;
-  }, idempotencyKey?: string): Promise<any> {
+  }, idempotencyKey?: string, onOutcome?: OnWriteOutcome): Promise<PayoutsOut> {
     const headers: Record<string, string> = {};
     if (idempotencyKey) {
       headers['Idempotency-Key'] = idempotencyKey;
     }
-    return this.request('POST', '/v1/payment-receipts', data, undefined, headers);
+    return this.request(PayoutsOutSchema, 'POST', '/v1/payment-receipts', data, undefined, headers, { onOutcome });
   }
 
-  async deletePaymentReceipt(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/payment-receipts/${id}`);
+  async deletePaymentReceipt(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/payment-receipts/${id}`);
   }
 
   // ==================== JOURNALS (ACCOUNTING VOUCHERS) ====================
@@ -667,8 +1169,12 @@ export class SiigoClient {
     page?: number;
     page_size?: number;
     document_id?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/journals', undefined, params);
+    created_start?: string;
+    created_end?: string;
+    updated_start?: string;
+    updated_end?: string;
+  }): Promise<JournalsOutList> {
+    return this.request(JournalsOutListSchema, 'GET', '/v1/journals', undefined, params);
   }
 
   async createJournal(data: {
@@ -689,12 +1195,12 @@ export class SiigoClient {
       value: number;
     }>;
     observations?: string;
-  }, idempotencyKey?: string): Promise<any> {
+  }, idempotencyKey?: string, onOutcome?: OnWriteOutcome): Promise<JournalsOut> {
     const headers: Record<string, string> = {};
     if (idempotencyKey) {
       headers['Idempotency-Key'] = idempotencyKey;
     }
-    return this.request('POST', '/v1/journals', data, undefined, headers);
+    return this.request(JournalsOutSchema, 'POST', '/v1/journals', data, undefined, headers, { onOutcome });
   }
 
   // ==================== REPORTS ====================
@@ -705,8 +1211,8 @@ export class SiigoClient {
     account_start?: string;
     account_end?: string;
     includes_tax_difference?: boolean;
-  }): Promise<any> {
-    return this.request('POST', '/v1/test-balance-report', data);
+  }): Promise<BalanceOut> {
+    return this.request(BalanceOutSchema, 'POST', '/v1/test-balance-report', data);
   }
 
   async generateTestBalanceByThirdParty(data: {
@@ -720,8 +1226,8 @@ export class SiigoClient {
       identification?: string;
       branch_office?: number;
     };
-  }): Promise<any> {
-    return this.request('POST', '/v1/test-balance-report-by-thirdparty', data);
+  }): Promise<BalanceOut> {
+    return this.request(BalanceOutSchema, 'POST', '/v1/test-balance-report-by-thirdparty', data);
   }
 
   async getAccountsPayable(params?: {
@@ -731,54 +1237,71 @@ export class SiigoClient {
     due_date_end?: string;
     provider_identification?: string;
     provider_branch_office?: number;
-  }): Promise<any> {
-    return this.request('GET', '/v1/accounts-payable', undefined, params);
+  }): Promise<ProviderOutList> {
+    return this.request(ProviderOutListSchema, 'GET', '/v1/accounts-payable', undefined, params);
   }
 
   // ==================== CATALOGS ====================
-  async getTaxes(): Promise<any> {
-    return this.request('GET', '/v1/taxes');
+  async getTaxes(): Promise<Tax[]> {
+    return this.catalogCache.get('taxes', undefined, () =>
+      this.request(z.array(TaxSchema), 'GET', '/v1/taxes'));
   }
 
-  async getUsers(): Promise<any> {
-    return this.request('GET', '/v1/users');
+  async getUsers(): Promise<User[]> {
+    return this.catalogCache.get('users', undefined, () =>
+      this.request(z.array(UserSchema), 'GET', '/v1/users'));
   }
 
-  async getDocumentTypes(type?: 'FV' | 'FC' | 'NC' | 'RC' | 'CC' | 'RP' | 'C'): Promise<any> {
-    return this.request('GET', '/v1/document-types', undefined, type ? { type } : undefined);
+  async getDocumentTypes(type?: 'FV' | 'FC' | 'NC' | 'RC' | 'CC' | 'RP' | 'C'): Promise<DocumentType[]> {
+    const params = type ? { type } : undefined;
+    return this.catalogCache.get('document-types', params, () =>
+      this.request(z.array(DocumentTypeSchema), 'GET', '/v1/document-types', undefined, params));
   }
 
-  async getPaymentTypes(documentType?: 'FV' | 'NC' | 'RC'): Promise<any> {
-    return this.request('GET', '/v1/payment-types', undefined, documentType ? { document_type: documentType } : undefined);
+  async getPaymentTypes(documentType?: 'FV' | 'NC' | 'RC'): Promise<PaymentTypes[]> {
+    const params = documentType ? { document_type: documentType } : undefined;
+    return this.catalogCache.get('payment-types', params, () =>
+      this.request(z.array(PaymentTypesSchema), 'GET', '/v1/payment-types', undefined, params));
   }
 
-  async getWarehouses(): Promise<any> {
-    return this.request('GET', '/v1/warehouses');
+  async getWarehouses(): Promise<Warehouse[]> {
+    return this.catalogCache.get('warehouses', undefined, () =>
+      this.request(z.array(WarehouseSchema), 'GET', '/v1/warehouses'));
   }
 
-  async getCostCenters(): Promise<any> {
-    return this.request('GET', '/v1/cost-centers');
+  async getCostCenters(): Promise<CostCenter[]> {
+    return this.catalogCache.get('cost-centers', undefined, () =>
+      this.request(z.array(CostCenterSchema), 'GET', '/v1/cost-centers'));
   }
 
-  async getPriceLists(): Promise<any> {
-    return this.request('GET', '/v1/price-lists');
+  async getPriceLists(): Promise<PriceList[]> {
+    return this.catalogCache.get('price-lists', undefined, () =>
+      this.request(z.array(PriceListSchema), 'GET', '/v1/price-lists'));
   }
 
-  async getFixedAssets(): Promise<any> {
-    return this.request('GET', '/v1/fixed-assets');
+  async getFixedAssets(): Promise<FixedAsset[]> {
+    return this.catalogCache.get('fixed-assets', undefined, () =>
+      this.request(z.array(FixedAssetSchema), 'GET', '/v1/fixed-assets'));
   }
 
   // ==================== WEBHOOKS ====================
-  async listWebhooks(): Promise<any> {
-    return this.request('GET', '/v1/webhooks');
+  async listWebhooks(params?: {
+    page?: number;
+    page_size?: number;
+  }): Promise<WebhooksOutList> {
+    return this.request(WebhooksOutListSchema, 'GET', '/v1/webhooks', undefined, params);
   }
 
   async createWebhook(data: {
     application_id: string;
     topic: string;
     url: string;
-  }): Promise<any> {
-    return this.request('POST', '/v1/webhooks', data);
+  }, onOutcome?: OnWriteOutcome): Promise<WebhooksOut> {
+    return this.request(WebhooksOutSchema, 'POST', '/v1/webhooks', data, undefined, undefined, {
+      onOutcome,
+      lookup: async () => (await this.fetchAll(p => this.listWebhooks(p))).results
+        .find(w => w.url === data.url && w.topic === data.topic) ?? null,
+    });
   }
 
   async updateWebhook(id: string, data: {
@@ -786,11 +1309,11 @@ export class SiigoClient {
     topic?: string;
     url?: string;
     active?: boolean;
-  }): Promise<any> {
-    return this.request('PUT', `/v1/webhooks/${id}`, data);
+  }): Promise<WebhooksOut> {
+    return this.request(WebhooksOutSchema, 'PUT', `/v1/webhooks/${id}`, data);
   }
 
-  async deleteWebhook(id: string): Promise<any> {
-    return this.request('DELETE', `/v1/webhooks/${id}`);
+  async deleteWebhook(id: string): Promise<DeleteOut> {
+    return this.request(DeleteOutSchema, 'DELETE', `/v1/webhooks/${id}`);
   }
 }
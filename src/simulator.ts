@@ -0,0 +1,946 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+
+// In-memory, stateful stand-in for the Siigo API used by SiigoClient.
+// It follows the request and error formats of siigoapi.apib closely enough to develop
+// and try tools offline; state lives only as long as the process.
+
+export interface SimulatorOptions {
+  port?: number;
+  host?: string;
+  requestsPerMinute?: number;
+}
+
+export interface RunningSimulator {
+  url: string;
+  close(): Promise<void>;
+  // Let the process exit while the simulator is still listening
+  unref(): void;
+}
+
+type Query = Record<string, string>;
+type Handler = (params: string[], body: any, query: Query, headers: IncomingMessage['headers']) => [number, unknown];
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+class SimulatorError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public params: string[] = []
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 100;
+const TOKEN_TTL_SECONDS = 86400;
+const RETENTION_TYPES = ['Retefuente', 'ReteIVA', 'ReteICA', 'Autorretencion'];
+const IDEMPOTENT_ENDPOINTS = ['invoices', 'credit-notes', 'journals', 'vouchers'];
+
+// Catalog seed data, shaped like the examples in siigoapi.apib
+const TAXES = [
+  { id: 13156, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+  { id: 13157, name: 'IVA 5%', type: 'IVA', percentage: 5, active: true },
+  { id: 13158, name: 'Impoconsumo 8%', type: 'Impoconsumo', percentage: 8, active: true },
+  { id: 13159, name: 'Retefuente 2.5%', type: 'Retefuente', percentage: 2.5, active: true },
+  { id: 13160, name: 'ReteIVA 15%', type: 'ReteIVA', percentage: 15, active: true },
+  { id: 13161, name: 'ReteICA 0.966%', type: 'ReteICA', percentage: 0.966, active: true },
+];
+
+const USERS = [
+  { id: 629, username: 'vendedor@empresa.com', first_name: 'Vendedor', last_name: 'Sandbox', email: 'vendedor@empresa.com', active: true, identification: '13832081' },
+];
+
+const DOCUMENT_TYPES = [
+  { id: 24446, code: '1', name: 'Factura electronica', type: 'FV', active: true, seller_by_item: false, cost_center: false, cost_center_mandatory: false, automatic_number: true, consecutive: 1, discount_type: 'Value', decimals: true, electronic_type: 'Electronicvoice' },
+  { id: 24447, code: '2', name: 'Factura de compra', type: 'FC', active: true, automatic_number: true, consecutive: 1 },
+  { id: 24448, code: '1', name: 'Nota credito electronica', type: 'NC', active: true, automatic_number: true, consecutive: 1, electronic_type: 'Electronicvoice' },
+  { id: 24449, code: '1', name: 'Recibo de caja', type: 'RC', active: true, automatic_number: true, consecutive: 1 },
+  { id: 24450, code: '1', name: 'Comprobante contable', type: 'CC', active: true, automatic_number: true, consecutive: 1 },
+  { id: 24451, code: '1', name: 'Recibo de pago', type: 'RP', active: true, automatic_number: true, consecutive: 1 },
+  { id: 24452, code: '1', name: 'Cotizacion', type: 'C', active: true, automatic_number: true, consecutive: 1 },
+];
+
+const PAYMENT_TYPES = [
+  { id: 5636, name: 'Efectivo', type: 'Cartera', active: true, due_date: false, document_types: ['FV', 'NC', 'RC'] },
+  { id: 5637, name: 'Credito', type: 'Cartera', active: true, due_date: true, document_types: ['FV', 'NC'] },
+  { id: 5638, name: 'Transferencia bancaria', type: 'CarteraProveedor', active: true, due_date: false, document_types: ['FV', 'NC', 'RC'] },
+];
+
+const WAREHOUSES = [{ id: 1270, name: 'Bodega principal', active: true, has_movements: false }];
+const COST_CENTERS = [{ id: 235, code: '1-1', name: 'Centro de costos principal', active: true }];
+const PRICE_LISTS = [{ id: 1, name: 'Precio de venta 1', active: true, position: 1 }];
+const FIXED_ASSETS = [{ id: 1, name: 'Equipo de computo', group: 'Equipos', active: true }];
+
+export class SiigoSimulator {
+  private routes: Route[] = [];
+  private tokens = new Map<string, { username: string; expires: number }>();
+  private requestTimes = new Map<string, number[]>();
+  private idempotency = new Map<string, unknown>();
+  private consecutives = new Map<number, number>();
+  private nextAccountGroupId = 1253;
+  private accountGroups = [{ id: 1252, name: 'Productos', active: true }];
+  private products = new Map<string, any>();
+  private customers = new Map<string, any>();
+  private invoices = new Map<string, any>();
+  private quotations = new Map<string, any>();
+  private creditNotes = new Map<string, any>();
+  private purchases = new Map<string, any>();
+  private vouchers = new Map<string, any>();
+  private paymentReceipts = new Map<string, any>();
+  private journals = new Map<string, any>();
+  private webhooks = new Map<string, any>();
+  private readonly requestsPerMinute: number;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE;
+    this.registerRoutes();
+  }
+
+  /**
+   * Start listening and resolve with the base URL to give SiigoClient
+   */
+  listen(options: SimulatorOptions = {}): Promise<RunningSimulator> {
+    const server: Server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, 500, this.errorBody(new SimulatorError(500, 'unhandled_error', (error as Error).message)));
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+        const address = server.address() as AddressInfo;
+        resolve({
+          url: `http://${address.address}:${address.port}`,
+          close: () => new Promise(done => server.close(() => done())),
+          unref: () => { server.unref(); },
+        });
+      });
+    });
+  }
+
+  // ==================== HTTP PLUMBING ====================
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const query: Query = Object.fromEntries(url.searchParams.entries());
+
+    try {
+      const body = await this.readBody(req);
+
+      if (!req.headers['partner-id']) {
+        throw new SimulatorError(400, 'header_required', 'The header Partner-Id is required', ['Partner-Id']);
+      }
+
+      if (method === 'POST' && url.pathname === '/auth') {
+        this.send(res, 200, this.authenticate(body));
+        return;
+      }
+
+      const username = this.authorize(req.headers.authorization);
+      this.checkRateLimit(username);
+
+      for (const route of this.routes) {
+        const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+        if (match) {
+          const [status, payload] = route.handler(match.slice(1), body, query, req.headers);
+          this.send(res, status, payload);
+          return;
+        }
+      }
+      throw new SimulatorError(404, 'not_found', `The resource ${method} ${url.pathname} was not found`);
+    } catch (error) {
+      if (error instanceof SimulatorError && error.code === 'requests_limit') {
+        res.setHeader('Retry-After', '60');
+      }
+      const simulatorError = error instanceof SimulatorError
+        ? error
+        : new SimulatorError(500, 'unhandled_error', (error as Error).message);
+      this.send(res, simulatorError.status, this.errorBody(simulatorError));
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        if (!raw) {
+          resolve(undefined);
+          return;
+        }
+        try {
+          resolve(JSON.parse(raw));
+        } catch {
+          reject(new SimulatorError(400, 'invalid_type', 'The request body is not valid JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  private errorBody(error: SimulatorError) {
+    return {
+      Status: error.status,
+      Errors: [{
+        Code: error.code,
+        Message: error.message,
+        Params: error.params,
+        Detail: 'Siigo sandbox simulator',
+      }],
+    };
+  }
+
+  // ==================== AUTH AND LIMITS ====================
+  private authenticate(body: any) {
+    if (!body?.username || !body?.access_key) {
+      throw new SimulatorError(400, 'parameter_required', 'The fields username and access_key are required', ['username', 'access_key']);
+    }
+
+    const accessToken = randomUUID().replace(/-/g, '');
+    this.tokens.set(accessToken, { username: body.username, expires: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+    return {
+      access_token: accessToken,
+      expires_in: TOKEN_TTL_SECONDS,
+      token_type: 'Bearer',
+      scope: 'SiigoAPI',
+    };
+  }
+
+  private authorize(header?: string): string {
+    const token = header?.startsWith('Bearer ') ? this.tokens.get(header.slice(7)) : undefined;
+    if (!token || token.expires < Date.now()) {
+      throw new SimulatorError(401, 'unauthorized', 'The access token is invalid or has expired');
+    }
+    return token.username;
+  }
+
+  /**
+   * Sliding one-minute window per user, like the per-company limit in production
+   */
+  private checkRateLimit(username: string): void {
+    const now = Date.now();
+    const recent = (this.requestTimes.get(username) || []).filter(time => now - time < 60000);
+    if (recent.length >= this.requestsPerMinute) {
+      this.requestTimes.set(username, recent);
+      throw new SimulatorError(429, 'requests_limit', `You have exceeded the limit of ${this.requestsPerMinute} requests per minute`);
+    }
+    recent.push(now);
+    this.requestTimes.set(username, recent);
+  }
+
+  // ==================== ROUTES ====================
+  private route(method: string, path: string, handler: Handler): void {
+    const pattern = new RegExp(`^${path.replace(/:id/g, '([^/]+)')}$`);
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private registerRoutes(): void {
+    // Products
+    this.route('GET', '/v1/products', (_, __, query) => this.list('products', this.products, query));
+    this.route('GET', '/v1/products/:id', ([id]) => [200, this.find(this.products, id)]);
+    this.route('POST', '/v1/products', (_, body) => [201, this.createProduct(body)]);
+    this.route('PUT', '/v1/products/:id', ([id], body) => [200, this.update(this.products, id, this.productFields(body))]);
+    this.route('DELETE', '/v1/products/:id', ([id]) => [200, this.remove(this.products, id)]);
+
+    // Account groups
+    this.route('GET', '/v1/account-groups', () => [200, this.accountGroups]);
+    this.route('POST', '/v1/account-groups', (_, body) => [201, this.createAccountGroup(body)]);
+    this.route('PUT', '/v1/account-groups/:id', ([id], body) => [200, this.updateAccountGroup(Number(id), body)]);
+
+    // Customers
+    this.route('GET', '/v1/customers', (_, __, query) => this.list('customers', this.customers, query));
+    this.route('GET', '/v1/customers/:id', ([id]) => [200, this.find(this.customers, id)]);
+    this.route('POST', '/v1/customers', (_, body) => [201, this.createCustomer(body)]);
+    this.route('PUT', '/v1/customers/:id', ([id], body) => [200, this.update(this.customers, id, this.customerFields(body))]);
+
+    // Invoices
+    this.route('GET', '/v1/invoices', (_, __, query) => this.list('invoices', this.invoices, query));
+    this.route('POST', '/v1/invoices/batch', (_, body) => [201, this.createInvoiceBatch(body)]);
+    this.route('GET', '/v1/invoices/:id', ([id]) => [200, this.find(this.invoices, id)]);
+    this.route('POST', '/v1/invoices', (_, body, __, headers) =>
+      this.idempotent('invoices', headers, () => this.createInvoice(body)));
+    this.route('PUT', '/v1/invoices/:id', ([id], body) => [200, this.updateInvoice(id, body)]);
+    this.route('DELETE', '/v1/invoices/:id', ([id]) => [200, this.deleteInvoice(id)]);
+    this.route('POST', '/v1/invoices/:id/annul', ([id]) => [200, this.annulInvoice(id)]);
+    this.route('GET', '/v1/invoices/:id/pdf', ([id]) => [200, this.file(this.invoices, id, 'pdf')]);
+    this.route('GET', '/v1/invoices/:id/xml', ([id]) => [200, this.file(this.invoices, id, 'xml')]);
+    this.route('POST', '/v1/invoices/:id/mail', ([id], body) => [200, this.mailInvoice(id, body)]);
+    this.route('GET', '/v1/invoices/:id/stamp/errors', ([id]) => [200, { id: this.find(this.invoices, id).id, errors: [] }]);
+
+    // Quotations
+    this.route('GET', '/v1/quotations', (_, __, query) => this.list('quotations', this.quotations, query));
+    this.route('GET', '/v1/quotations/:id', ([id]) => [200, this.find(this.quotations, id)]);
+    this.route('POST', '/v1/quotations', (_, body) => [201, this.createQuotation(body)]);
+    this.route('PUT', '/v1/quotations/:id', ([id], body) => [200, this.update(this.quotations, id, body)]);
+    this.route('DELETE', '/v1/quotations/:id', ([id]) => [200, this.remove(this.quotations, id)]);
+
+    // Credit notes
+    this.route('GET', '/v1/credit-notes', (_, __, query) => this.list('credit-notes', this.creditNotes, query));
+    this.route('GET', '/v1/credit-notes/:id', ([id]) => [200, this.find(this.creditNotes, id)]);
+    this.route('POST', '/v1/credit-notes', (_, body, __, headers) =>
+      this.idempotent('credit-notes', headers, () => this.createCreditNote(body)));
+    this.route('GET', '/v1/credit-notes/:id/pdf', ([id]) => [200, this.file(this.creditNotes, id, 'pdf')]);
+
+    // Purchases
+    this.route('GET', '/v1/purchases', (_, __, query) => this.list('purchases', this.purchases, query));
+    this.route('GET', '/v1/purchases/:id', ([id]) => [200, this.find(this.purchases, id)]);
+    this.route('POST', '/v1/purchases', (_, body) => [201, this.createPurchase(body)]);
+    this.route('PUT', '/v1/purchases/:id', ([id], body) => [200, this.update(this.purchases, id, body)]);
+    this.route('DELETE', '/v1/purchases/:id', ([id]) => [200, this.remove(this.purchases, id)]);
+
+    // Vouchers and payment receipts
+    this.route('GET', '/v1/vouchers', (_, __, query) => this.list('vouchers', this.vouchers, query));
+    this.route('GET', '/v1/vouchers/:id', ([id]) => [200, this.find(this.vouchers, id)]);
+    this.route('POST', '/v1/vouchers', (_, body, __, headers) =>
+      this.idempotent('vouchers', headers, () => this.createReceipt(this.vouchers, 'RC', 'customer', body)));
+    this.route('GET', '/v1/payment-receipts', (_, __, query) => this.list('payment-receipts', this.paymentReceipts, query));
+    this.route('GET', '/v1/payment-receipts/:id', ([id]) => [200, this.find(this.paymentReceipts, id)]);
+    this.route('POST', '/v1/payment-receipts', (_, body) => [201, this.createReceipt(this.paymentReceipts, 'RP', 'supplier', body)]);
+    this.route('DELETE', '/v1/payment-receipts/:id', ([id]) => [200, this.remove(this.paymentReceipts, id)]);
+
+    // Journals
+    this.route('GET', '/v1/journals', (_, __, query) => this.list('journals', this.journals, query));
+    this.route('POST', '/v1/journals', (_, body, __, headers) =>
+      this.idempotent('journals', headers, () => this.createJournal(body)));
+
+    // Reports
+    this.route('POST', '/v1/test-balance-report', (_, body) => [200, this.balanceReport(body)]);
+    this.route('POST', '/v1/test-balance-report-by-thirdparty', (_, body) => [200, this.balanceReport(body)]);
+    this.route('GET', '/v1/accounts-payable', (_, __, query) => [200, this.paginate('accounts-payable', this.accountsPayable(), query)]);
+
+    // Catalogs
+    this.route('GET', '/v1/taxes', () => [200, TAXES]);
+    this.route('GET', '/v1/users', () => [200, USERS]);
+    this.route('GET', '/v1/document-types', (_, __, query) =>
+      [200, DOCUMENT_TYPES.filter(type => !query.type || type.type === query.type)]);
+    this.route('GET', '/v1/payment-types', (_, __, query) => [200, this.paymentTypes(query.document_type)]);
+    this.route('GET', '/v1/warehouses', () => [200, WAREHOUSES]);
+    this.route('GET', '/v1/cost-centers', () => [200, COST_CENTERS]);
+    this.route('GET', '/v1/price-lists', () => [200, PRICE_LISTS]);
+    this.route('GET', '/v1/fixed-assets', () => [200, FIXED_ASSETS]);
+
+    // Webhooks
+    this.route('GET', '/v1/webhooks', (_, __, query) => this.list('webhooks', this.webhooks, query));
+    this.route('POST', '/v1/webhooks', (_, body) => [201, this.createWebhook(body)]);
+    this.route('PUT', '/v1/webhooks/:id', ([id], body) => [200, this.update(this.webhooks, id, body)]);
+    this.route('DELETE', '/v1/webhooks/:id', ([id]) => [200, this.remove(this.webhooks, id)]);
+  }
+
+  // ==================== GENERIC RESOURCES ====================
+  private list(resource: string, store: Map<string, any>, query: Query): [number, unknown] {
+    const records = [...store.values()].filter(record => this.matches(record, query));
+    return [200, this.paginate(resource, records, query)];
+  }
+
+  private paginate(resource: string, records: unknown[], query: Query) {
+    const page = Math.max(1, parseInt(query.page, 10) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(query.page_size, 10) || 25));
+    const link = (target: number) => ({ href: `/v1/${resource}?page=${target}&page_size=${pageSize}` });
+    const hasNext = page * pageSize < records.length;
+
+    return {
+      pagination: { page, page_size: pageSize, total_results: records.length },
+      results: records.slice((page - 1) * pageSize, page * pageSize),
+      _links: {
+        self: link(page),
+        ...(page > 1 ? { previous: link(page - 1) } : {}),
+        ...(hasNext ? { next: link(page + 1) } : {}),
+      },
+    };
+  }
+
+  /**
+   * Apply the documented list filters: *_start/*_end ranges on dates and metadata,
+   * *_identification on the related party, and exact matches on other fields
+   */
+  private matches(record: any, query: Query): boolean {
+    return Object.entries(query).every(([key, value]) => {
+      if (key === 'page' || key === 'page_size') {
+        return true;
+      }
+
+      const range = /^(.*)_(start|end)$/.exec(key);
+      if (range) {
+        const [, field, bound] = range;
+        const dates: Record<string, string | undefined> = {
+          date: record.date,
+          created: record.metadata?.created,
+          updated: record.metadata?.last_updated,
+          due_date: record.due?.date,
+        };
+        if (!(field in dates)) {
+          return true;
+        }
+        const actual = dates[field];
+        if (!actual) {
+          return false;
+        }
+        const comparable = actual.slice(0, value.length);
+        return bound === 'start' ? comparable >= value : comparable <= value;
+      }
+
+      if (key.endsWith('_identification')) {
+        return record[key.replace('_identification', '')]?.identification === value;
+      }
+      if (key === 'document_id') {
+        return String(record.document?.id) === value;
+      }
+      if (key === 'ids') {
+        return value.split(',').includes(record.id);
+      }
+      return record[key] === undefined || String(record[key]) === value;
+    });
+  }
+
+  private find(store: Map<string, any>, id: string): any {
+    const record = store.get(id);
+    if (!record) {
+      throw new SimulatorError(404, 'not_found', `The resource ${id} was not found`);
+    }
+    return record;
+  }
+
+  private update(store: Map<string, any>, id: string, changes: any): any {
+    const record = this.find(store, id);
+    const { id: _ignored, metadata: _metadata, ...fields } = changes || {};
+    Object.assign(record, fields, { metadata: { ...record.metadata, last_updated: this.now() } });
+    return record;
+  }
+
+  private remove(store: Map<string, any>, id: string) {
+    this.find(store, id);
+    store.delete(id);
+    return { id, deleted: true };
+  }
+
+  private file(store: Map<string, any>, id: string, format: 'pdf' | 'xml') {
+    const record = this.find(store, id);
+    const content = format === 'pdf'
+      ? `%PDF-1.4\n% Siigo sandbox ${record.name}\n`
+      : `<?xml version="1.0" encoding="UTF-8"?><Document name="${record.name}"/>`;
+    return { id, base64: Buffer.from(content).toString('base64') };
+  }
+
+  /**
+   * Replay the stored response when an Idempotency-Key is reused on the same endpoint
+   */
+  private idempotent(resource: string, headers: IncomingMessage['headers'], create: () => unknown): [number, unknown] {
+    const key = headers['idempotency-key'] as string | undefined;
+    if (key === undefined || !IDEMPOTENT_ENDPOINTS.includes(resource)) {
+      return [201, create()];
+    }
+    if (!/^[A-Za-z0-9]{1,32}$/.test(key)) {
+      throw new SimulatorError(400, 'invalid_idempotency-key', 'The Idempotency-Key header must be alphanumeric', ['Idempotency-Key']);
+    }
+
+    const storeKey = `${resource}:${key}`;
+    if (this.idempotency.has(storeKey)) {
+      return [200, this.idempotency.get(storeKey)];
+    }
+    const created = create();
+    this.idempotency.set(storeKey, created);
+    return [201, created];
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private required(body: any, fields: string[]): void {
+    const missing = fields.filter(field => body?.[field] === undefined || body?.[field] === null || body?.[field] === '');
+    if (missing.length > 0) {
+      throw new SimulatorError(400, 'parameter_required', `The field ${missing[0]} is required`, missing);
+    }
+  }
+
+  // ==================== CATALOGS ====================
+  private createAccountGroup(body: any) {
+    this.required(body, ['name']);
+    const group = { id: this.nextAccountGroupId++, name: body.name, active: body.active ?? true };
+    this.accountGroups.push(group);
+    return group;
+  }
+
+  private updateAccountGroup(id: number, body: any) {
+    const group = this.accountGroups.find(candidate => candidate.id === id);
+    if (!group) {
+      throw new SimulatorError(404, 'not_found', `The account group ${id} was not found`);
+    }
+    Object.assign(group, { name: body?.name ?? group.name, active: body?.active ?? group.active });
+    return group;
+  }
+
+  private paymentTypes(documentType?: string) {
+    if (!documentType) {
+      throw new SimulatorError(400, 'parameter_required', 'The query parameter document_type is required', ['document_type']);
+    }
+    return PAYMENT_TYPES
+      .filter(type => type.document_types.includes(documentType))
+      .map(({ document_types: _documentTypes, ...type }) => type);
+  }
+
+  private documentType(id: number, type: string) {
+    const documentType = DOCUMENT_TYPES.find(candidate => candidate.id === id && candidate.type === type);
+    if (!documentType) {
+      throw new SimulatorError(400, 'invalid_reference', `The document type ${id} does not exist for ${type}`, ['document.id']);
+    }
+    return documentType;
+  }
+
+  private nextNumber(documentId: number): number {
+    const next = (this.consecutives.get(documentId) ?? 0) + 1;
+    this.consecutives.set(documentId, next);
+    return next;
+  }
+
+  // ==================== PRODUCTS AND CUSTOMERS ====================
+  private createProduct(body: any) {
+    this.required(body, ['code', 'name', 'account_group']);
+    if ([...this.products.values()].some(product => product.code === body.code)) {
+      throw new SimulatorError(400, 'already_exists', `The product code ${body.code} already exists`, ['code']);
+    }
+
+    const id = randomUUID();
+    const product = {
+      id,
+      type: 'Product',
+      stock_control: false,
+      active: true,
+      tax_classification: 'Taxed',
+      tax_included: false,
+      available_quantity: 0,
+      ...this.productFields(body),
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.products.set(id, product);
+    return product;
+  }
+
+  private productFields(body: any) {
+    const fields = { ...body };
+    if (body?.account_group !== undefined) {
+      const group = this.accountGroups.find(candidate => candidate.id === body.account_group);
+      if (!group) {
+        throw new SimulatorError(400, 'invalid_reference', `The account group ${body.account_group} does not exist`, ['account_group']);
+      }
+      fields.account_group = { id: group.id, name: group.name };
+    }
+    if (body?.taxes) {
+      fields.taxes = body.taxes.map((tax: { id: number }) => this.tax(tax.id));
+    }
+    return fields;
+  }
+
+  private createCustomer(body: any) {
+    this.required(body, ['person_type', 'id_type', 'identification', 'name', 'address']);
+    const branchOffice = body.branch_office ?? 0;
+    if ([...this.customers.values()].some(c => c.identification === body.identification && c.branch_office === branchOffice)) {
+      throw new SimulatorError(400, 'already_exists', `The customer ${body.identification} already exists`, ['identification']);
+    }
+
+    const id = randomUUID();
+    const customer = {
+      id,
+      type: 'Customer',
+      active: true,
+      vat_responsible: false,
+      ...this.customerFields(body),
+      branch_office: branchOffice,
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.customers.set(id, customer);
+    return customer;
+  }
+
+  private customerFields(body: any) {
+    const fields = { ...body };
+    if (typeof body?.id_type === 'string') {
+      fields.id_type = { code: body.id_type };
+    }
+    return fields;
+  }
+
+  private party(reference: any, field: string) {
+    const branchOffice = reference?.branch_office ?? 0;
+    const party = [...this.customers.values()].find(candidate =>
+      candidate.identification === reference?.identification && candidate.branch_office === branchOffice);
+    if (!party) {
+      throw new SimulatorError(400, 'invalid_reference', `The ${field} ${reference?.identification} does not exist`, [`${field}.identification`]);
+    }
+    return { id: party.id, identification: party.identification, branch_office: branchOffice };
+  }
+
+  private tax(id: number) {
+    const tax = TAXES.find(candidate => candidate.id === id);
+    if (!tax) {
+      throw new SimulatorError(400, 'invalid_reference', `The tax ${id} does not exist`, ['taxes.id']);
+    }
+    return tax;
+  }
+
+  // ==================== DOCUMENTS ====================
+  /**
+   * Price items with the invalid_total_payments formula from siigoapi.apib:
+   * base = qty * price - discount, plus non-retention taxes on the base, rounded to 2 decimals
+   */
+  private priceItems(items: any[]) {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    let total = 0;
+
+    const priced = (items || []).map(item => {
+      const product = [...this.products.values()].find(candidate => candidate.code === item.code);
+      if (!product) {
+        throw new SimulatorError(400, 'invalid_reference', `The product code ${item.code} does not exist`, ['items.code']);
+      }
+
+      const base = round(item.quantity * item.price - (item.discount || 0));
+      const taxes = (item.taxes || []).map((reference: { id: number }) => {
+        const tax = this.tax(reference.id);
+        return { ...tax, value: round(base * tax.percentage / 100) };
+      });
+      const itemTotal = round(base + taxes
+        .filter((tax: { type: string }) => !RETENTION_TYPES.includes(tax.type))
+        .reduce((sum: number, tax: { value: number }) => sum + tax.value, 0));
+      total = round(total + itemTotal);
+
+      return {
+        id: randomUUID(),
+        code: item.code,
+        description: item.description ?? product.name,
+        quantity: item.quantity,
+        price: item.price,
+        discount: item.discount ?? 0,
+        taxes,
+        total: itemTotal,
+      };
+    });
+
+    return { items: priced, total };
+  }
+
+  private payments(payments: any[], documentType: string) {
+    return (payments || []).map(payment => {
+      const type = PAYMENT_TYPES.find(candidate => candidate.id === payment.id && candidate.document_types.includes(documentType));
+      if (!type) {
+        throw new SimulatorError(400, 'invalid_payment', `The payment type ${payment.id} is not valid for ${documentType}`, ['payments.id']);
+      }
+      return { id: type.id, name: type.name, value: payment.value, due_date: payment.due_date };
+    });
+  }
+
+  private checkPaymentsTotal(payments: Array<{ value: number }>, total: number): void {
+    const paid = payments.reduce((sum, payment) => sum + payment.value, 0);
+    if (Math.abs(paid - total) > 0.01) {
+      throw new SimulatorError(400, 'invalid_total_payments', `The total payments (${paid}) must be equal to the total invoice (${total})`, ['payments']);
+    }
+  }
+
+  private createInvoice(body: any) {
+    this.required(body, ['document', 'date', 'customer', 'seller', 'items', 'payments']);
+    const documentType = this.documentType(body.document.id, 'FV');
+    const customer = this.party(body.customer, 'customer');
+    const { items, total } = this.priceItems(body.items);
+    const payments = this.payments(body.payments, 'FV');
+    this.checkPaymentsTotal(payments, total);
+
+    const id = randomUUID();
+    const number = this.nextNumber(documentType.id);
+    const stamped = body.stamp?.send === true;
+    const invoice = {
+      id,
+      document: { id: documentType.id },
+      prefix: 'FV',
+      number,
+      name: `FV-${documentType.code}-${number}`,
+      date: body.date,
+      customer,
+      cost_center: body.cost_center,
+      currency: body.currency,
+      seller: body.seller,
+      total,
+      balance: total,
+      observations: body.observations,
+      items,
+      payments,
+      stamp: stamped
+        ? { status: 'Accepted', cufe: randomUUID().replace(/-/g, ''), observations: null, errors: null }
+        : { status: 'Draft' },
+      mail: body.mail?.send === true ? { status: 'sent', observations: null } : { status: 'not_sent', observations: null },
+      public_url: `https://sandbox.siigo.local/invoices/${id}`,
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.invoices.set(id, invoice);
+    return invoice;
+  }
+
+  private createInvoiceBatch(body: any) {
+    this.required(body, ['invoices']);
+    for (const invoice of body.invoices) {
+      this.createInvoice(invoice);
+    }
+    return { id: randomUUID(), status: 'Received', received_at: this.now() };
+  }
+
+  private updateInvoice(id: string, body: any) {
+    const invoice = this.find(this.invoices, id);
+    if (invoice.stamp?.status === 'Accepted') {
+      throw new SimulatorError(400, 'update_not_allowed', 'An invoice accepted by the DIAN cannot be updated');
+    }
+    const changes = { ...body };
+    if (body?.items) {
+      const { items, total } = this.priceItems(body.items);
+      Object.assign(changes, { items, total, balance: total });
+    }
+    if (body?.payments) {
+      changes.payments = this.payments(body.payments, 'FV');
+    }
+    if (body?.customer) {
+      changes.customer = this.party(body.customer, 'customer');
+    }
+    return this.update(this.invoices, id, changes);
+  }
+
+  private deleteInvoice(id: string) {
+    const invoice = this.find(this.invoices, id);
+    if (invoice.stamp?.status === 'Accepted') {
+      throw new SimulatorError(400, 'delete_not_allowed', 'An invoice accepted by the DIAN cannot be deleted');
+    }
+    return this.remove(this.invoices, id);
+  }
+
+  private annulInvoice(id: string) {
+    const invoice = this.find(this.invoices, id);
+    if (invoice.annulled) {
+      throw new SimulatorError(400, 'invalid_document', `The invoice ${invoice.name} is already annulled`);
+    }
+    Object.assign(invoice, { annulled: true, balance: 0, metadata: { ...invoice.metadata, last_updated: this.now() } });
+    return { id, Annul: true };
+  }
+
+  private mailInvoice(id: string, body: any) {
+    const invoice = this.find(this.invoices, id);
+    invoice.mail = { status: 'sent', observations: body?.mail_to ? `Sent to ${body.mail_to}` : null };
+    return invoice.mail;
+  }
+
+  private createQuotation(body: any) {
+    this.required(body, ['document', 'date', 'customer', 'seller', 'items']);
+    const documentType = this.documentType(body.document.id, 'C');
+    const { items, total } = this.priceItems(body.items);
+    const id = randomUUID();
+    const number = this.nextNumber(documentType.id);
+    const quotation = {
+      id,
+      document: { id: documentType.id },
+      number,
+      name: `C-${documentType.code}-${number}`,
+      date: body.date,
+      customer: this.party(body.customer, 'customer'),
+      cost_center: body.cost_center,
+      currency: body.currency,
+      seller: body.seller,
+      total,
+      observations: body.observations,
+      items,
+      public_url: `https://sandbox.siigo.local/quotations/${id}`,
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.quotations.set(id, quotation);
+    return quotation;
+  }
+
+  private createCreditNote(body: any) {
+    this.required(body, ['document', 'date', 'items']);
+    const documentType = this.documentType(body.document.id, 'NC');
+    const invoice = body.invoice ? this.find(this.invoices, body.invoice) : null;
+    const { items, total } = this.priceItems(body.items);
+    if (invoice) {
+      invoice.balance = Math.max(0, Math.round((invoice.balance - total) * 100) / 100);
+    }
+
+    const id = randomUUID();
+    const number = this.nextNumber(documentType.id);
+    const creditNote = {
+      id,
+      document: { id: documentType.id },
+      number,
+      name: `NC-${documentType.code}-${number}`,
+      date: body.date,
+      invoice: invoice ? { id: invoice.id, name: invoice.name } : null,
+      customer: invoice ? invoice.customer : this.party(body.customer, 'customer'),
+      cost_center: body.cost_center,
+      currency: body.currency,
+      seller: body.seller,
+      total,
+      observations: body.observations,
+      items,
+      payments: this.payments(body.payments, 'NC'),
+      stamp: { status: 'Accepted', cude: randomUUID().replace(/-/g, '') },
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.creditNotes.set(id, creditNote);
+    return creditNote;
+  }
+
+  private createPurchase(body: any) {
+    this.required(body, ['document', 'date', 'supplier', 'items']);
+    const documentType = this.documentType(body.document.id, 'FC');
+    const { items, total } = this.priceItems(body.items);
+    const id = randomUUID();
+    const number = this.nextNumber(documentType.id);
+    const purchase = {
+      id,
+      document: { id: documentType.id },
+      number,
+      name: `FC-${documentType.code}-${number}`,
+      date: body.date,
+      supplier: this.party(body.supplier, 'supplier'),
+      cost_center: body.cost_center,
+      provider_invoice: body.provider_invoice,
+      currency: body.currency,
+      total,
+      balance: total,
+      observations: body.observations,
+      items,
+      payments: (body.payments || []).map((payment: any) => ({ ...payment })),
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.purchases.set(id, purchase);
+    return purchase;
+  }
+
+  private createReceipt(store: Map<string, any>, type: 'RC' | 'RP', partyField: 'customer' | 'supplier', body: any) {
+    this.required(body, ['document', 'date', 'type', partyField]);
+    const documentType = this.documentType(body.document.id, type);
+    if (body.type === 'Detailed' && body.payment) {
+      throw new SimulatorError(400, 'invalid_payment', 'The payment must not be sent for a Detailed receipt', ['payment']);
+    }
+
+    const id = randomUUID();
+    const number = this.nextNumber(documentType.id);
+    const receipt = {
+      id,
+      document: { id: documentType.id },
+      number,
+      name: `${type}-${documentType.code}-${number}`,
+      date: body.date,
+      type: body.type,
+      [partyField]: this.party(body[partyField], partyField),
+      currency: body.currency,
+      items: body.items || [],
+      payment: body.payment
+        ? { ...body.payment, name: PAYMENT_TYPES.find(candidate => candidate.id === body.payment.id)?.name }
+        : undefined,
+      observations: body.observations,
+      metadata: { created: this.now(), last_updated: null },
+    };
+    store.set(id, receipt);
+    return receipt;
+  }
+
+  private createJournal(body: any) {
+    this.required(body, ['document', 'date', 'items']);
+    const documentType = this.documentType(body.document.id, 'CC');
+    const balance = (body.items as any[]).reduce(
+      (sum, item) => sum + (item.account?.movement === 'Debit' ? item.value : -item.value), 0);
+    if (Math.abs(balance) > 0.01) {
+      throw new SimulatorError(400, 'invalid_balance', 'The sum of debits and credits must be equal', ['items']);
+    }
+
+    const id = randomUUID();
+    const number = body.number ?? this.nextNumber(documentType.id);
+    const journal = {
+      id,
+      document: { id: documentType.id },
+      number,
+      name: `CC-${documentType.code}-${number}`,
+      date: body.date,
+      items: (body.items as any[]).map(item => ({
+        ...item,
+        customer: item.customer ? this.party(item.customer, 'customer') : undefined,
+      })),
+      observations: body.observations,
+      metadata: { created: this.now(), last_updated: null },
+    };
+    this.journals.set(id, journal);
+    return journal;
+  }
+
+  // ==================== REPORTS AND WEBHOOKS ====================
+  private balanceReport(body: any) {
+    this.required(body, ['year', 'month_start', 'month_end']);
+    if (body.month_start < 1 || body.month_end > 13 || body.month_start > body.month_end) {
+      throw new SimulatorError(400, 'invalid_range', 'month_start and month_end must be between 1 and 13', ['month_start', 'month_end']);
+    }
+    const fileId = randomUUID();
+    return { file_id: fileId, file_url: `https://sandbox.siigo.local/reports/${fileId}.xlsx` };
+  }
+
+  private accountsPayable() {
+    return [...this.purchases.values()]
+      .filter(purchase => purchase.balance > 0)
+      .map(purchase => ({
+        due: { prefix: 'FC', consecutive: purchase.number, quote: 1, date: purchase.date, balance: purchase.balance },
+        provider: {
+          id: purchase.supplier.id,
+          identification: purchase.supplier.identification,
+          branch_office: purchase.supplier.branch_office,
+          name: this.customers.get(purchase.supplier.id)?.name?.join(' '),
+        },
+        currency: { code: purchase.currency?.code ?? 'COP', balance: purchase.balance },
+      }));
+  }
+
+  private createWebhook(body: any) {
+    this.required(body, ['application_id', 'url', 'topic']);
+    if (!/^https?:\/\//.test(body.url)) {
+      throw new SimulatorError(400, 'invalid_url', `The url ${body.url} is not valid`, ['url']);
+    }
+    if ([...this.webhooks.values()].some(webhook => webhook.url === body.url && webhook.topic === body.topic)) {
+      throw new SimulatorError(400, 'already_exists', `A webhook for ${body.topic} on ${body.url} already exists`, ['topic']);
+    }
+
+    const id = randomUUID();
+    const webhook = {
+      id,
+      application_id: body.application_id,
+      url: body.url,
+      topic: body.topic,
+      company_key: 'SandboxCompany',
+      active: true,
+      created_at: this.now(),
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+}
+
+/**
+ * Start a simulator with fresh state
+ */
+export function startSimulator(options: SimulatorOptions = {}): Promise<RunningSimulator> {
+  return new SiigoSimulator(options).listen(options);
+}
+
+if (require.main === module) {
+  startSimulator({
+    port: Number(process.env.SIIGO_SIMULATOR_PORT) || 4010,
+    requestsPerMinute: Number(process.env.SIIGO_REQUESTS_PER_MINUTE) || undefined,
+  })
+    .then(({ url }) => console.error(`Siigo simulator listening on ${url}`))
+    .catch(console.error);
+}
@@ -0,0 +1,201 @@
+import { DocumentType, Tax } from './models.js';
+
+// Colombian tax computation for Siigo documents, following the rules in siigoapi.apib
+// (invalid_total_payments, invalid_retentions, invalid_array):
+//   - IVA, Impoconsumo (INC) and AdValorem are charged on each line base
+//     (quantity * price - discount)
+//   - ReteFuente is withheld on the base of its line or, at document level, on the subtotal
+//   - ReteIVA is withheld on the invoiced IVA and ReteICA on the subtotal
+//   - Autorretencion applies on the subtotal above the document type's minimum; the issuer
+//     pays it, so it does not change what the customer pays
+// Every amount is rounded to the decimals the document type allows.
+
+export interface TaxLineInput {
+  code?: string;
+  quantity: number;
+  price: number;
+  discount?: number;
+  taxes?: Array<{ id: number }>;
+}
+
+export interface TaxCalculationInput {
+  items: TaxLineInput[];
+  retentions?: Array<{ id: number }>;
+}
+
+// Document type settings that change the calculation
+export interface TaxSettings {
+  discount_type?: 'Percentage' | 'Value';
+  decimals?: boolean;
+  self_withholding_limit?: number;
+}
+
+export interface AppliedTax {
+  id: number;
+  name: string;
+  type: string;
+  percentage: number;
+  base: number;
+  value: number;
+}
+
+export interface LineTaxes {
+  code?: string;
+  quantity: number;
+  price: number;
+  gross: number;
+  discount: number;
+  base: number;
+  taxes: AppliedTax[];
+  retentions: AppliedTax[];
+  total: number;
+}
+
+export interface TaxCalculation {
+  decimals: number;
+  lines: LineTaxes[];
+  gross: number;
+  discounts: number;
+  subtotal: number;
+  taxes: AppliedTax[];
+  retentions: AppliedTax[];
+  total_taxes: number;
+  total_retentions: number;
+  total: number;
+  warnings: string[];
+}
+
+const CHARGED_TYPES = ['IVA', 'Impoconsumo', 'AdValorem'];
+const WITHHELD_TYPES = ['Retefuente', 'ReteIVA', 'ReteICA'];
+// ReteIVA and ReteICA go in the document retentions, never on items
+const DOCUMENT_ONLY_TYPES = ['ReteIVA', 'ReteICA'];
+const MAX_TAXES_PER_ITEM = 3;
+
+export function taxSettings(documentType?: DocumentType): TaxSettings {
+  return {
+    discount_type: documentType?.discount_type ?? undefined,
+    decimals: documentType?.decimals ?? undefined,
+    self_withholding_limit: documentType?.self_withholding_limit ?? undefined,
+  };
+}
+
+/**
+ * Per-line and per-document taxes and retentions for the given lines, using the
+ * percentages of the company's tax catalog
+ */
+export function calculateTaxes(input: TaxCalculationInput, catalog: Tax[], settings: TaxSettings = {}): TaxCalculation {
+  const decimals = settings.decimals === false ? 0 : 2;
+  const round = (value: number) => {
+    const factor = 10 ** decimals;
+    return Math.round((value + Number.EPSILON) * factor) / factor;
+  };
+  const sum = (values: number[]) => round(values.reduce((total, value) => total + value, 0));
+  const apply = (tax: Tax, base: number): AppliedTax => ({
+    id: tax.id,
+    name: tax.name,
+    type: tax.type,
+    percentage: tax.percentage,
+    base,
+    value: round(base * tax.percentage / 100),
+  });
+
+  const warnings: string[] = [];
+  const findTax = (id: number): Tax | undefined => {
+    const tax = catalog.find(candidate => candidate.id === id);
+    if (!tax) {
+      warnings.push(`Tax ${id} is not in the company's tax catalog (siigo_get_taxes)`);
+    } else if (!tax.active) {
+      warnings.push(`Tax ${id} (${tax.name}) is inactive`);
+    }
+    return tax;
+  };
+
+  const lines = input.items.map((item, index): LineTaxes => {
+    const label = item.code ?? `item ${index + 1}`;
+    const gross = round(item.quantity * item.price);
+    const discount = round(settings.discount_type === 'Value' ? item.discount ?? 0 : gross * (item.discount ?? 0) / 100);
+    const base = round(gross - discount);
+    const itemTaxes = (item.taxes ?? []).map(({ id }) => findTax(id)).filter((tax): tax is Tax => !!tax);
+    checkItemTaxes(label, itemTaxes, warnings);
+
+    const taxes = itemTaxes.filter(tax => CHARGED_TYPES.includes(tax.type)).map(tax => apply(tax, base));
+    const vat = sum(taxes.filter(tax => tax.type === 'IVA').map(tax => tax.value));
+    const retentions = itemTaxes
+      .filter(tax => !CHARGED_TYPES.includes(tax.type))
+      .map(tax => apply(tax, tax.type === 'ReteIVA' ? vat : base));
+    const total = round(base + sum(taxes.map(tax => tax.value)) - sum(withheld(retentions).map(tax => tax.value)));
+    return { code: item.code, quantity: item.quantity, price: item.price, gross, discount, base, taxes, retentions, total };
+  });
+
+  const subtotal = sum(lines.map(line => line.base));
+  const taxes = groupById(lines.flatMap(line => line.taxes), round);
+  const vat = sum(taxes.filter(tax => tax.type === 'IVA').map(tax => tax.value));
+
+  const documentRetentions = (input.retentions ?? [])
+    .map(({ id }) => findTax(id))
+    .filter((tax): tax is Tax => !!tax)
+    .filter(tax => {
+      if (CHARGED_TYPES.includes(tax.type)) {
+        warnings.push(`${tax.name} is a ${tax.type} tax, not a retention: send it in the item taxes`);
+        return false;
+      }
+      if (tax.type === 'Autorretencion' && settings.self_withholding_limit !== undefined && subtotal <= settings.self_withholding_limit) {
+        warnings.push(`${tax.name} does not apply: the subtotal ${subtotal} does not exceed the minimum of ${settings.self_withholding_limit}`);
+        return false;
+      }
+      return true;
+    })
+    .map(tax => apply(tax, tax.type === 'ReteIVA' ? vat : subtotal));
+
+  const retentions = [...groupById(lines.flatMap(line => line.retentions), round), ...documentRetentions];
+  const totalTaxes = sum(taxes.map(tax => tax.value));
+  const totalRetentions = sum(withheld(retentions).map(tax => tax.value));
+
+  return {
+    decimals,
+    lines,
+    gross: sum(lines.map(line => line.gross)),
+    discounts: sum(lines.map(line => line.discount)),
+    subtotal,
+    taxes,
+    retentions,
+    total_taxes: totalTaxes,
+    total_retentions: totalRetentions,
+    total: round(subtotal + totalTaxes - totalRetentions),
+    warnings,
+  };
+}
+
+// Item tax combinations Siigo rejects with invalid_array
+function checkItemTaxes(label: string, taxes: Tax[], warnings: string[]): void {
+  if (taxes.length > MAX_TAXES_PER_ITEM) {
+    warnings.push(`${label} has ${taxes.length} taxes; Siigo allows up to ${MAX_TAXES_PER_ITEM} per item`);
+  }
+  const types = taxes.map(tax => tax.type);
+  for (const type of new Set(types)) {
+    if (types.filter(candidate => candidate === type).length > 1) {
+      warnings.push(`${label} has more than one ${type} tax`);
+    }
+  }
+  if (types.includes('IVA') && types.includes('AdValorem')) {
+    warnings.push(`${label} has IVA and AdValorem; Siigo does not allow both on the same item`);
+  }
+  for (const tax of taxes.filter(tax => DOCUMENT_ONLY_TYPES.includes(tax.type))) {
+    warnings.push(`${label} has ${tax.name}; ${tax.type} goes in the document retentions, not in the item taxes`);
+  }
+}
+
+function withheld(retentions: AppliedTax[]): AppliedTax[] {
+  return retentions.filter(tax => WITHHELD_TYPES.includes(tax.type));
+}
+
+function groupById(taxes: AppliedTax[], round: (value: number) => number): AppliedTax[] {
+  const grouped = new Map<number, AppliedTax>();
+  for (const tax of taxes) {
+    const current = grouped.get(tax.id);
+    grouped.set(tax.id, current
+      ? { ...current, base: round(current.base + tax.base), value: round(current.value + tax.value) }
+      : { ...tax });
+  }
+  return [...grouped.values()];
+}
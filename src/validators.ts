@@ -1,15 +1,100 @@
 import { z } from 'zod';
+import { CATALOGS } from './catalog-cache.js';
+import { checkIdentification } from './identification.js';
+import { ProductTypeSchema } from './models.js';
+import {
+  AddressInSchema,
+  BalanceInSchema,
+  ContactSchema,
+  CustomerTypeSchema,
+  FiscalResponsabilityInSchema,
+  PaymentInSchema,
+  PersonTypeSchema,
+  PriceInSchema,
+  TaxClassificationSchema,
+  TaxInProductSchema,
+  TaxInSchema,
+  VoucherMovementTypeSchema,
+  VoucherTypeSchema,
+  WebhooksInPUTSchema,
+  WebhooksInSchema,
+} from './generated/apib.js';
+
+// Tool inputs are flattened for the model, so schemas reuse the structures generated from
+// siigoapi.apib (src/generated/apib.ts) for enums and nested objects and add local rules
 
 // Common validators
 const GuidSchema = z.string().uuid('Invalid GUID format');
 const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in yyyy-MM-dd format');
+// List filters on creation and update accept a date or a date and time in UTC
+const DateFilterSchema = z.string().regex(
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}Z)?$/,
+  'Must be a date (yyyy-MM-dd) or a UTC date and time (yyyy-MM-ddTHH:mm:ssZ)'
+);
 const PositiveNumber = z.number().positive('Must be a positive number');
 const NonEmptyString = z.string().min(1, 'Cannot be empty');
+// Siigo: alphanumeric, no spaces or special characters, at most 30 characters
+const IdempotencyKeySchema = z.string().regex(/^[A-Za-z0-9]{1,30}$/, 'Must be alphanumeric with at most 30 characters');
 
-// Pagination schema
-export const PaginationSchema = z.object({
+// Payment lines of sales and purchase documents; the tools always need the payment type id
+const PaymentLineSchema = PaymentInSchema.extend({
+  id: z.number(),
+  due_date: DateSchema.optional(),
+});
+
+// Fetch-all options shared by every list tool
+const FetchAllShape = {
+  all_pages: z.boolean().optional(),
+  max_results: z.number().int().min(1).optional(),
+};
+
+const PageShape = {
   page: z.number().int().min(1).optional(),
   page_size: z.number().int().min(1).max(100).optional(),
+};
+
+// Documented creation and last-update ranges of the list endpoints
+const CreatedRangeShape = {
+  created_start: DateFilterSchema.optional(),
+  created_end: DateFilterSchema.optional(),
+};
+
+const UpdatedRangeShape = {
+  updated_start: DateFilterSchema.optional(),
+  updated_end: DateFilterSchema.optional(),
+};
+
+const DATE_RANGES = [
+  ['created_start', 'created_end'],
+  ['updated_start', 'updated_end'],
+  ['date_start', 'date_end'],
+  ['due_date_start', 'due_date_end'],
+] as const;
+
+/**
+ * Reject ranges whose start is after their end. A date covers its whole day, so against
+ * a date and time only the day is compared.
+ */
+function withOrderedRanges<T extends z.ZodRawShape>(schema: z.ZodObject<T, 'strict'>) {
+  return schema.superRefine((value: Record<string, unknown>, ctx) => {
+    for (const [start, end] of DATE_RANGES) {
+      const from = value[start];
+      const to = value[end];
+      if (typeof from !== 'string' || typeof to !== 'string') {
+        continue;
+      }
+      const length = Math.min(from.length, to.length);
+      if (from.slice(0, length) > to.slice(0, length)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [end], message: `Must not be before ${start}` });
+      }
+    }
+  });
+}
+
+// Pagination schema
+export const PaginationSchema = z.object({
+  ...PageShape,
+  ...FetchAllShape,
 }).strict();
 
 // Product schemas
@@ -21,17 +106,11 @@ export const CreateProductSchema = z.object({
   code: z.string().min(1).max(30).regex(/^\S+$/, 'Code cannot contain spaces'),
   name: z.string().min(1).max(100),
   account_group: PositiveNumber,
-  type: z.enum(['Product', 'Service', 'Combo']).optional(),
+  type: ProductTypeSchema.optional(),
   stock_control: z.boolean().optional(),
-  tax_classification: z.enum(['Taxed', 'Exempt', 'Excluded']).optional(),
-  taxes: z.array(z.object({ id: z.number() })).optional(),
-  prices: z.array(z.object({
-    currency_code: z.string(),
-    price_list: z.array(z.object({
-      position: z.number(),
-      value: z.number(),
-    })),
-  })).optional(),
+  tax_classification: TaxClassificationSchema.optional(),
+  taxes: z.array(TaxInProductSchema).optional(),
+  prices: z.array(PriceInSchema).optional(),
   description: z.string().max(2500).optional(),
 }).strict();
 
@@ -40,18 +119,12 @@ export const UpdateProductSchema = z.object({
   code: z.string().min(1).max(30).optional(),
   name: z.string().min(1).max(100).optional(),
   account_group: PositiveNumber.optional(),
-  type: z.enum(['Product', 'Service', 'Combo']).optional(),
+  type: ProductTypeSchema.optional(),
   stock_control: z.boolean().optional(),
   active: z.boolean().optional(),
-  tax_classification: z.enum(['Taxed', 'Exempt', 'Excluded']).optional(),
-  taxes: z.array(z.object({ id: z.number() })).optional(),
-  prices: z.array(z.object({
-    currency_code: z.string(),
-    price_list: z.array(z.object({
-      position: z.number(),
-      value: z.number(),
-    })),
-  })).optional(),
+  tax_classification: TaxClassificationSchema.optional(),
+  taxes: z.array(TaxInProductSchema).optional(),
+  prices: z.array(PriceInSchema).optional(),
   description: z.string().max(2500).optional(),
 }).strict();
 
@@ -60,30 +133,42 @@ export const CustomerIdSchema = z.object({
   id: GuidSchema,
 }).strict();
 
+// Format of the identification for its id_type and, for a NIT, its DIAN check digit
+function identificationRules(value: { id_type: string; identification: string; check_digit?: string }, ctx: z.RefinementCtx) {
+  for (const message of checkIdentification(value.id_type, value.identification, value.check_digit).errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['identification'], message });
+  }
+}
+
+export const ValidateIdentificationSchema = z.object({
+  id_type: NonEmptyString,
+  identification: NonEmptyString,
+  check_digit: z.string().optional(),
+}).strict();
+
+export const CustomerIdentificationSchema = ValidateIdentificationSchema.superRefine(identificationRules);
+
+export const SearchCitySchema = z.object({
+  query: NonEmptyString,
+  state: z.string().optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+}).strict();
+
 export const CreateCustomerSchema = z.object({
-  type: z.enum(['Customer', 'Supplier', 'Other']).optional(),
-  person_type: z.enum(['Person', 'Company']),
+  type: CustomerTypeSchema.optional(),
+  person_type: PersonTypeSchema,
   id_type: NonEmptyString,
   identification: NonEmptyString,
   check_digit: z.string().optional(),
   name: z.array(z.string()).min(1),
   commercial_name: z.string().optional(),
   vat_responsible: z.boolean().optional(),
-  fiscal_responsibilities: z.array(z.object({ code: z.string() })),
-  address: z.object({
-    address: z.string(),
-    city: z.object({
-      country_code: z.string(),
-      state_code: z.string(),
-      city_code: z.string(),
-    }),
-  }),
-  contacts: z.array(z.object({
-    first_name: z.string(),
-    last_name: z.string().optional(),
-    email: z.string().email().optional(),
+  fiscal_responsibilities: z.array(FiscalResponsabilityInSchema),
+  address: AddressInSchema,
+  contacts: z.array(ContactSchema.extend({
+    email: z.string().email(),
   })),
-});
+}).superRefine(identificationRules);
 
 // Invoice schemas
 export const InvoiceIdSchema = z.object({
@@ -104,14 +189,12 @@ export const CreateInvoiceSchema = z.object({
     quantity: PositiveNumber,
     price: z.number().min(0),
     discount: z.number().min(0).max(100).optional(),
-    taxes: z.array(z.object({ id: z.number() })).optional(),
+    taxes: z.array(TaxInSchema).optional(),
   })).min(1, 'At least one item is required'),
-  payments: z.array(z.object({
-    id: z.number(),
-    value: z.number(),
-    due_date: DateSchema.optional(),
-  })).min(1, 'At least one payment is required'),
-  idempotency_key: z.string().optional(),
+  payments: z.array(PaymentLineSchema).min(1, 'At least one payment is required'),
+  retentions: z.array(TaxInSchema).optional(),
+  idempotency_key: IdempotencyKeySchema.optional(),
+  dry_run: z.boolean().optional(),
 });
 
 // Quotation schemas
@@ -131,8 +214,9 @@ export const CreateQuotationSchema = z.object({
     quantity: PositiveNumber,
     price: z.number().min(0),
     discount: z.number().min(0).max(100).optional(),
-    taxes: z.array(z.object({ id: z.number() })).optional(),
+    taxes: z.array(TaxInSchema).optional(),
   })).min(1, 'At least one item is required'),
+  dry_run: z.boolean().optional(),
 });
 
 // Credit Note schemas
@@ -150,13 +234,14 @@ export const CreateCreditNoteSchema = z.object({
     code: NonEmptyString,
     quantity: PositiveNumber,
     price: z.number().min(0),
-    taxes: z.array(z.object({ id: z.number() })).optional(),
+    taxes: z.array(TaxInSchema).optional(),
   })).min(1, 'At least one item is required'),
   payments: z.array(z.object({
     id: z.number(),
     value: z.number(),
   })).min(1, 'At least one payment is required'),
-  idempotency_key: z.string().optional(),
+  idempotency_key: IdempotencyKeySchema.optional(),
+  dry_run: z.boolean().optional(),
 });
 
 // Purchase schemas
@@ -175,16 +260,11 @@ export const CreatePurchaseSchema = z.object({
     quantity: PositiveNumber,
     price: z.number().min(0),
     discount: z.number().min(0).max(100).optional(),
-    taxes: z.array(z.object({ id: z.number() })).optional(),
+    taxes: z.array(TaxInSchema).optional(),
   })).min(1, 'At least one item is required'),
-  payments: z.array(z.object({
-    id: z.number(),
-    value: z.number(),
-    due_date: DateSchema.optional(),
-  })).min(1, 'At least one payment is required'),
-  retentions: z.array(z.object({
-    id: z.number(),
-  })).optional(),
+  payments: z.array(PaymentLineSchema).min(1, 'At least one payment is required'),
+  retentions: z.array(TaxInSchema).optional(),
+  dry_run: z.boolean().optional(),
 });
 
 // Voucher schemas
@@ -195,7 +275,7 @@ export const VoucherIdSchema = z.object({
 export const CreateVoucherSchema = z.object({
   document_id: PositiveNumber,
   date: DateSchema,
-  type: z.enum(['AdvancePayment', 'DebtPayment', 'Balance']),
+  type: VoucherTypeSchema,
   customer_identification: NonEmptyString,
   items: z.array(z.object({
     value: z.number(),
@@ -203,12 +283,13 @@ export const CreateVoucherSchema = z.object({
     due_consecutive: z.number().optional(),
     due_quote: z.number().optional(),
     account_code: z.string().optional(),
+    movement: VoucherMovementTypeSchema.optional(),
   })).min(1),
   payments: z.array(z.object({
     id: z.number(),
     value: z.number(),
   })).min(1),
-  idempotency_key: z.string().optional(),
+  idempotency_key: IdempotencyKeySchema.optional(),
 });
 
 // Payment Receipt schemas
@@ -219,7 +300,7 @@ export const PaymentReceiptIdSchema = z.object({
 export const CreatePaymentReceiptSchema = z.object({
   document_id: PositiveNumber,
   date: DateSchema,
-  type: z.enum(['AdvancePayment', 'DebtPayment', 'Balance']),
+  type: VoucherTypeSchema,
   supplier_identification: NonEmptyString,
   items: z.array(z.object({
     value: z.number(),
@@ -227,12 +308,13 @@ export const CreatePaymentReceiptSchema = z.object({
     due_consecutive: z.number().optional(),
     due_quote: z.number().optional(),
     account_code: z.string().optional(),
+    movement: VoucherMovementTypeSchema.optional(),
   })).min(1),
   payments: z.array(z.object({
     id: z.number(),
     value: z.number(),
   })).min(1),
-  idempotency_key: z.string().optional(),
+  idempotency_key: IdempotencyKeySchema.optional(),
 });
 
 // Journal schemas
@@ -247,16 +329,15 @@ export const CreateJournalSchema = z.object({
     debit: z.number().min(0).optional(),
     credit: z.number().min(0).optional(),
   })).min(1, 'At least one item is required'),
-  idempotency_key: z.string().optional(),
+  idempotency_key: IdempotencyKeySchema.optional(),
 });
 
 // Report schemas
-export const TestBalanceReportSchema = z.object({
+export const TestBalanceReportSchema = BalanceInSchema.extend({
   year: z.number().int().min(2000).max(2100),
   month_start: z.number().int().min(1).max(13),
   month_end: z.number().int().min(1).max(13),
-  account_start: z.string().optional(),
-  account_end: z.string().optional(),
+  includes_tax_difference: z.boolean().optional(),
 }).refine(data => data.month_start <= data.month_end, {
   message: 'month_start must be less than or equal to month_end',
 });
@@ -266,18 +347,15 @@ export const WebhookIdSchema = z.object({
   id: GuidSchema,
 }).strict();
 
-export const CreateWebhookSchema = z.object({
+export const CreateWebhookSchema = WebhooksInSchema.extend({
   application_id: NonEmptyString,
   topic: z.string().regex(/^public\.siigoapi\..+$/, 'Topic must start with "public.siigoapi."'),
   url: z.string().url('Invalid URL format'),
 }).strict();
 
-export const UpdateWebhookSchema = z.object({
+export const UpdateWebhookSchema = WebhooksInPUTSchema.partial().extend({
   id: GuidSchema,
-  application_id: z.string().optional(),
-  topic: z.string().optional(),
   url: z.string().url().optional(),
-  active: z.boolean().optional(),
 }).strict();
 
 // Account Group schemas
@@ -297,62 +375,98 @@ export const UpdateAccountGroupSchema = z.object({
 }).strict();
 
 // List Products schema
-export const ListProductsSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListProductsSchema = withOrderedRanges(z.object({
+  ...PageShape,
   code: z.string().optional(),
-  created_start: DateSchema.optional(),
-  created_end: DateSchema.optional(),
-}).strict();
+  ids: z.array(GuidSchema).min(1).max(20, 'At most 20 ids per request').optional(),
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // List Customers schema
-export const ListCustomersSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListCustomersSchema = withOrderedRanges(z.object({
+  ...PageShape,
   identification: z.string().optional(),
-  created_start: DateSchema.optional(),
-  created_end: DateSchema.optional(),
-}).strict();
+  branch_office: z.number().int().min(0).optional(),
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // List Invoices schema
-export const ListInvoicesSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListInvoicesSchema = withOrderedRanges(z.object({
+  ...PageShape,
+  name: z.string().optional(),
   customer_identification: z.string().optional(),
+  customer_branch_office: z.number().int().min(0).optional(),
   date_start: DateSchema.optional(),
   date_end: DateSchema.optional(),
   document_id: z.number().int().positive().optional(),
-}).strict();
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // List Quotations schema
-export const ListQuotationsSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListQuotationsSchema = withOrderedRanges(z.object({
+  ...PageShape,
+  name: z.string().optional(),
   customer_identification: z.string().optional(),
+  customer_branch_office: z.number().int().min(0).optional(),
   date_start: DateSchema.optional(),
   date_end: DateSchema.optional(),
   document_id: z.number().int().positive().optional(),
-}).strict();
+  ...CreatedRangeShape,
+  ...FetchAllShape,
+}).strict());
+
+// List Credit Notes schema
+export const ListCreditNotesSchema = withOrderedRanges(z.object({
+  ...PageShape,
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // List Purchases schema
-export const ListPurchasesSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListPurchasesSchema = withOrderedRanges(z.object({
+  ...PageShape,
   supplier_identification: z.string().optional(),
   date_start: DateSchema.optional(),
   date_end: DateSchema.optional(),
   document_id: z.number().int().positive().optional(),
-}).strict();
+  ...FetchAllShape,
+}).strict());
+
+// List Vouchers schema
+export const ListVouchersSchema = withOrderedRanges(z.object({
+  ...PageShape,
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // List Payment Receipts schema
-export const ListPaymentReceiptsSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const ListPaymentReceiptsSchema = withOrderedRanges(z.object({
+  ...PageShape,
   supplier_identification: z.string().optional(),
   date_start: DateSchema.optional(),
   date_end: DateSchema.optional(),
   document_id: z.number().int().positive().optional(),
-}).strict();
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
+
+// List Journals schema
+export const ListJournalsSchema = withOrderedRanges(z.object({
+  ...PageShape,
+  document_id: z.number().int().positive().optional(),
+  ...CreatedRangeShape,
+  ...UpdatedRangeShape,
+  ...FetchAllShape,
+}).strict());
 
 // Invoice Batch schema
 export const CreateInvoiceBatchSchema = z.object({
@@ -371,7 +485,7 @@ export const CreateInvoiceBatchSchema = z.object({
       quantity: PositiveNumber,
       price: z.number().min(0),
       discount: z.number().min(0).max(100).optional(),
-      taxes: z.array(z.object({ id: z.number() })).optional(),
+      taxes: z.array(TaxInSchema).optional(),
     })).min(1, 'At least one item is required'),
     payments: z.array(z.object({
       id: z.number(),
@@ -382,13 +496,47 @@ export const CreateInvoiceBatchSchema = z.object({
 }).strict();
 
 // Accounts Payable schema
-export const AccountsPayableSchema = z.object({
-  page: z.number().int().min(1).optional(),
-  page_size: z.number().int().min(1).max(100).optional(),
+export const AccountsPayableSchema = withOrderedRanges(z.object({
+  ...PageShape,
   due_date_start: DateSchema.optional(),
   due_date_end: DateSchema.optional(),
   provider_identification: z.string().optional(),
   provider_branch_office: z.number().int().min(0).optional(),
+  ...FetchAllShape,
+}).strict());
+
+// Audit log schema
+export const AuditSearchSchema = z.object({
+  date_start: DateSchema.optional(),
+  date_end: DateSchema.optional(),
+  tool: z.string().optional(),
+  document_id: z.string().optional(),
+  error_code: z.string().optional(),
+  company: z.string().optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+}).strict();
+
+// Tax calculation schema
+export const CalculateTaxesSchema = z.object({
+  document_type: z.enum(['FV', 'NC', 'FC', 'C']),
+  document_id: PositiveNumber.optional(),
+  items: z.array(z.object({
+    code: z.string().optional(),
+    quantity: PositiveNumber,
+    price: z.number().min(0),
+    discount: z.number().min(0).optional(),
+    taxes: z.array(TaxInSchema).optional(),
+  })).min(1, 'At least one item is required'),
+  retentions: z.array(TaxInSchema).optional(),
+  payments: z.array(z.object({
+    id: z.number().optional(),
+    value: z.number(),
+  })).optional(),
+}).strict();
+
+// Catalog cache schema
+export const RefreshCatalogsSchema = z.object({
+  catalogs: z.array(z.enum(CATALOGS)).min(1).optional(),
 }).strict();
 
 // Validation helper function
@@ -0,0 +1,119 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+// HTTP endpoint for the notifications Siigo POSTs to webhook subscriptions. Siigo only
+// publishes product events (products.create, products.update, products.stock.update);
+// each one is handed to onEvent so subscribed MCP resources can be marked as updated.
+
+export interface WebhookEvent {
+  company_key: string;
+  username: string;
+  topic: string;
+  id: string;
+  code: string;
+  name?: string;
+  [field: string]: unknown;
+}
+
+export interface WebhookReceiverOptions {
+  port?: number;
+  host?: string;
+  path?: string;
+}
+
+export interface RunningWebhookReceiver {
+  url: string;
+  close(): Promise<void>;
+  // Let the process exit while the receiver is still listening
+  unref(): void;
+}
+
+export const DEFAULT_WEBHOOK_PATH = '/siigo/webhooks';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Start listening and resolve with the URL to register with siigo_create_webhook
+ */
+export function startWebhookReceiver(
+  onEvent: (event: WebhookEvent) => void,
+  options: WebhookReceiverOptions = {}
+): Promise<RunningWebhookReceiver> {
+  const path = options.path ?? DEFAULT_WEBHOOK_PATH;
+  const server: Server = createServer((req, res) => {
+    handle(req, res, path, onEvent).catch(error => {
+      send(res, 500, { error: (error as Error).message });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `http://${address.address}:${address.port}${path}`,
+        close: () => new Promise(done => server.close(() => done())),
+        unref: () => { server.unref(); },
+      });
+    });
+  });
+}
+
+async function handle(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  onEvent: (event: WebhookEvent) => void
+): Promise<void> {
+  if (req.method !== 'POST' || new URL(req.url ?? '/', 'http://localhost').pathname !== path) {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(await readBody(req));
+  } catch (error) {
+    send(res, 400, { error: `Invalid webhook body: ${(error as Error).message}` });
+    return;
+  }
+  if (!isWebhookEvent(event)) {
+    send(res, 400, { error: 'Webhook body requires topic, username and code' });
+    return;
+  }
+
+  // Answer first: Siigo only needs the acknowledgement
+  send(res, 200, { received: true });
+  onEvent(event);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+  const event = value as Partial<WebhookEvent> | null;
+  return !!event && typeof event === 'object' &&
+    typeof event.topic === 'string' &&
+    typeof event.username === 'string' &&
+    typeof event.code === 'string';
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
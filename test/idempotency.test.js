@@ -0,0 +1,77 @@
+const { afterEach, beforeEach, describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+const { deriveIdempotencyKey, IdempotencyJournal } = require('../dist/idempotency.js');
+
+const INVOICE = { document: { id: 24446 }, date: '2026-01-15', items: [{ code: 'P1', quantity: 1, price: 100 }] };
+
+describe('deriveIdempotencyKey', () => {
+  it('ignores key order and undefined values', () => {
+    const key = deriveIdempotencyKey('invoices', INVOICE);
+    assert.match(key, /^FV[0-9a-f]{28}$/);
+    assert.equal(deriveIdempotencyKey('invoices', { items: INVOICE.items, observations: undefined, date: INVOICE.date, document: INVOICE.document }), key);
+  });
+
+  it('differs by endpoint and payload', () => {
+    const key = deriveIdempotencyKey('invoices', INVOICE);
+    assert.notEqual(deriveIdempotencyKey('credit-notes', INVOICE).slice(2), key.slice(2));
+    assert.notEqual(deriveIdempotencyKey('invoices', { ...INVOICE, date: '2026-01-16' }), key);
+  });
+});
+
+describe('IdempotencyJournal', () => {
+  let directory;
+  let path;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'siigo-journal-'));
+    path = join(directory, 'journal.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('warns when a derived key already created a document', () => {
+    const journal = new IdempotencyJournal(path);
+    const first = journal.resolve('acme', 'invoices', INVOICE);
+    assert.deepEqual(first, { key: first.key, source: 'derived', reused: false });
+    journal.complete('acme', 'invoices', first.key, { id: 'abc', name: 'FV-1-1' });
+
+    const again = new IdempotencyJournal(path).resolve('acme', 'invoices', INVOICE);
+    assert.equal(again.key, first.key);
+    assert.equal(again.reused, true);
+    assert.match(again.warning ?? '', /already sent and created FV-1-1/);
+  });
+
+  it('warns when a given key is reused for a different payload', () => {
+    const journal = new IdempotencyJournal(path);
+    journal.resolve('acme', 'invoices', INVOICE, 'KEY1');
+    const info = journal.resolve('acme', 'invoices', { ...INVOICE, date: '2026-01-16' }, 'KEY1');
+    assert.equal(info.source, 'provided');
+    assert.match(info.warning ?? '', /^Idempotency key KEY1 was already used/);
+  });
+
+  it('keeps the keys of each company apart', () => {
+    const journal = new IdempotencyJournal(path);
+    journal.resolve('acme', 'invoices', INVOICE, 'KEY1');
+    assert.equal(journal.resolve('beta', 'invoices', INVOICE, 'KEY1').reused, false);
+  });
+
+  it('moves an unreadable journal aside and starts a new one', () => {
+    writeFileSync(path, '{"truncated":');
+    const journal = new IdempotencyJournal(path);
+    assert.equal(journal.resolve('acme', 'invoices', INVOICE).reused, false);
+    assert.equal(readdirSync(directory).filter(name => name.startsWith('journal.json.corrupt-')).length, 1);
+    assert.equal(Object.keys(JSON.parse(readFileSync(path, 'utf8'))).length, 1);
+  });
+
+  it('writes nothing without a path', () => {
+    const journal = new IdempotencyJournal(null);
+    journal.resolve('acme', 'invoices', INVOICE);
+    assert.equal(journal.resolve('acme', 'invoices', INVOICE).reused, true);
+    assert.equal(existsSync(path), false);
+  });
+});
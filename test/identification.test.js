@@ -0,0 +1,44 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { checkIdentification, nitCheckDigit } = require('../dist/identification.js');
+
+describe('nitCheckDigit', () => {
+  it('computes the DIAN check digit', () => {
+    assert.equal(nitCheckDigit('800197268'), '4');
+    assert.equal(nitCheckDigit('890903938'), '8');
+    assert.equal(nitCheckDigit('900123456'), '8');
+  });
+
+  it('rejects anything but up to 15 digits', () => {
+    assert.throws(() => nitCheckDigit('90012345A'), /between 1 and 15 digits/);
+    assert.throws(() => nitCheckDigit('1234567890123456'), /between 1 and 15 digits/);
+  });
+});
+
+describe('checkIdentification', () => {
+  it('splits a formatted NIT into the number and its check digit', () => {
+    const check = checkIdentification('31', '800.197.268-4');
+    assert.equal(check.valid, true);
+    assert.equal(check.identification, '800197268');
+    assert.equal(check.check_digit, '4');
+  });
+
+  it('fills in a missing NIT check digit', () => {
+    assert.equal(checkIdentification('31', '900123456').check_digit, '8');
+  });
+
+  it('rejects a wrong NIT check digit', () => {
+    const check = checkIdentification('31', '900123456', '3');
+    assert.equal(check.valid, false);
+    assert.deepEqual(check.errors, ['Check digit 3 does not match NIT 900123456; its DIAN check digit is 8']);
+  });
+
+  it('requires digits for numeric types', () => {
+    assert.equal(checkIdentification('13', '1.020.304.050').valid, true);
+    assert.equal(checkIdentification('13', 'AB123').valid, false);
+  });
+
+  it('rejects an unknown id_type', () => {
+    assert.match(checkIdentification('99', '123').errors[0], /^Unknown id_type 99/);
+  });
+});
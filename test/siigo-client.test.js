@@ -0,0 +1,48 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { AxiosError, AxiosHeaders } = require('axios');
+const { SiigoClient } = require('../dist/siigo-client.js');
+
+const client = new SiigoClient('user', 'key');
+
+function classify(error, method, endpoint = '/v1/invoices', headers) {
+  return client.classifyRetry(error, method, endpoint, headers);
+}
+
+function networkError(code) {
+  return new AxiosError('network error', code);
+}
+
+function httpError(status) {
+  const config = { headers: new AxiosHeaders() };
+  const response = { status, statusText: '', data: {}, headers: {}, config };
+  return new AxiosError(`status ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+}
+
+describe('classifyRetry', () => {
+  it('retries errors that never reached Siigo, even on unkeyed POSTs', () => {
+    assert.equal(classify(networkError('ECONNREFUSED'), 'POST'), 'retry');
+    assert.equal(classify(networkError('ENOTFOUND'), 'POST'), 'retry');
+  });
+
+  it('looks up an unkeyed POST that may have reached Siigo before retrying it', () => {
+    assert.equal(classify(networkError('ECONNABORTED'), 'POST'), 'lookup');
+    assert.equal(classify(httpError(502), 'POST'), 'lookup');
+  });
+
+  it('retries keyed POSTs and POSTs without side effects', () => {
+    assert.equal(classify(httpError(503), 'POST', '/v1/invoices', { 'Idempotency-Key': 'FV1' }), 'retry');
+    assert.equal(classify(httpError(503), 'POST', '/v1/test-balance-report'), 'retry');
+  });
+
+  it('retries 429 and any method other than POST', () => {
+    assert.equal(classify(httpError(429), 'POST'), 'retry');
+    assert.equal(classify(httpError(500), 'GET'), 'retry');
+    assert.equal(classify(networkError('ECONNRESET'), 'PUT'), 'retry');
+  });
+
+  it('does not retry client errors', () => {
+    assert.equal(classify(httpError(400), 'GET'), 'fail');
+    assert.equal(classify(httpError(404), 'POST'), 'fail');
+  });
+});
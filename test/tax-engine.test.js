@@ -0,0 +1,83 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateTaxes } = require('../dist/tax-engine.js');
+
+const CATALOG = [
+  { id: 1, name: 'IVA 19%', type: 'IVA', percentage: 19, active: true },
+  { id: 2, name: 'Impoconsumo 8%', type: 'Impoconsumo', percentage: 8, active: true },
+  { id: 3, name: 'Retefuente 2.5%', type: 'Retefuente', percentage: 2.5, active: true },
+  { id: 4, name: 'ReteIVA 15%', type: 'ReteIVA', percentage: 15, active: true },
+  { id: 5, name: 'ReteICA 0.966%', type: 'ReteICA', percentage: 0.966, active: true },
+  { id: 6, name: 'Autorretencion 0.4%', type: 'Autorretencion', percentage: 0.4, active: true },
+  { id: 7, name: 'IVA 5%', type: 'IVA', percentage: 5, active: false },
+];
+
+describe('calculateTaxes', () => {
+  it('charges IVA on the line base', () => {
+    const result = calculateTaxes({ items: [{ code: 'P1', quantity: 2, price: 100000, taxes: [{ id: 1 }] }] }, CATALOG);
+    assert.equal(result.subtotal, 200000);
+    assert.equal(result.total_taxes, 38000);
+    assert.equal(result.total, 238000);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('withholds ReteIVA on the IVA and ReteICA on the subtotal', () => {
+    const result = calculateTaxes({
+      items: [{ quantity: 2, price: 100000, taxes: [{ id: 1 }] }],
+      retentions: [{ id: 4 }, { id: 5 }],
+    }, CATALOG);
+    assert.deepEqual(result.retentions.map(tax => [tax.type, tax.base, tax.value]), [
+      ['ReteIVA', 38000, 5700],
+      ['ReteICA', 200000, 1932],
+    ]);
+    assert.equal(result.total_retentions, 7632);
+    assert.equal(result.total, 230368);
+  });
+
+  it('groups a line ReteFuente by tax across lines', () => {
+    const result = calculateTaxes({
+      items: [
+        { quantity: 1, price: 100000, taxes: [{ id: 3 }] },
+        { quantity: 1, price: 50000, taxes: [{ id: 3 }] },
+      ],
+    }, CATALOG);
+    assert.deepEqual(result.retentions.map(tax => [tax.id, tax.base, tax.value]), [[3, 150000, 3750]]);
+    assert.equal(result.total, 146250);
+  });
+
+  it('applies percentage and value discounts by document type', () => {
+    const items = [{ quantity: 2, price: 100000, discount: 10, taxes: [{ id: 1 }] }];
+    assert.equal(calculateTaxes({ items }, CATALOG).discounts, 20000);
+    assert.equal(calculateTaxes({ items }, CATALOG, { discount_type: 'Value' }).discounts, 10);
+  });
+
+  it('rounds to whole pesos when the document type has no decimals', () => {
+    const result = calculateTaxes({ items: [{ quantity: 1, price: 999, taxes: [{ id: 1 }] }] }, CATALOG, { decimals: false });
+    assert.equal(result.decimals, 0);
+    assert.equal(result.total_taxes, 190);
+    assert.equal(result.total, 1189);
+  });
+
+  it('leaves Autorretencion out of the total and below the minimum', () => {
+    const items = [{ quantity: 1, price: 100000 }];
+    const above = calculateTaxes({ items, retentions: [{ id: 6 }] }, CATALOG, { self_withholding_limit: 50000 });
+    assert.equal(above.retentions[0].value, 400);
+    assert.equal(above.total, 100000);
+
+    const below = calculateTaxes({ items, retentions: [{ id: 6 }] }, CATALOG, { self_withholding_limit: 200000 });
+    assert.deepEqual(below.retentions, []);
+    assert.match(below.warnings[0], /does not exceed the minimum/);
+  });
+
+  it('warns about item tax combinations Siigo rejects', () => {
+    const result = calculateTaxes({
+      items: [{ code: 'P1', quantity: 1, price: 100, taxes: [{ id: 1 }, { id: 4 }, { id: 7 }, { id: 99 }] }],
+    }, CATALOG);
+    assert.deepEqual(result.warnings, [
+      'Tax 7 (IVA 5%) is inactive',
+      'Tax 99 is not in the company\'s tax catalog (siigo_get_taxes)',
+      'P1 has more than one IVA tax',
+      'P1 has ReteIVA 15%; ReteIVA goes in the document retentions, not in the item taxes',
+    ]);
+  });
+});